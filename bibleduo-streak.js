@@ -0,0 +1,120 @@
+// BibleDuo streak module for Scriptable
+// Save this script as "bibleduo-streak" next to the widget scripts, which load
+// it with importModule. It mirrors src/utils/streak.ts in the app, so the
+// widget counts streaks the same way the app does.
+
+/** @type {{ restDays: number[], freezes: number, freezeMode: string, freezesSince?: string, graceHours: number }} */
+const DEFAULT_STREAK_RULES = { restDays: [], freezes: 0, freezeMode: "monthly", graceHours: 0 };
+
+// Days read for each freeze earned
+const EARN_FREEZE_EVERY = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function pad(value) {
+  return value < 10 ? `0${value}` : String(value);
+}
+
+// yyyy-MM-dd of a moment in the reader's own timezone, not UTC
+function toLocalDateString(date = new Date()) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// The day a reading at `date` counts for, allowing the grace hours after midnight
+function getReadingDate(date = new Date(), graceHours = 0) {
+  return toLocalDateString(graceHours > 0 ? new Date(date.getTime() - graceHours * 60 * 60 * 1000) : date);
+}
+
+function isDateString(value) {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+// Days since the epoch of a calendar date, so daylight saving never shortens a day
+function toDayNumber(date) {
+  const [year, month, day] = date.split("-").map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDayNumber(day) {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Current and longest runs of days read. Rest days never break a run, other
+// missed days from rules.freezesSince on use up a freeze while there is one,
+// and freezes used before (recordedFreezes) always hold. Status is "active"
+// once today is read or today is a rest day, "at-risk" until then, and
+// "broken" after a missed day.
+/**
+ * @param {string[]} dates
+ * @param {Date} [today]
+ * @param {typeof DEFAULT_STREAK_RULES} [rules]
+ * @param {string[]} [recordedFreezes]
+ */
+function calculateStreaks(dates, today = new Date(), rules = DEFAULT_STREAK_RULES, recordedFreezes = []) {
+  const readDates = Array.from(new Set(dates.filter(isDateString))).sort();
+  const todayNumber = toDayNumber(getReadingDate(today, rules.graceHours));
+  const isRestDay = day => rules.restDays.includes(new Date(day * DAY_MS).getUTCDay());
+  const monthOf = day => fromDayNumber(day).slice(0, 7);
+  if (readDates.length === 0) {
+    return { currentStreak: 0, longestStreak: 0, status: "none", frozenDates: [], currentFreezes: [], freezesLeft: rules.freezes };
+  }
+
+  const read = new Set(readDates.map(toDayNumber));
+  const recorded = new Set(recordedFreezes.filter(isDateString).map(toDayNumber));
+  // Turning freezes on doesn't reach back over the days already missed
+  const freezesFrom = isDateString(rules.freezesSince) ? toDayNumber(rules.freezesSince) : -Infinity;
+  const usedByMonth = {};
+  let earned = 0;
+  let readCount = 0;
+  let run = 0;
+  let longestStreak = 0;
+  const frozenDates = [];
+  let currentFreezes = [];
+
+  for (let day = toDayNumber(readDates[0]); day <= todayNumber; day++) {
+    if (read.has(day)) {
+      run++;
+      longestStreak = Math.max(longestStreak, run);
+      if (rules.freezeMode === "earned" && day >= freezesFrom && ++readCount % EARN_FREEZE_EVERY === 0) {
+        earned = Math.min(earned + 1, rules.freezes);
+      }
+      continue;
+    }
+    // Today can still be read, and there's nothing left to save once a streak is broken
+    if (day === todayNumber || isRestDay(day) || run === 0) continue;
+
+    const month = monthOf(day);
+    const available = rules.freezeMode === "earned" ? earned : rules.freezes - (usedByMonth[month] || 0);
+    if (recorded.has(day) || (day >= freezesFrom && available > 0)) {
+      if (rules.freezeMode === "earned") earned = Math.max(earned - 1, 0);
+      else usedByMonth[month] = (usedByMonth[month] || 0) + 1;
+      frozenDates.push(fromDayNumber(day));
+      currentFreezes.push(fromDayNumber(day));
+      continue;
+    }
+    run = 0;
+    currentFreezes = [];
+  }
+
+  const status = read.has(todayNumber) || (run > 0 && isRestDay(todayNumber))
+    ? "active"
+    : run > 0 ? "at-risk" : "broken";
+  return {
+    currentStreak: run,
+    longestStreak,
+    lastReadDate: readDates[readDates.length - 1],
+    status,
+    frozenDates,
+    currentFreezes,
+    freezesLeft: rules.freezeMode === "earned"
+      ? earned
+      : Math.max(rules.freezes - (usedByMonth[monthOf(todayNumber)] || 0), 0)
+  };
+}
+
+// Dates from the widget data's completionDates ({ day: "yyyy-MM-dd" })
+function getReadDates(completionDates) {
+  return Object.values(completionDates || {});
+}
+
+module.exports = { DEFAULT_STREAK_RULES, toLocalDateString, getReadingDate, calculateStreaks, getReadDates };
@@ -3,6 +3,8 @@
 
 // Configuration
 const APP_URL = "https://evank-wc.github.io/bibleduo/";
+// Shared streak counting, saved in Scriptable as "bibleduo-streak"
+const streaks = importModule("bibleduo-streak");
 const WIDGET_SIZE = config.widgetFamily || "medium";
 
 async function fetchUserData() {
@@ -40,76 +42,6 @@ async function fetchUserData() {
   }
 }
 
-function calculateStreaks(completedDays, completionDates) {
-  if (!completedDays || completedDays.length === 0) {
-    return { currentStreak: 0, longestStreak: 0, totalCompleted: 0 };
-  }
-  
-  // Convert completion dates to sorted array
-  const completionDateStrings = [];
-  completedDays.forEach(dayNumber => {
-    const completionDate = completionDates[dayNumber];
-    if (completionDate) {
-      completionDateStrings.push(completionDate);
-    } else {
-      // Fallback to today's date
-      const today = new Date().toISOString().split('T')[0];
-      completionDateStrings.push(today);
-    }
-  });
-  
-  // Sort dates chronologically
-  const sortedDates = completionDateStrings.sort();
-  
-  // Find the most recent completion date
-  const mostRecentDate = sortedDates[sortedDates.length - 1];
-  const mostRecent = new Date(mostRecentDate);
-  
-  // Calculate current streak (consecutive calendar days from most recent backwards)
-  let currentStreak = 0;
-  let currentDate = new Date(mostRecent);
-  
-  // Count consecutive days backwards
-  while (sortedDates.includes(currentDate.toISOString().split('T')[0])) {
-    currentStreak++;
-    currentDate.setDate(currentDate.getDate() - 1);
-  }
-  
-  // Calculate longest streak
-  let longestStreak = 0;
-  let currentStreakCount = 0;
-  let lastDate = null;
-  
-  sortedDates.forEach(dateStr => {
-    const currentDate = new Date(dateStr);
-    
-    if (lastDate === null) {
-      currentStreakCount = 1;
-    } else {
-      const dayDiff = Math.floor((currentDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
-      if (dayDiff === 1) {
-        // Consecutive day
-        currentStreakCount++;
-      } else {
-        // Gap found, reset streak
-        longestStreak = Math.max(longestStreak, currentStreakCount);
-        currentStreakCount = 1;
-      }
-    }
-    
-    lastDate = currentDate;
-  });
-  
-  // Don't forget to check the last streak
-  longestStreak = Math.max(longestStreak, currentStreakCount);
-  
-  return {
-    currentStreak,
-    longestStreak,
-    totalCompleted: completedDays.length
-  };
-}
-
 function getMotivationalMessage(streak) {
   if (streak === 0) {
     return "Start your journey today! 📖";
@@ -146,10 +78,15 @@ async function createWidget() {
     return widget;
   }
   
-  const { currentStreak, longestStreak, totalCompleted } = calculateStreaks(
-    data.completedDays, 
-    data.completionDates
+  // Days without a stored date can't be placed on the calendar, so only dated ones count.
+  // Optional streakRules and streakFreezes follow the app's streak settings.
+  const { currentStreak, longestStreak } = streaks.calculateStreaks(
+    streaks.getReadDates(data.completionDates),
+    new Date(),
+    { ...streaks.DEFAULT_STREAK_RULES, ...data.streakRules },
+    data.streakFreezes
   );
+  const totalCompleted = data.completedDays.length;
   
   const widget = new ListWidget();
   widget.backgroundColor = new Color("#1a1a1a");
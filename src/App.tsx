@@ -5,54 +5,44 @@ import Header from './components/Header';
 import Dashboard from './components/Dashboard';
 import ReadingView from './components/ReadingView';
 import PlanSelector from './components/PlanSelector';
+import PlanBuilder from './components/PlanBuilder';
 import Settings from './components/Settings';
 import BibleViewer from './components/BibleViewer';
+import SearchView from './components/SearchView';
+import HighlightsView from './components/HighlightsView';
+import JournalView from './components/JournalView';
+import HistoryView from './components/HistoryView';
+import MemoryView from './components/MemoryView';
 import WidgetView from './components/WidgetView';
 import { AppSettings } from './types';
+import { migrateLegacyProgress } from './utils/progress';
+import { createDefaultSettings } from './utils/settings';
+import { getStreakStats } from './utils/streak';
 
 function App() {
   const [settings, setSettings] = useState<AppSettings>(() => {
     const saved = localStorage.getItem('bibleAppSettings');
     if (saved) {
-      const parsed = JSON.parse(saved);
-      // Convert completedDays array back to Set
-      if (parsed.completedDays && Array.isArray(parsed.completedDays)) {
-        parsed.completedDays = new Set(parsed.completedDays);
-      }
-      // Convert completionDates object back to Map
-      if (parsed.completionDates && typeof parsed.completionDates === 'object') {
-        const completionDatesMap = new Map();
-        Object.entries(parsed.completionDates).forEach(([key, value]) => {
-          completionDatesMap.set(parseInt(key), value as string);
-        });
-        parsed.completionDates = completionDatesMap;
-      }
-      return parsed;
+      // Progress saved for a single plan moves into that plan's progress
+      return migrateLegacyProgress(JSON.parse(saved));
     }
-    return {
-      translation: 'ESV',
-      uiLanguage: 'en',
-      fontSize: 16,
-      theme: 'light',
-      selectedPlan: undefined,
-      currentDay: 1,
-      completedDays: new Set<number>(),
-      completionDates: new Map<number, string>(),
-      notifications: {
-        enabled: false,
-        time: '08:00'
-      }
-    };
+    return createDefaultSettings();
   });
 
   useEffect(() => {
-    // Convert Set and Map to serializable formats for localStorage
-    const settingsForStorage = {
-      ...settings,
-      completedDays: Array.from(settings.completedDays || new Set()),
-      completionDates: Object.fromEntries(settings.completionDates || new Map())
-    };
-    localStorage.setItem('bibleAppSettings', JSON.stringify(settingsForStorage));
+    localStorage.setItem('bibleAppSettings', JSON.stringify(settings));
+  }, [settings]);
+
+  useEffect(() => {
+    // Record streak freezes as they are used up, so later rule changes don't rewrite them
+    const recorded = settings.streakFreezes || [];
+    const { frozenDates } = getStreakStats(settings);
+    if (frozenDates.some(date => !recorded.includes(date))) {
+      setSettings(prev => ({
+        ...prev,
+        streakFreezes: Array.from(new Set([...(prev.streakFreezes || []), ...frozenDates])).sort()
+      }));
+    }
   }, [settings]);
 
   const updateSettings = (newSettings: Partial<AppSettings>) => {
@@ -95,9 +85,10 @@ function App() {
             <Route 
               path="/settings" 
               element={
-                <Settings 
+                <Settings
                   settings={settings}
                   updateSettings={updateSettings}
+                  resetSettings={setSettings}
                 />
               } 
             />
@@ -106,6 +97,69 @@ function App() {
               element={
                 <BibleViewer 
                   settings={settings}
+                  updateSettings={updateSettings}
+                />
+              } 
+            />
+            <Route 
+              path="/search" 
+              element={
+                <SearchView 
+                  settings={settings}
+                />
+              } 
+            />
+            <Route 
+              path="/highlights" 
+              element={
+                <HighlightsView 
+                  settings={settings}
+                  updateSettings={updateSettings}
+                />
+              } 
+            />
+            <Route 
+              path="/journal" 
+              element={
+                <JournalView 
+                  settings={settings}
+                  updateSettings={updateSettings}
+                />
+              } 
+            />
+            <Route 
+              path="/history" 
+              element={
+                <HistoryView 
+                  settings={settings}
+                  updateSettings={updateSettings}
+                />
+              } 
+            />
+            <Route 
+              path="/plan-builder" 
+              element={
+                <PlanBuilder 
+                  settings={settings}
+                  updateSettings={updateSettings}
+                />
+              } 
+            />
+            <Route 
+              path="/plan-builder/:planId" 
+              element={
+                <PlanBuilder 
+                  settings={settings}
+                  updateSettings={updateSettings}
+                />
+              } 
+            />
+            <Route 
+              path="/memory" 
+              element={
+                <MemoryView 
+                  settings={settings}
+                  updateSettings={updateSettings}
                 />
               } 
             />
@@ -114,6 +168,7 @@ function App() {
               element={
                 <WidgetView 
                   settings={settings}
+                  updateSettings={updateSettings}
                 />
               } 
             />
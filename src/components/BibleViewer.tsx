@@ -1,60 +1,48 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { AppSettings } from '../types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { AppSettings, Chapter, PassageVerse } from '../types';
+import { BibleSource, getDefaultParallelTranslation, getParallelTranslation, loadBibleSource } from '../utils/bibleSource';
+import { BookInfo, findBook, getBookName } from '../utils/books';
+import { getBookmarkedVerseKeys } from '../utils/bookmarks';
+import { getNotedVerseKeys } from '../utils/notes';
+import { getBiblePath, getVerseKey, parseReference } from '../utils/reference';
+import { SelectionAction, VerseSelection, getSelectedVerses, updateSelection } from '../utils/selection';
+import { isSpeechSupported } from '../utils/speech';
+import ListenPlayer from './ListenPlayer';
+import VerseActions from './VerseActions';
+import VerseList from './VerseList';
 import './BibleViewer.css';
 
 interface BibleViewerProps {
   settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
 }
 
-// ESV Bible structure
-interface ESVBible {
-  [bookName: string]: {
-    [chapter: string]: {
-      [verse: string]: string;
-    };
-  };
-}
-
-// CUVS Bible structure
-interface CUVSBible {
-  verses: Array<{
-    book_name: string;
-    book: number;
-    chapter: number;
-    verse: number;
-    text: string;
-  }>;
-}
-
-interface Verse {
-  verse: number;
-  text: string;
-}
-
-interface Chapter {
-  chapter: number;
-  verses: Verse[];
-}
-
-const BibleViewer: React.FC<BibleViewerProps> = ({ settings }) => {
+const BibleViewer: React.FC<BibleViewerProps> = ({ settings, updateSettings }) => {
   const { bookName, chapter } = useParams<{ bookName?: string; chapter?: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const referenceParam = searchParams.get('ref');
+  const verseParam = searchParams.get('verse');
   
-  const [bibleData, setBibleData] = useState<ESVBible | CUVSBible | null>(null);
+  const [bibleData, setBibleData] = useState<BibleSource | null>(null);
+  const [parallelData, setParallelData] = useState<BibleSource | null>(null);
   const [loading, setLoading] = useState(true);
-  const [currentBook, setCurrentBook] = useState<string>('Genesis');
+  const [currentBook, setCurrentBook] = useState<string>('Gen');
   const [currentChapter, setCurrentChapter] = useState<number>(1);
-  const [selectedVerse, setSelectedVerse] = useState<number | null>(null);
+  const [selection, setSelection] = useState<VerseSelection | null>(null);
+  const [listening, setListening] = useState(false);
+  const [speakingVerse, setSpeakingVerse] = useState<string | null>(null);
   const [showBookDrawer, setShowBookDrawer] = useState(false);
   const [showChapterDrawer, setShowChapterDrawer] = useState(false);
+  // Scroll offset to return to once a resumed chapter is shown
+  const restoreScroll = useRef<number | null>(null);
+  const lastRead = settings.lastRead?.[settings.translation];
 
   const loadBibleData = useCallback(async () => {
     setLoading(true);
     try {
-      const response = await fetch(`./data/${settings.translation.toLowerCase()}.json`);
-      const data = await response.json();
-      setBibleData(data);
+      setBibleData(await loadBibleSource(settings.translation));
     } catch (error) {
       console.error('Error loading Bible data:', error);
     } finally {
@@ -66,25 +54,110 @@ const BibleViewer: React.FC<BibleViewerProps> = ({ settings }) => {
     loadBibleData();
   }, [loadBibleData]);
 
+  const parallelTranslation = getParallelTranslation(settings);
+
   useEffect(() => {
-    // Set default values if no URL parameters are provided
+    if (!parallelTranslation) {
+      setParallelData(null);
+      return;
+    }
+    loadBibleSource(parallelTranslation)
+      .then(setParallelData)
+      .catch(error => console.error('Error loading parallel translation:', error));
+  }, [parallelTranslation]);
+
+  const toggleDuoMode = () => {
+    updateSettings({
+      parallel: {
+        layout: 'columns',
+        translation: getDefaultParallelTranslation(settings.translation),
+        ...settings.parallel,
+        enabled: !parallelTranslation
+      }
+    });
+  };
+
+  useEffect(() => {
+    // Deep links such as /bible?ref=John 3:16 open the start of the reference
+    if (referenceParam) {
+      const parsed = parseReference(referenceParam);
+      if (parsed.ok) {
+        navigate(getBiblePath(parsed.ranges[0]), { replace: true });
+        return;
+      }
+    }
+
+    // Without a location, reopen where this translation was last read
     if (!bookName || !chapter) {
-      const defaultBook = settings.translation === 'ESV' ? 'Genesis' : '创世记';
-      setCurrentBook(defaultBook);
-      setCurrentChapter(1);
-      // Navigate to the default location
-      navigate(`/bible/${defaultBook}/1`, { replace: true });
-    } else {
-      setCurrentBook(bookName);
-      setCurrentChapter(parseInt(chapter));
+      const book = lastRead?.book || 'Gen';
+      const chapterNum = lastRead?.chapter || 1;
+      restoreScroll.current = lastRead ? lastRead.scroll : null;
+      setCurrentBook(book);
+      setCurrentChapter(chapterNum);
+      navigate(`/bible/${book}/${chapterNum}`, { replace: true });
+      return;
     }
-  }, [bookName, chapter, settings.translation, navigate]);
+
+    // Older links used translation-specific names; rewrite them to book ids
+    const book = findBook(bookName);
+    if (book && book.id !== bookName) {
+      navigate(`/bible/${book.id}/${chapter}`, { replace: true });
+      return;
+    }
+    setCurrentBook(book ? book.id : bookName);
+    setCurrentChapter(parseInt(chapter));
+  }, [bookName, chapter, referenceParam, navigate, lastRead]);
 
   useEffect(() => {
-    // Scroll to top whenever book or chapter changes
+    // Scroll to top and drop the selection whenever book or chapter changes
     window.scrollTo({ top: 0, behavior: 'smooth' });
+    setSelection(null);
+    setListening(false);
   }, [currentBook, currentChapter]);
 
+  useEffect(() => {
+    if (loading || restoreScroll.current === null) return;
+    window.scrollTo({ top: restoreScroll.current });
+    restoreScroll.current = null;
+  }, [loading, bookName, chapter]);
+
+  const savePosition = useRef(() => {});
+  savePosition.current = () => {
+    if (loading || restoreScroll.current !== null || !bibleData?.getChapter(currentBook, currentChapter)) return;
+    const scroll = Math.round(window.scrollY);
+    if (lastRead?.book === currentBook && lastRead.chapter === currentChapter && lastRead.scroll === scroll) return;
+    updateSettings({
+      lastRead: {
+        ...settings.lastRead,
+        [settings.translation]: { book: currentBook, chapter: currentChapter, scroll, updatedAt: new Date().toISOString() }
+      }
+    });
+  };
+
+  useEffect(() => {
+    // Remember the chapter and scroll offset once scrolling settles
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => savePosition.current(), 500);
+    };
+    schedule();
+    window.addEventListener('scroll', schedule);
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      clearTimeout(timer);
+    };
+  }, [currentBook, currentChapter, loading]);
+
+  useEffect(() => {
+    // Linked verses are selected and scrolled into view once the text is shown
+    if (!verseParam || loading) return;
+    const verseNum = parseInt(verseParam);
+    const key = getVerseKey(currentBook, currentChapter, verseNum);
+    setSelection({ anchor: key, focus: key });
+    document.getElementById(`verse-${verseNum}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [verseParam, currentBook, currentChapter, loading]);
+
   const handleBookChange = (book: string) => {
     setCurrentBook(book);
     setCurrentChapter(1);
@@ -98,172 +171,41 @@ const BibleViewer: React.FC<BibleViewerProps> = ({ settings }) => {
     navigate(`/bible/${currentBook}/${chapterNum}`);
   };
 
-  const handleVerseClick = (verseNum: number) => {
-    setSelectedVerse(selectedVerse === verseNum ? null : verseNum);
+  const handleVerseClick = (verse: PassageVerse, action: SelectionAction) => {
+    setSelection(updateSelection(selection, getVerseKey(verse.book, verse.chapter, verse.verse), action));
   };
 
   const getCurrentChapterData = (): Chapter | null => {
     if (!bibleData) return null;
 
-    if (settings.translation === 'ESV') {
-      const esvData = bibleData as ESVBible;
-      const bookData = esvData[currentBook];
-      if (!bookData) {
-        // Fallback to Genesis if book doesn't exist
-        const genesisData = esvData['Genesis'];
-        if (genesisData) {
-          setCurrentBook('Genesis');
-          setCurrentChapter(1);
-          navigate('/bible/Genesis/1', { replace: true });
-          return getCurrentChapterData();
-        }
-        return null;
-      }
-
-      const chapterData = bookData[currentChapter.toString()];
-      if (!chapterData) {
-        // Fallback to chapter 1 if chapter doesn't exist
-        const firstChapter = bookData['1'];
-        if (firstChapter) {
-          setCurrentChapter(1);
-          navigate(`/bible/${currentBook}/1`, { replace: true });
-          return getCurrentChapterData();
-        }
-        return null;
+    if (bibleData.getChapterCount(currentBook) === 0) {
+      // Fallback to the first book if this one doesn't exist
+      const firstBook = bibleData.listBooks()[0];
+      if (firstBook && firstBook.id !== currentBook) {
+        setCurrentBook(firstBook.id);
+        setCurrentChapter(1);
+        navigate(`/bible/${firstBook.id}/1`, { replace: true });
       }
+      return null;
+    }
 
-      const verses: Verse[] = Object.entries(chapterData).map(([verseNum, text]) => ({
-        verse: parseInt(verseNum),
-        text: text
-      })).sort((a, b) => a.verse - b.verse);
-
-      return {
-        chapter: currentChapter,
-        verses: verses
-      };
-    } else {
-      // CUVS format
-      const cuvsData = bibleData as CUVSBible;
-      const bookVerses = cuvsData.verses.filter(v => 
-        v.book_name === currentBook && v.chapter === currentChapter
-      );
-
-      if (bookVerses.length === 0) {
-        // Fallback to Genesis if book doesn't exist
-        const genesisVerses = cuvsData.verses.filter(v => 
-          v.book_name === '创世记' && v.chapter === 1
-        );
-        if (genesisVerses.length > 0) {
-          setCurrentBook('创世记');
-          setCurrentChapter(1);
-          navigate('/bible/创世记/1', { replace: true });
-          return getCurrentChapterData();
-        }
-        return null;
-      }
-
-      const verses: Verse[] = bookVerses.map(v => ({
-        verse: v.verse,
-        text: v.text
-      })).sort((a, b) => a.verse - b.verse);
-
-      return {
-        chapter: currentChapter,
-        verses: verses
-      };
+    const chapterData = bibleData.getChapter(currentBook, currentChapter);
+    if (!chapterData && currentChapter !== 1 && bibleData.getChapter(currentBook, 1)) {
+      // Fallback to chapter 1 if chapter doesn't exist
+      setCurrentChapter(1);
+      navigate(`/bible/${currentBook}/1`, { replace: true });
     }
+    return chapterData;
   };
 
-  const getBookNames = (): { oldTestament: string[], newTestament: string[] } => {
+  const getBooks = (): { oldTestament: BookInfo[], newTestament: BookInfo[] } => {
     if (!bibleData) return { oldTestament: [], newTestament: [] };
 
-    if (settings.translation === 'ESV') {
-      // ESV books in biblical order
-      const oldTestament = [
-        'Genesis', 'Exodus', 'Leviticus', 'Numbers', 'Deuteronomy',
-        'Joshua', 'Judges', 'Ruth', '1 Samuel', '2 Samuel',
-        '1 Kings', '2 Kings', '1 Chronicles', '2 Chronicles',
-        'Ezra', 'Nehemiah', 'Esther', 'Job', 'Psalms', 'Proverbs',
-        'Ecclesiastes', 'Song of Solomon', 'Isaiah', 'Jeremiah',
-        'Lamentations', 'Ezekiel', 'Daniel', 'Hosea', 'Joel',
-        'Amos', 'Obadiah', 'Jonah', 'Micah', 'Nahum', 'Habakkuk',
-        'Zephaniah', 'Haggai', 'Zechariah', 'Malachi'
-      ];
-      
-      const newTestament = [
-        'Matthew', 'Mark', 'Luke', 'John', 'Acts',
-        'Romans', '1 Corinthians', '2 Corinthians', 'Galatians',
-        'Ephesians', 'Philippians', 'Colossians', '1 Thessalonians',
-        '2 Thessalonians', '1 Timothy', '2 Timothy', 'Titus',
-        'Philemon', 'Hebrews', 'James', '1 Peter', '2 Peter',
-        '1 John', '2 John', '3 John', 'Jude', 'Revelation'
-      ];
-      
-      const esvData = bibleData as ESVBible;
-      const availableBooks = Object.keys(esvData);
-      // Map canonical names to JSON keys
-      const esvBookNameMap: Record<string, string> = {
-        'Psalms': 'Psalm',
-        'Song of Solomon': 'Song Of Solomon',
-      };
-      const isBookAvailable = (book: string) => {
-        const mapped = esvBookNameMap[book] || book;
-        return availableBooks.includes(mapped);
-      };
-      return {
-        oldTestament: oldTestament.filter(isBookAvailable),
-        newTestament: newTestament.filter(isBookAvailable)
-      };
-    } else {
-      // CUVS books in biblical order (Chinese names)
-      const oldTestament = [
-        '创世记', '出埃及', '利未记', '民数记', '申命记',
-        '约书亚记', '士师记', '路得记', '撒母耳记上', '撒母耳记下',
-        '列王纪上', '列王纪下', '历代志上', '历代志下',
-        '以斯拉记', '尼希米记', '以斯帖记', '约伯记', '诗篇', '箴言',
-        '传道书', '雅歌', '以赛亚书', '耶利米书',
-        '耶利米哀歌', '以西结书', '但以理书', '何西阿书', '约珥书',
-        '阿摩司书', '俄巴底亚书', '约拿书', '弥迦书', '那鸿书', '哈巴谷书',
-        '西番雅书', '哈该书', '撒迦利亚书', '玛拉基书'
-      ];
-      
-      const newTestament = [
-        '马太福音', '马可福音', '路加福音', '约翰福音', '使徒行传',
-        '罗马书', '歌林多前书', '歌林多后书', '加拉太书',
-        '以弗所书', '腓立比书', '歌罗西书', '帖撒罗尼迦前书',
-        '帖撒罗尼迦后书', '提摩太前书', '提摩太后书', '提多书',
-        '腓利门书', '希伯来书', '雅各书', '彼得前书', '彼得后书',
-        '约翰一书', '约翰二书', '约翰三书', '犹大书', '启示录'
-      ];
-      
-      const cuvsData = bibleData as CUVSBible;
-      const availableBooks = Array.from(new Set(cuvsData.verses.map(v => v.book_name)));
-      
-      return {
-        oldTestament: oldTestament.filter(book => availableBooks.includes(book)),
-        newTestament: newTestament.filter(book => availableBooks.includes(book))
-      };
-    }
-  };
-
-  const getChapterCount = (): number => {
-    if (!bibleData) return 0;
-
-    if (settings.translation === 'ESV') {
-      const esvData = bibleData as ESVBible;
-      const bookData = esvData[currentBook];
-      if (!bookData) return 0;
-      return Object.keys(bookData).length;
-    } else {
-      // CUVS format
-      const cuvsData = bibleData as CUVSBible;
-      const chapters = Array.from(new Set(
-        cuvsData.verses
-          .filter(v => v.book_name === currentBook)
-          .map(v => v.chapter)
-      ));
-      return Math.max(...chapters);
-    }
+    const books = bibleData.listBooks();
+    return {
+      oldTestament: books.filter(b => b.testament === 'OT'),
+      newTestament: books.filter(b => b.testament === 'NT')
+    };
   };
 
   if (loading) {
@@ -283,8 +225,14 @@ const BibleViewer: React.FC<BibleViewerProps> = ({ settings }) => {
   }
 
   const currentChapterData = getCurrentChapterData();
-  const { oldTestament, newTestament } = getBookNames();
-  const chapterCount = getChapterCount();
+  const { oldTestament, newTestament } = getBooks();
+  const chapterCount = bibleData.getChapterCount(currentBook);
+  const currentBookName = getBookName(currentBook, bibleData.language);
+  const toPassageVerses = (chapterData: Chapter | null) =>
+    (chapterData?.verses || []).map(v => ({ ...v, book: currentBook, chapter: chapterData!.chapter }));
+  const chapterVerses = toPassageVerses(currentChapterData);
+  const selectedVerses = getSelectedVerses(chapterVerses, selection);
+  const parallelChapterData = parallelData ? parallelData.getChapter(currentBook, currentChapter) : null;
 
   return (
     <div className="bible-viewer">
@@ -295,7 +243,7 @@ const BibleViewer: React.FC<BibleViewerProps> = ({ settings }) => {
               className="nav-button book-selector-btn"
               onClick={() => setShowBookDrawer(!showBookDrawer)}
             >
-              📖 {currentBook}
+              📖 {currentBookName}
             </button>
             
             <button 
@@ -304,12 +252,28 @@ const BibleViewer: React.FC<BibleViewerProps> = ({ settings }) => {
             >
               📄 Chapter {currentChapter}
             </button>
+
+            <button
+              className={`duo-toggle ${parallelTranslation ? 'active' : ''}`}
+              onClick={toggleDuoMode}
+            >
+              Duo
+            </button>
+
+            {isSpeechSupported() && (
+              <button
+                className={`listen-toggle ${listening ? 'active' : ''}`}
+                onClick={() => setListening(!listening)}
+              >
+                🔊 Listen
+              </button>
+            )}
           </div>
         </div>
       </div>
 
       <div className="bible-info">
-        <h1>{currentBook} {currentChapter}</h1>
+        <h1>{currentBookName} {currentChapter}</h1>
         <p className="translation-info">{settings.translation} Translation</p>
       </div>
 
@@ -327,11 +291,11 @@ const BibleViewer: React.FC<BibleViewerProps> = ({ settings }) => {
               <div className="book-grid">
                 {oldTestament.map(book => (
                   <button
-                    key={book}
-                    className={`book-btn ${currentBook === book ? 'active' : ''}`}
-                    onClick={() => handleBookChange(book)}
+                    key={book.id}
+                    className={`book-btn ${currentBook === book.id ? 'active' : ''}`}
+                    onClick={() => handleBookChange(book.id)}
                   >
-                    {book}
+                    {book.names[bibleData.language]}
                   </button>
                 ))}
               </div>
@@ -342,11 +306,11 @@ const BibleViewer: React.FC<BibleViewerProps> = ({ settings }) => {
               <div className="book-grid">
                 {newTestament.map(book => (
                   <button
-                    key={book}
-                    className={`book-btn ${currentBook === book ? 'active' : ''}`}
-                    onClick={() => handleBookChange(book)}
+                    key={book.id}
+                    className={`book-btn ${currentBook === book.id ? 'active' : ''}`}
+                    onClick={() => handleBookChange(book.id)}
                   >
-                    {book}
+                    {book.names[bibleData.language]}
                   </button>
                 ))}
               </div>
@@ -382,17 +346,20 @@ const BibleViewer: React.FC<BibleViewerProps> = ({ settings }) => {
       <div className="bible-content">
         {currentChapterData ? (
           <div className="chapter-content">
-            {currentChapterData.verses.map(verse => (
-              <div 
-                key={verse.verse}
-                className={`verse ${selectedVerse === verse.verse ? 'selected' : ''}`}
-                onClick={() => handleVerseClick(verse.verse)}
-                style={{ fontSize: `${settings.fontSize}px` }}
-              >
-                <span className="verse-number">{verse.verse}</span>
-                <span className="verse-text">{verse.text}</span>
-              </div>
-            ))}
+            <VerseList
+              verses={chapterVerses}
+              fontSize={settings.fontSize}
+              isActive={verse => selectedVerses.includes(verse)}
+              activeClassName="selected"
+              onVerseClick={handleVerseClick}
+              parallelVerses={parallelData ? toPassageVerses(parallelChapterData) : null}
+              layout={settings.parallel?.layout}
+              translations={parallelTranslation ? [settings.translation, parallelTranslation] : undefined}
+              highlights={settings.highlights}
+              notedVerses={getNotedVerseKeys(settings.notes || [], chapterVerses)}
+              bookmarkedVerses={getBookmarkedVerseKeys(settings.bookmarks || [])}
+              speakingVerse={speakingVerse}
+            />
           </div>
         ) : (
           <div className="no-content">
@@ -401,6 +368,26 @@ const BibleViewer: React.FC<BibleViewerProps> = ({ settings }) => {
         )}
       </div>
 
+      {listening && (
+        <ListenPlayer
+          settings={settings}
+          updateSettings={updateSettings}
+          verses={chapterVerses}
+          language={bibleData.language}
+          startKey={selectedVerses[0] && getVerseKey(currentBook, currentChapter, selectedVerses[0].verse)}
+          onVerseChange={setSpeakingVerse}
+          onClose={() => setListening(false)}
+        />
+      )}
+
+      <VerseActions
+        settings={settings}
+        updateSettings={updateSettings}
+        verses={selectedVerses}
+        language={bibleData.language}
+        onClose={() => setSelection(null)}
+      />
+
       <div className="bible-footer">
         <div className="navigation-buttons">
           {currentChapter > 1 && (
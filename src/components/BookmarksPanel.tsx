@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AppSettings } from '../types';
+import { deleteBookmark, renameBookmark } from '../utils/bookmarks';
+import { getBookName } from '../utils/books';
+import { formatReference, getBiblePath, getVerseRange } from '../utils/reference';
+import { getUiText } from '../utils/uiText';
+import './BookmarksPanel.css';
+
+interface BookmarksPanelProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+}
+
+const BookmarksPanel: React.FC<BookmarksPanelProps> = ({ settings, updateSettings }) => {
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [name, setName] = useState('');
+
+  const bookmarks = settings.bookmarks || [];
+  const lastRead = settings.lastRead?.[settings.translation];
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      title: 'Bookmarks',
+      resume: 'Pick up where you left off',
+      empty: 'Tap a verse while reading and choose Bookmark to save it here.',
+      rename: 'Rename',
+      remove: 'Remove',
+      save: 'Save'
+    },
+    zh: {
+      title: '书签',
+      resume: '从上次离开的地方继续',
+      empty: '阅读时点击经文并选择“书签”即可保存到这里。',
+      rename: '重命名',
+      remove: '删除',
+      save: '保存'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  const startRename = (id: string, current: string) => {
+    setRenaming(id);
+    setName(current);
+  };
+
+  const handleRename = (e: React.FormEvent, id: string) => {
+    e.preventDefault();
+    if (name.trim()) {
+      updateSettings({ bookmarks: renameBookmark(bookmarks, id, name.trim()) });
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <div className="bookmarks-panel">
+      <h3>{currentText.title}</h3>
+
+      {lastRead && (
+        <Link to="/bible" className="resume-link">
+          <span>{currentText.resume}</span>
+          <strong>{getBookName(lastRead.book, settings.uiLanguage)} {lastRead.chapter} · {settings.translation}</strong>
+        </Link>
+      )}
+
+      {bookmarks.length === 0 ? (
+        <p className="bookmarks-empty">{currentText.empty}</p>
+      ) : (
+        <ul className="bookmark-list">
+          {bookmarks.map(bookmark => {
+            const range = getVerseRange(bookmark.book, bookmark.chapter, bookmark.verse);
+            return (
+              <li key={bookmark.id} className="bookmark-item">
+                {renaming === bookmark.id ? (
+                  <form className="bookmark-rename" onSubmit={(e) => handleRename(e, bookmark.id)}>
+                    <input type="text" value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+                    <button type="submit">{currentText.save}</button>
+                  </form>
+                ) : (
+                  <Link to={getBiblePath(range)} className="bookmark-link">
+                    <span className="bookmark-name">🔖 {bookmark.name}</span>
+                    <span className="bookmark-reference">{formatReference([range], settings.uiLanguage)}</span>
+                  </Link>
+                )}
+                <div className="bookmark-actions">
+                  {renaming !== bookmark.id && (
+                    <button onClick={() => startRename(bookmark.id, bookmark.name)}>{currentText.rename}</button>
+                  )}
+                  <button onClick={() => updateSettings({ bookmarks: deleteBookmark(bookmarks, bookmark.id) })}>
+                    {currentText.remove}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BookmarksPanel;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { AppSettings, CatchUpStrategy } from '../types';
+import { CATCH_UP_STRATEGIES, applyCatchUp, getPlanSchedule } from '../utils/catchUp';
+import { updatePlanProgress } from '../utils/progress';
+import { getUiText } from '../utils/uiText';
+import './CatchUpDialog.css';
+
+interface CatchUpDialogProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+  planId: string;
+  missedDays: number[];
+  scheduledDay: number;
+  totalDays: number;
+  onClose: () => void;
+}
+
+const CatchUpDialog: React.FC<CatchUpDialogProps> = ({
+  settings,
+  updateSettings,
+  planId,
+  missedDays,
+  scheduledDay,
+  totalDays,
+  onClose
+}) => {
+  const [strategy, setStrategy] = useState<CatchUpStrategy>('spread');
+  const [spreadDays, setSpreadDays] = useState(7);
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      title: 'Catch Up',
+      missed: 'Missed readings: {days}',
+      day: 'Day',
+      spread: 'Spread them out',
+      spreadDesc: 'Read the missed days along with the next {count} days',
+      pushBack: 'Push the schedule back',
+      pushBackDesc: 'Start again from day {day} and move every later day back',
+      skip: 'Skip to today',
+      skipDesc: 'Keep the missed days in a read-later list and carry on with day {day}',
+      spreadOver: 'Days to spread over:',
+      apply: 'Rebalance',
+      cancel: 'Cancel',
+      close: 'Close'
+    },
+    zh: {
+      title: '补读',
+      missed: '未读的日子: {days}',
+      day: '第',
+      spread: '分摊补读',
+      spreadDesc: '在接下来的 {count} 天里一并补读',
+      pushBack: '整体顺延',
+      pushBackDesc: '从第 {day} 天重新开始，之后的日子全部顺延',
+      skip: '跳到今天',
+      skipDesc: '把未读的日子放入“稍后阅读”，从第 {day} 天继续',
+      spreadOver: '分摊天数:',
+      apply: '重新安排',
+      cancel: '取消',
+      close: '关闭'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  const options: Record<CatchUpStrategy, { title: string; description: string }> = {
+    spread: { title: currentText.spread, description: currentText.spreadDesc.replace('{count}', String(spreadDays)) },
+    'push-back': { title: currentText.pushBack, description: currentText.pushBackDesc.replace('{day}', String(missedDays[0])) },
+    skip: { title: currentText.skip, description: currentText.skipDesc.replace('{day}', String(scheduledDay)) }
+  };
+
+  const handleApply = () => {
+    const schedule = applyCatchUp(
+      getPlanSchedule(settings.planSchedules, planId),
+      strategy,
+      missedDays,
+      scheduledDay,
+      totalDays,
+      spreadDays
+    );
+    updateSettings({
+      planSchedules: { ...settings.planSchedules, [planId]: schedule },
+      // Pick up wherever the new schedule says today is
+      ...updatePlanProgress(settings, planId, { currentDay: strategy === 'push-back' ? missedDays[0] : scheduledDay })
+    });
+    onClose();
+  };
+
+  return (
+    <div className={`catch-up-overlay ${settings.theme}`} onClick={onClose}>
+      <div className="catch-up-dialog" role="dialog" aria-label={currentText.title} onClick={(e) => e.stopPropagation()}>
+        <div className="catch-up-header">
+          <h3>{currentText.title}</h3>
+          <button className="catch-up-close" onClick={onClose} aria-label={currentText.close}>×</button>
+        </div>
+
+        <p className="catch-up-missed">
+          {currentText.missed.replace('{days}', missedDays.map(day => `${currentText.day} ${day}`).join(', '))}
+        </p>
+
+        <div className="catch-up-options">
+          {CATCH_UP_STRATEGIES.map(option => (
+            <label key={option} className={`catch-up-option ${strategy === option ? 'active' : ''}`}>
+              <input
+                type="radio"
+                name="catch-up-strategy"
+                checked={strategy === option}
+                onChange={() => setStrategy(option)}
+              />
+              <div>
+                <div className="catch-up-option-title">{options[option].title}</div>
+                <div className="catch-up-option-description">{options[option].description}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {strategy === 'spread' && (
+          <label className="catch-up-spread">
+            <span>{currentText.spreadOver}</span>
+            <input
+              type="number"
+              min={1}
+              max={Math.max(1, totalDays - scheduledDay + 1)}
+              value={spreadDays}
+              onChange={(e) => setSpreadDays(Math.max(1, Number(e.target.value) || 1))}
+            />
+          </label>
+        )}
+
+        <div className="catch-up-actions">
+          <button onClick={onClose}>{currentText.cancel}</button>
+          <button className="primary" onClick={handleApply}>{currentText.apply}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatchUpDialog;
@@ -1,6 +1,16 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { AppSettings } from '../types';
+import { format, parseISO } from 'date-fns';
+import { AppSettings, LoadedPlan, PlanInfo } from '../types';
+import { getDeferredDays, getMissedDays, getPlanSchedule, getReadLaterDays } from '../utils/catchUp';
+import { getDueVerses } from '../utils/memory';
+import { getLocalizedText, loadPlan, loadPlanCatalog } from '../utils/plans';
+import { getDayState, getPlanProgress, getPlansInProgress, startPlan, updatePlanProgress } from '../utils/progress';
+import { getPlanStartDate, getScheduleStatus, getScheduledDay } from '../utils/schedule';
+import { getStreakStats } from '../utils/streak';
+import { getDateLocale, getUiText } from '../utils/uiText';
+import BookmarksPanel from './BookmarksPanel';
+import CatchUpDialog from './CatchUpDialog';
 import './Dashboard.css';
 
 interface DashboardProps {
@@ -9,9 +19,14 @@ interface DashboardProps {
 }
 
 const Dashboard: React.FC<DashboardProps> = ({ settings, updateSettings }) => {
-  const currentDay = settings.currentDay || 1;
-  const completedDays = settings.completedDays || new Set<number>();
+  const progress = getPlanProgress(settings);
+  const currentDay = progress.currentDay;
+  const completedDays = new Set(progress.completedDays);
   const isTodayCompleted = completedDays.has(currentDay);
+  const [plan, setPlan] = useState<LoadedPlan | null>(null);
+  const [catalog, setCatalog] = useState<PlanInfo[]>([]);
+  const [catchingUp, setCatchingUp] = useState(false);
+  const dueReviews = getDueVerses(settings.memoryVerses || [], format(new Date(), 'yyyy-MM-dd')).length;
 
   // UI text based on language
   const uiText = {
@@ -21,6 +36,10 @@ const Dashboard: React.FC<DashboardProps> = ({ settings, updateSettings }) => {
       choosePlan: 'Choose a Reading Plan',
       readingProgress: 'Your Reading Progress',
       dayStreak: 'Day Streak',
+      streakAtRisk: 'Read today to keep it going',
+      freezeUsed: 'Streak freeze used on {date}',
+      freezeDate: 'MMM d',
+      freezesLeft: '{count} freezes left',
       currentDay: 'Current Day',
       daysCompleted: 'Days Completed',
       progress: 'Progress',
@@ -30,9 +49,30 @@ const Dashboard: React.FC<DashboardProps> = ({ settings, updateSettings }) => {
       todaysReading: "Today's Reading",
       completedToday: 'Completed for today!',
       readyToRead: 'Ready to read',
+      passagesRead: '{count} of {total} passages read',
       startReading: 'Start Reading',
       continueReading: 'Continue Reading',
-      changePlan: 'Change Plan'
+      changePlan: 'Change Plan',
+      myHighlights: 'My Highlights',
+      journal: 'Journal',
+      history: 'Reading History',
+      memoryVerses: 'Memory Verses',
+      reviewsDue: '{count} memory verses due for review',
+      reviewDue: '1 memory verse due for review',
+      onTrack: 'On track',
+      dayBehind: '1 day behind',
+      daysBehind: '{count} days behind',
+      dayAhead: '1 day ahead',
+      daysAhead: '{count} days ahead',
+      jumpToToday: "Go to today's reading (day {day})",
+      catchUp: 'Catch up',
+      readLater: 'Read later:',
+      day: 'Day {day}',
+      myPlans: 'Plans in Progress',
+      planDay: 'Day {day} of {total}',
+      paused: 'Paused',
+      read: 'Read',
+      resume: 'Resume'
     },
     zh: {
       welcome: '欢迎使用 BibleDuo',
@@ -40,6 +80,10 @@ const Dashboard: React.FC<DashboardProps> = ({ settings, updateSettings }) => {
       choosePlan: '选择阅读计划',
       readingProgress: '您的阅读进度',
       dayStreak: '连续天数',
+      streakAtRisk: '今天阅读以保持连续',
+      freezeUsed: '{date} 使用了连续保护',
+      freezeDate: "M'月'd'日'",
+      freezesLeft: '剩余 {count} 次保护',
       currentDay: '当前天数',
       daysCompleted: '已完成天数',
       progress: '进度',
@@ -49,13 +93,86 @@ const Dashboard: React.FC<DashboardProps> = ({ settings, updateSettings }) => {
       todaysReading: '今日阅读',
       completedToday: '今日已完成！',
       readyToRead: '准备阅读',
+      passagesRead: '已读 {count}/{total} 段经文',
       startReading: '开始阅读',
       continueReading: '继续阅读',
-      changePlan: '更改计划'
+      changePlan: '更改计划',
+      myHighlights: '我的标记',
+      journal: '灵修日记',
+      history: '阅读记录',
+      memoryVerses: '背诵经文',
+      reviewsDue: '{count} 节背诵经文待复习',
+      reviewDue: '1 节背诵经文待复习',
+      onTrack: '进度正常',
+      dayBehind: '落后 1 天',
+      daysBehind: '落后 {count} 天',
+      dayAhead: '提前 1 天',
+      daysAhead: '提前 {count} 天',
+      jumpToToday: '前往今日阅读（第 {day} 天）',
+      catchUp: '补读',
+      readLater: '稍后阅读:',
+      day: '第 {day} 天',
+      myPlans: '进行中的计划',
+      planDay: '第 {day} 天，共 {total} 天',
+      paused: '已暂停',
+      read: '阅读',
+      resume: '恢复'
     }
   };
 
-  const currentText = uiText[settings.uiLanguage || 'en'];
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  useEffect(() => {
+    if (!settings.selectedPlan) return;
+    loadPlan(settings.selectedPlan, settings.customPlans)
+      .then(setPlan)
+      .catch(error => console.error('Error loading reading plans:', error));
+  }, [settings.selectedPlan, settings.customPlans]);
+
+  useEffect(() => {
+    loadPlanCatalog(settings.customPlans)
+      .then(setCatalog)
+      .catch(error => console.error('Error loading reading plans:', error));
+  }, [settings.customPlans]);
+
+  // Every plan being read, so none is forgotten while another is in focus
+  const plansInProgress = getPlansInProgress(settings);
+  const planSummary = plansInProgress.length > 0 && (plansInProgress.length > 1 || !settings.selectedPlan) && (
+    <div className="plan-summary">
+      <h3>{currentText.myPlans}</h3>
+      {plansInProgress.map(other => {
+        const info = catalog.find(entry => entry.id === other.planId);
+        const total = info?.days || 0;
+        const percentage = total ? Math.round((other.completedDays.length / total) * 100) : 0;
+        return (
+          <div key={other.planId} className={`plan-summary-item ${other.planId === settings.selectedPlan ? 'current' : ''}`}>
+            <div className="plan-summary-info">
+              <span className="plan-summary-name">
+                {info ? getLocalizedText(info.name, settings.uiLanguage) : other.planId}
+              </span>
+              <span className="plan-summary-day">
+                {currentText.planDay.replace('{day}', String(other.currentDay)).replace('{total}', String(total))}
+                {other.status === 'paused' && <span className="plan-summary-paused">{currentText.paused}</span>}
+              </span>
+              <div className="plan-summary-bar">
+                <div className="progress-fill" style={{ width: `${percentage}%` }}></div>
+              </div>
+            </div>
+            <span className="plan-summary-percentage">{percentage}%</span>
+            <Link to="/reading" className="plan-summary-read" onClick={() => updateSettings(startPlan(settings, other.planId))}>
+              {other.status === 'paused' ? currentText.resume : currentText.read}
+            </Link>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const memoryReminder = dueReviews > 0 && (
+    <Link to="/memory" className="memory-reminder">
+      🧠 {dueReviews === 1 ? currentText.reviewDue : currentText.reviewsDue.replace('{count}', String(dueReviews))}
+    </Link>
+  );
 
   if (!settings.selectedPlan) {
     return (
@@ -68,50 +185,44 @@ const Dashboard: React.FC<DashboardProps> = ({ settings, updateSettings }) => {
               {currentText.choosePlan}
             </Link>
           </div>
+          {planSummary}
+          {memoryReminder}
+          <BookmarksPanel settings={settings} updateSettings={updateSettings} />
         </div>
       </div>
     );
   }
 
-  // Calculate streak based on actual completion dates
-  let streak = 0;
-  const completionDates = settings.completionDates || new Map();
-  
-  if (completedDays.size > 0) {
-    // Get all completion dates
-    const completionDateStrings: string[] = [];
-    Array.from(completedDays).forEach(dayNumber => {
-      const completionDate = completionDates.get(dayNumber);
-      if (completionDate) {
-        completionDateStrings.push(completionDate);
-      } else {
-        // If no completion date is stored, use today's date as fallback
-        const today = new Date().toISOString().split('T')[0];
-        completionDateStrings.push(today);
-      }
-    });
-
-    // Sort dates chronologically
-    const sortedDates = completionDateStrings.sort();
-    
-    if (sortedDates.length > 0) {
-      // Find the most recent completion date
-      const mostRecentDate = sortedDates[sortedDates.length - 1];
-      const mostRecent = new Date(mostRecentDate);
-      
-      // Calculate current streak (consecutive calendar days from most recent backwards)
-      let currentDate = new Date(mostRecent);
-      
-      // Count consecutive days backwards
-      while (sortedDates.includes(currentDate.toISOString().split('T')[0])) {
-        streak++;
-        currentDate.setDate(currentDate.getDate() - 1);
-      }
-    }
-  }
+  // Reading in any plan keeps the streak going
+  const streak = getStreakStats(settings);
 
-  const totalDays = 365; // ESV Every Day in the Word plan is 365 days
-  const progressPercentage = Math.round((currentDay / totalDays) * 100);
+  const totalDays = plan?.readings.length || 0;
+  // Where the plan's calendar says the reader should be today
+  const planSchedule = getPlanSchedule(settings.planSchedules, settings.selectedPlan);
+  const scheduledDay = getScheduledDay(
+    getPlanStartDate(progress.startDate, progress.followCalendar, planSchedule.delay),
+    totalDays
+  );
+  const schedule = getScheduleStatus(
+    completedDays,
+    scheduledDay,
+    plan?.readings,
+    getDeferredDays(planSchedule, completedDays, scheduledDay)
+  );
+  const missedDays = plan ? getMissedDays(completedDays, scheduledDay, plan.readings, planSchedule) : [];
+  const readLaterDays = getReadLaterDays(planSchedule, completedDays);
+  const scheduleText = {
+    'on-track': currentText.onTrack,
+    behind: schedule.days === 1 ? currentText.dayBehind : currentText.daysBehind.replace('{count}', String(schedule.days)),
+    ahead: schedule.days === 1 ? currentText.dayAhead : currentText.daysAhead.replace('{count}', String(schedule.days))
+  }[schedule.state];
+  // Passages read of a day begun but not finished
+  const getPartialText = (day: number) =>
+    currentText.passagesRead
+      .replace('{count}', String(progress.completedPassages?.[day]?.length || 0))
+      .replace('{total}', String(plan?.readings[day - 1]?.length || 0));
+  const isTodayPartial = getDayState(progress, currentDay) === 'partial';
+  const progressPercentage = totalDays ? Math.round((currentDay / totalDays) * 100) : 0;
   const daysCompleted = completedDays.size;
   const completionRate = Math.round((daysCompleted / currentDay) * 100);
 
@@ -120,11 +231,28 @@ const Dashboard: React.FC<DashboardProps> = ({ settings, updateSettings }) => {
       <div className="dashboard-content">
         <div className="progress-overview">
           <h2>{currentText.readingProgress}</h2>
+          {plan && <p className="plan-name">{getLocalizedText(plan.info.name, settings.uiLanguage)}</p>}
           
           <div className="stats-grid">
             <div className="stat-card">
-              <div className="stat-number">{streak}</div>
+              <div className="stat-number">{streak.currentStreak}</div>
               <div className="stat-label">{currentText.dayStreak}</div>
+              {streak.status === 'at-risk' && <div className="streak-at-risk">{currentText.streakAtRisk}</div>}
+              {streak.currentFreezes.length > 0 && (
+                <div className="streak-freeze">
+                  ❄️ {currentText.freezeUsed.replace(
+                    '{date}',
+                    format(
+                      parseISO(streak.currentFreezes[streak.currentFreezes.length - 1]),
+                      currentText.freezeDate,
+                      { locale: getDateLocale(settings.uiLanguage) }
+                    )
+                  )}
+                </div>
+              )}
+              {(settings.streakRules?.freezes || 0) > 0 && (
+                <div className="streak-freezes-left">{currentText.freezesLeft.replace('{count}', String(streak.freezesLeft))}</div>
+              )}
             </div>
             
             <div className="stat-card">
@@ -147,7 +275,7 @@ const Dashboard: React.FC<DashboardProps> = ({ settings, updateSettings }) => {
             <div className="stat-row">
               <div className="stat-item">
                 <span className="stat-label">{currentText.daysRemaining}</span>
-                <span className="stat-value">{totalDays - currentDay} {currentText.days}</span>
+                <span className="stat-value">{Math.max(totalDays - currentDay, 0)} {currentText.days}</span>
               </div>
               <div className="stat-item">
                 <span className="stat-label">{currentText.completionRate}</span>
@@ -165,20 +293,51 @@ const Dashboard: React.FC<DashboardProps> = ({ settings, updateSettings }) => {
 
           <div className="today-status">
             <h3>{currentText.todaysReading}</h3>
+            {plan && progress.status === 'active' && (
+              <div className={`schedule-status ${schedule.state}`}>
+                <span>{scheduleText}</span>
+                {currentDay !== scheduledDay && (
+                  <Link to="/reading" className="schedule-jump" onClick={() => updateSettings(updatePlanProgress(settings, progress.planId, { currentDay: scheduledDay }))}>
+                    {currentText.jumpToToday.replace('{day}', String(scheduledDay))}
+                  </Link>
+                )}
+                {missedDays.length > 0 && (
+                  <button className="catch-up-button" onClick={() => setCatchingUp(true)}>
+                    {currentText.catchUp}
+                  </button>
+                )}
+              </div>
+            )}
+            {readLaterDays.length > 0 && (
+              <div className="read-later">
+                <span>{currentText.readLater}</span>
+                {readLaterDays.map(day => (
+                  <Link
+                    key={day}
+                    to="/reading"
+                    className={getDayState(progress, day)}
+                    title={getDayState(progress, day) === 'partial' ? getPartialText(day) : undefined}
+                    onClick={() => updateSettings(updatePlanProgress(settings, progress.planId, { currentDay: day }))}
+                  >
+                    {currentText.day.replace('{day}', String(day))}
+                  </Link>
+                ))}
+              </div>
+            )}
             {isTodayCompleted ? (
               <div className="completed-status">
                 <span className="status-icon">✅</span>
                 <span>{currentText.completedToday}</span>
               </div>
             ) : (
-              <div className="pending-status">
-                <span className="status-icon">📖</span>
-                <span>{currentText.readyToRead}</span>
+              <div className={`pending-status ${isTodayPartial ? 'partial' : ''}`}>
+                <span className="status-icon">{isTodayPartial ? '📑' : '📖'}</span>
+                <span>{isTodayPartial ? getPartialText(currentDay) : currentText.readyToRead}</span>
                 <Link 
                   to="/reading"
                   className="read-button"
                 >
-                  {currentText.startReading}
+                  {isTodayPartial ? currentText.continueReading : currentText.startReading}
                 </Link>
               </div>
             )}
@@ -194,9 +353,39 @@ const Dashboard: React.FC<DashboardProps> = ({ settings, updateSettings }) => {
             <Link to="/plan-selector" className="action-button secondary">
               {currentText.changePlan}
             </Link>
+            <Link to="/highlights" className="action-button secondary">
+              {currentText.myHighlights}
+            </Link>
+            <Link to="/journal" className="action-button secondary">
+              {currentText.journal}
+            </Link>
+            <Link to="/history" className="action-button secondary">
+              {currentText.history}
+            </Link>
+            <Link to="/memory" className="action-button secondary">
+              {currentText.memoryVerses}
+            </Link>
           </div>
         </div>
+
+        {planSummary}
+
+        {memoryReminder}
+
+        <BookmarksPanel settings={settings} updateSettings={updateSettings} />
       </div>
+
+      {catchingUp && (
+        <CatchUpDialog
+          settings={settings}
+          updateSettings={updateSettings}
+          planId={settings.selectedPlan}
+          missedDays={missedDays}
+          scheduledDay={scheduledDay}
+          totalDays={totalDays}
+          onClose={() => setCatchingUp(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,6 +1,7 @@
-import React from 'react';
-import { Link, useLocation } from 'react-router-dom';
+import React, { useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { AppSettings } from '../types';
+import { getUiText } from '../utils/uiText';
 import './Header.css';
 
 interface HeaderProps {
@@ -10,6 +11,8 @@ interface HeaderProps {
 
 const Header: React.FC<HeaderProps> = ({ settings, updateSettings }) => {
   const location = useLocation();
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
 
   // Helper function to check if a path is active with HashRouter
   const isActive = (path: string) => {
@@ -25,17 +28,26 @@ const Header: React.FC<HeaderProps> = ({ settings, updateSettings }) => {
       home: 'Home',
       bible: 'Bible',
       readingPlans: 'Reading Plans',
-      settings: 'Settings'
+      settings: 'Settings',
+      searchPlaceholder: 'Search the Bible'
     },
     zh: {
       home: '首页',
       bible: '圣经',
       readingPlans: '阅读计划',
-      settings: '设置'
+      settings: '设置',
+      searchPlaceholder: '搜索圣经'
     }
   };
 
-  const currentText = uiText[settings.uiLanguage || 'en'];
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+    setQuery('');
+  };
 
   return (
     <header className="header">
@@ -52,7 +64,7 @@ const Header: React.FC<HeaderProps> = ({ settings, updateSettings }) => {
             {currentText.home}
           </Link>
           <Link 
-            to={`/bible/${settings.translation === 'ESV' ? 'Genesis' : '创世记'}/1`} 
+            to="/bible" 
             className={`nav-link ${isActive('/bible') ? 'active' : ''}`}
           >
             {currentText.bible}
@@ -70,6 +82,16 @@ const Header: React.FC<HeaderProps> = ({ settings, updateSettings }) => {
             {currentText.settings}
           </Link>
         </nav>
+
+        <form className="header-search" onSubmit={handleSearch} role="search">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={currentText.searchPlaceholder}
+            aria-label={currentText.searchPlaceholder}
+          />
+        </form>
       </div>
     </header>
   );
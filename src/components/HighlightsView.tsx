@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { AppSettings, HighlightColor } from '../types';
+import { BibleSource, loadBibleSource } from '../utils/bibleSource';
+import { getBookName } from '../utils/books';
+import { applyHighlight, groupHighlights } from '../utils/highlights';
+import { formatReference, getBiblePath, getVerseRange } from '../utils/reference';
+import { getUiText } from '../utils/uiText';
+import './HighlightsView.css';
+
+interface HighlightsViewProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+}
+
+const HighlightsView: React.FC<HighlightsViewProps> = ({ settings, updateSettings }) => {
+  const [source, setSource] = useState<BibleSource | null>(null);
+  const [groupBy, setGroupBy] = useState<'book' | 'color'>('book');
+
+  const highlights = settings.highlights || {};
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      title: 'My Highlights',
+      groupBy: 'Group by:',
+      book: 'Book',
+      color: 'Color',
+      empty: 'No highlights yet. Tap a verse while reading to highlight it.',
+      openBible: 'Open the Bible',
+      remove: 'Remove',
+      yellow: 'Yellow',
+      green: 'Green',
+      blue: 'Blue',
+      pink: 'Pink',
+      purple: 'Purple'
+    },
+    zh: {
+      title: '我的标记',
+      groupBy: '分组方式:',
+      book: '书卷',
+      color: '颜色',
+      empty: '还没有标记。阅读时点击经文即可标记。',
+      openBible: '打开圣经',
+      remove: '删除',
+      yellow: '黄色',
+      green: '绿色',
+      blue: '蓝色',
+      pink: '粉色',
+      purple: '紫色'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  useEffect(() => {
+    loadBibleSource(settings.translation)
+      .then(setSource)
+      .catch(error => console.error('Error loading Bible data:', error));
+  }, [settings.translation]);
+
+  const language = source?.language || 'en';
+  const groups = groupHighlights(highlights, groupBy);
+
+  const removeHighlight = (key: string) => {
+    updateSettings({ highlights: applyHighlight(highlights, [key], null) });
+  };
+
+  return (
+    <div className="highlights-view">
+      <div className="highlights-content">
+        <div className="highlights-header">
+          <h2>{currentText.title}</h2>
+          <div className="group-toggle">
+            <span>{currentText.groupBy}</span>
+            {(['book', 'color'] as const).map(option => (
+              <button
+                key={option}
+                className={groupBy === option ? 'active' : ''}
+                onClick={() => setGroupBy(option)}
+              >
+                {currentText[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {groups.length === 0 ? (
+          <div className="highlights-empty">
+            <p>{currentText.empty}</p>
+            <Link to="/bible/Gen/1">{currentText.openBible}</Link>
+          </div>
+        ) : (
+          groups.map(group => (
+            <section key={group.id} className="highlight-group">
+              <h3>
+                {groupBy === 'book'
+                  ? getBookName(group.id, language)
+                  : <><span className={`color-dot dot-${group.id}`}></span>{currentText[group.id as HighlightColor]}</>}
+                <span className="group-count">{group.entries.length}</span>
+              </h3>
+              <ul>
+                {group.entries.map(entry => {
+                  const range = getVerseRange(entry.book, entry.chapter, entry.verse);
+                  const text = source?.getVerses(range)[0]?.text;
+                  return (
+                    <li key={entry.key} className={`highlight-entry highlight-${entry.highlight.color}`}>
+                      <Link to={getBiblePath(range)}>
+                        <span className="highlight-reference">{formatReference([range], language)}</span>
+                        {text && <span className="verse-text">{text}</span>}
+                      </Link>
+                      <button className="remove-highlight" onClick={() => removeHighlight(entry.key)}>
+                        {currentText.remove}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HighlightsView;
@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from 'react';
+import { addMonths, endOfMonth, endOfYear, format, parseISO, startOfMonth, startOfYear } from 'date-fns';
+import { AppSettings, LoadedPlan, PlanInfo } from '../types';
+import { getCalendarWeeks, getHeatLevel, getHistoryEntries, groupEntriesByDate, HistoryEntry, MAX_HEAT_LEVEL } from '../utils/history';
+import { getLocalizedText, loadPlan, loadPlanCatalog } from '../utils/plans';
+import { completeDays, getPlanProgress, uncompleteDays, updatePlanProgress } from '../utils/progress';
+import { formatReference, parseReference } from '../utils/reference';
+import { toLocalDateString } from '../utils/streak';
+import { getDateLocale, getUiText } from '../utils/uiText';
+import './HistoryView.css';
+
+interface HistoryViewProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+}
+
+const HistoryView: React.FC<HistoryViewProps> = ({ settings, updateSettings }) => {
+  const today = toLocalDateString();
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selected, setSelected] = useState(today);
+  const [catalog, setCatalog] = useState<PlanInfo[]>([]);
+  const [plans, setPlans] = useState<Record<string, LoadedPlan>>({});
+  const [addPlanId, setAddPlanId] = useState('');
+  const [addDay, setAddDay] = useState('');
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      title: 'Reading History',
+      daysRead: '{count} days read in {year}',
+      previous: 'Previous',
+      next: 'Next',
+      less: 'Less',
+      more: 'More',
+      freeze: 'Streak freeze',
+      weekdays: 'Sun,Mon,Tue,Wed,Thu,Fri,Sat',
+      monthLabel: 'MMM',
+      monthTitle: 'MMMM yyyy',
+      dayTitle: 'EEEE, MMMM d, yyyy',
+      cellTitle: '{date}: {count} days read',
+      nothingRead: 'Nothing read on this date',
+      freezeUsed: '❄️ A streak freeze covered this date',
+      day: 'Day {day}',
+      pastRun: 'Earlier run',
+      readOn: 'Read on',
+      markUnread: 'Mark unread',
+      addReading: 'Add a reading for this date',
+      plan: 'Plan',
+      dayNumber: 'Day',
+      markRead: 'Mark read'
+    },
+    zh: {
+      title: '阅读记录',
+      daysRead: '{year} 年已读 {count} 天',
+      previous: '上一个',
+      next: '下一个',
+      less: '少',
+      more: '多',
+      freeze: '连续阅读保护',
+      weekdays: '日,一,二,三,四,五,六',
+      monthLabel: 'MMM',
+      monthTitle: "yyyy'年'M'月'",
+      dayTitle: "yyyy'年'M'月'd'日' EEEE",
+      cellTitle: '{date}：已读 {count} 天',
+      nothingRead: '这一天没有阅读记录',
+      freezeUsed: '❄️ 这一天使用了连续阅读保护',
+      day: '第 {day} 天',
+      pastRun: '之前的一轮',
+      readOn: '阅读日期',
+      markUnread: '标记为未读',
+      addReading: '为这一天补记阅读',
+      plan: '计划',
+      dayNumber: '天数',
+      markRead: '标记为已读'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+  const formatDate = (date: Date, pattern: string) =>
+    format(date, pattern, { locale: getDateLocale(settings.uiLanguage) });
+
+  useEffect(() => {
+    loadPlanCatalog(settings.customPlans)
+      .then(setCatalog)
+      .catch(error => console.error('Error loading reading plans:', error));
+  }, [settings.customPlans]);
+
+  // Each plan read so far, to list the passages of the days read
+  const planIds = Object.keys(settings.planProgress || {}).join(',');
+  useEffect(() => {
+    if (!planIds) return;
+    Promise.all(planIds.split(',').map(id => loadPlan(id, settings.customPlans).catch(() => null)))
+      .then(loaded => {
+        const byId: Record<string, LoadedPlan> = {};
+        loaded.forEach(plan => {
+          if (plan) byId[plan.info.id] = plan;
+        });
+        setPlans(byId);
+      });
+  }, [planIds, settings.customPlans]);
+
+  const entries = getHistoryEntries(settings.planProgress);
+  const byDate = groupEntriesByDate(entries);
+  const frozen = new Set(settings.streakFreezes || []);
+  const yearPrefix = `${year}-`;
+  const daysReadInYear = entries.filter(entry => entry.date.startsWith(yearPrefix)).length;
+  const startedPlans = Object.values(settings.planProgress || {});
+  const planId = addPlanId || startedPlans[0]?.planId || '';
+
+  const getPlanName = (id: string) => {
+    const info = plans[id]?.info || catalog.find(entry => entry.id === id);
+    return info ? getLocalizedText(info.name, settings.uiLanguage) : id;
+  };
+
+  // Plan references with the book names of the interface language
+  const getPassages = (entry: HistoryEntry) =>
+    (plans[entry.planId]?.readings[entry.day - 1] || []).map(reference => {
+      const parsed = parseReference(reference);
+      return parsed.ok ? formatReference(parsed.ranges, settings.uiLanguage) : reference;
+    });
+
+  const selectDate = (date: string) => {
+    setSelected(date);
+    setMonth(startOfMonth(parseISO(date)));
+  };
+
+  const renderCell = (date: string | null, index: number, className: string, label?: string) => {
+    if (!date) return <span key={index} className={`${className} empty`} />;
+    const count = byDate[date]?.length || 0;
+    const classes = [
+      className,
+      `level-${getHeatLevel(count)}`,
+      frozen.has(date) ? 'frozen' : '',
+      date === selected ? 'selected' : '',
+      date === today ? 'today' : ''
+    ].filter(Boolean).join(' ');
+    return (
+      <button
+        key={date}
+        className={classes}
+        title={currentText.cellTitle.replace('{date}', date).replace('{count}', String(count))}
+        onClick={() => selectDate(date)}
+      >
+        {label}
+      </button>
+    );
+  };
+
+  const handleMove = (entry: HistoryEntry, date: string) => {
+    if (!date || date > today) return;
+    const progress = getPlanProgress(settings, entry.planId);
+    updateSettings(updatePlanProgress(settings, entry.planId, completeDays(progress, [entry.day], date)));
+    selectDate(date);
+  };
+
+  const handleUncomplete = (entry: HistoryEntry) => {
+    const progress = getPlanProgress(settings, entry.planId);
+    updateSettings(updatePlanProgress(settings, entry.planId, uncompleteDays(progress, [entry.day])));
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const day = parseInt(addDay);
+    const total = plans[planId]?.readings.length;
+    if (!planId || !day || day < 1 || (total && day > total)) return;
+    const progress = getPlanProgress(settings, planId);
+    updateSettings(updatePlanProgress(settings, planId, completeDays(progress, [day], selected)));
+    setAddDay('');
+  };
+
+  const yearWeeks = getCalendarWeeks(startOfYear(new Date(year, 0, 1)), endOfYear(new Date(year, 0, 1)));
+  const monthWeeks = getCalendarWeeks(month, endOfMonth(month));
+  const selectedEntries = byDate[selected] || [];
+
+  return (
+    <div className="history-view">
+      <div className="history-content">
+        <div className="history-header">
+          <h2>{currentText.title}</h2>
+          <div className="history-nav">
+            <button onClick={() => setYear(year - 1)} aria-label={currentText.previous}>‹</button>
+            <span>{year}</span>
+            <button onClick={() => setYear(year + 1)} aria-label={currentText.next}>›</button>
+          </div>
+        </div>
+        <p className="history-summary">
+          {currentText.daysRead.replace('{count}', String(daysReadInYear)).replace('{year}', String(year))}
+        </p>
+
+        <div className="heatmap">
+          <div className="heatmap-months">
+            {yearWeeks.map((week, index) => {
+              const firstOfMonth = week.find(date => date?.endsWith('-01'));
+              return <span key={index}>{firstOfMonth ? formatDate(parseISO(firstOfMonth), currentText.monthLabel) : ''}</span>;
+            })}
+          </div>
+          <div className="heatmap-grid">
+            {yearWeeks.map((week, index) => (
+              <div key={index} className="heatmap-week">
+                {week.map((date, day) => renderCell(date, day, 'heatmap-cell'))}
+              </div>
+            ))}
+          </div>
+          <div className="heatmap-legend">
+            <span>{currentText.less}</span>
+            {Array.from({ length: MAX_HEAT_LEVEL + 1 }, (_, level) => (
+              <span key={level} className={`heatmap-cell level-${level}`} />
+            ))}
+            <span>{currentText.more}</span>
+            <span className="heatmap-cell level-0 frozen" />
+            <span>{currentText.freeze}</span>
+          </div>
+        </div>
+
+        <div className="history-columns">
+          <div className="month-calendar">
+            <div className="history-nav">
+              <button onClick={() => setMonth(addMonths(month, -1))} aria-label={currentText.previous}>‹</button>
+              <span>{formatDate(month, currentText.monthTitle)}</span>
+              <button onClick={() => setMonth(addMonths(month, 1))} aria-label={currentText.next}>›</button>
+            </div>
+            <div className="month-grid">
+              {currentText.weekdays.split(',').map(name => <span key={name} className="month-weekday">{name}</span>)}
+              {monthWeeks.flat().map((date, index) => renderCell(date, index, 'month-day', date ? String(parseISO(date).getDate()) : ''))}
+            </div>
+          </div>
+
+          <div className="history-day">
+            <h3>{formatDate(parseISO(selected), currentText.dayTitle)}</h3>
+            {frozen.has(selected) && <p className="history-freeze">{currentText.freezeUsed}</p>}
+            {selectedEntries.length === 0 && <p className="history-empty">{currentText.nothingRead}</p>}
+
+            <ul className="history-entries">
+              {selectedEntries.map(entry => {
+                const passages = getPassages(entry);
+                return (
+                  <li key={`${entry.planId}-${entry.day}-${entry.pastRun}`} className="history-entry">
+                    <div className="history-entry-header">
+                      <span className="history-entry-plan">{getPlanName(entry.planId)}</span>
+                      <span className="history-entry-day">
+                        {currentText.day.replace('{day}', String(entry.day))}
+                        {entry.pastRun && <span className="history-past-run">{currentText.pastRun}</span>}
+                      </span>
+                    </div>
+                    {passages.length > 0 && <p className="history-passages">{passages.join(' · ')}</p>}
+                    {!entry.pastRun && (
+                      <div className="history-entry-actions">
+                        <label>
+                          {currentText.readOn}
+                          <input
+                            type="date"
+                            value={entry.date}
+                            max={today}
+                            onChange={(e) => handleMove(entry, e.target.value)}
+                          />
+                        </label>
+                        <button onClick={() => handleUncomplete(entry)}>{currentText.markUnread}</button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+
+            {startedPlans.length > 0 && selected <= today && (
+              <form className="history-add" onSubmit={handleAdd}>
+                <h4>{currentText.addReading}</h4>
+                <select value={planId} onChange={(e) => setAddPlanId(e.target.value)} aria-label={currentText.plan}>
+                  {startedPlans.map(progress => (
+                    <option key={progress.planId} value={progress.planId}>{getPlanName(progress.planId)}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="1"
+                  max={plans[planId]?.readings.length}
+                  value={addDay}
+                  onChange={(e) => setAddDay(e.target.value)}
+                  placeholder={currentText.dayNumber}
+                  aria-label={currentText.dayNumber}
+                />
+                <button type="submit">{currentText.markRead}</button>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AppSettings, Note } from '../types';
+import { deleteNote, saveNote, searchNotes } from '../utils/notes';
+import { getSelectedPlanId } from '../utils/plans';
+import { updatePlanProgress } from '../utils/progress';
+import { formatReference, getBiblePath } from '../utils/reference';
+import { getUiText } from '../utils/uiText';
+import NoteEditor from './NoteEditor';
+import './JournalView.css';
+
+interface JournalViewProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+}
+
+const JournalView: React.FC<JournalViewProps> = ({ settings, updateSettings }) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const notes = settings.notes || [];
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      title: 'Journal',
+      search: 'Search your notes',
+      empty: 'No notes yet. Add one from a verse or from the day\'s reading.',
+      noResults: 'No notes match your search',
+      day: 'Day {day}',
+      edit: 'Edit',
+      notes: 'notes'
+    },
+    zh: {
+      title: '灵修日记',
+      search: '搜索笔记',
+      empty: '还没有笔记。可以在经文或每日阅读中添加。',
+      noResults: '没有符合搜索的笔记',
+      day: '第{day}天',
+      edit: '编辑',
+      notes: '条笔记'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  // Matching notes, grouped by the day they were written
+  const groups: { date: string; notes: Note[] }[] = [];
+  searchNotes(notes, query).forEach(note => {
+    const date = format(new Date(note.createdAt), 'yyyy-MM-dd');
+    const last = groups[groups.length - 1];
+    if (last && last.date === date) {
+      last.notes.push(note);
+    } else {
+      groups.push({ date, notes: [note] });
+    }
+  });
+
+  const openDay = (planId: string, day: number) => {
+    updateSettings({ selectedPlan: planId, ...updatePlanProgress(settings, planId, { currentDay: day }) });
+    navigate('/reading');
+  };
+
+  const renderTarget = (note: Note) => {
+    if (note.range) {
+      return (
+        <Link to={getBiblePath(note.range)} className="journal-target">
+          {formatReference([note.range], settings.uiLanguage)}
+        </Link>
+      );
+    }
+    const dayLabel = currentText.day.replace('{day}', String(note.day));
+    // Days of any plan that has been started can be opened
+    const planId = note.planId;
+    if (planId && note.day && (planId === getSelectedPlanId(settings.selectedPlan) || settings.planProgress?.[planId])) {
+      const day = note.day;
+      return <button className="journal-target" onClick={() => openDay(planId, day)}>{dayLabel}</button>;
+    }
+    return <span className="journal-target">{dayLabel}</span>;
+  };
+
+  const renderNote = (note: Note) => {
+    if (editing === note.id) {
+      return (
+        <li key={note.id} className="journal-entry">
+          <NoteEditor
+            uiLanguage={settings.uiLanguage}
+            initialText={note.text}
+            onSave={text => {
+              updateSettings({ notes: saveNote(notes, text, {}, note.id) });
+              setEditing(null);
+            }}
+            onCancel={() => setEditing(null)}
+            onDelete={() => {
+              updateSettings({ notes: deleteNote(notes, note.id) });
+              setEditing(null);
+            }}
+          />
+        </li>
+      );
+    }
+
+    return (
+      <li key={note.id} className="journal-entry">
+        <div className="journal-entry-header">
+          {renderTarget(note)}
+          <button className="journal-edit" onClick={() => setEditing(note.id)}>{currentText.edit}</button>
+        </div>
+        <p className="journal-text">{note.text}</p>
+      </li>
+    );
+  };
+
+  return (
+    <div className="journal-view">
+      <div className="journal-content">
+        <div className="journal-header">
+          <h2>{currentText.title}</h2>
+          <span className="journal-count">{notes.length} {currentText.notes}</span>
+        </div>
+
+        {notes.length > 0 && (
+          <input
+            type="search"
+            className="journal-search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={currentText.search}
+          />
+        )}
+
+        {notes.length === 0 && <p className="journal-empty">{currentText.empty}</p>}
+        {notes.length > 0 && groups.length === 0 && <p className="journal-empty">{currentText.noResults}</p>}
+
+        {groups.map(group => (
+          <section key={group.date} className="journal-day">
+            <h3>{format(new Date(`${group.date}T00:00:00`), 'EEEE, MMMM d, yyyy')}</h3>
+            <ul>{group.notes.map(renderNote)}</ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default JournalView;
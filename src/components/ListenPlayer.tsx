@@ -0,0 +1,186 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AppSettings, PassageVerse } from '../types';
+import { BookLanguage } from '../utils/books';
+import { formatReference, getVerseKey, getVerseRange } from '../utils/reference';
+import { SPEECH_RATES, getSpeechLang, pickVoice } from '../utils/speech';
+import { getUiText } from '../utils/uiText';
+import './ListenPlayer.css';
+
+interface ListenPlayerProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+  // Read in order, even when they come from several passages
+  verses: PassageVerse[];
+  language: BookLanguage;
+  // Verse to start from, e.g. the first selected verse
+  startKey?: string;
+  // Called with the key of the verse being read, and null when closed
+  onVerseChange: (key: string | null) => void;
+  // Offered once the last verse has been read
+  finishAction?: { label: string; onClick: () => void };
+  onClose: () => void;
+}
+
+const ListenPlayer: React.FC<ListenPlayerProps> = ({
+  settings,
+  updateSettings,
+  verses,
+  language,
+  startKey,
+  onVerseChange,
+  finishAction,
+  onClose
+}) => {
+  const synth = window.speechSynthesis;
+  const [index, setIndex] = useState(() => {
+    const start = verses.findIndex(v => getVerseKey(v.book, v.chapter, v.verse) === startKey);
+    return Math.max(start, 0);
+  });
+  const [playing, setPlaying] = useState(true);
+  const [finished, setFinished] = useState(false);
+  const [error, setError] = useState(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => synth.getVoices());
+
+  const rate = settings.speechRate || 1;
+  const lang = getSpeechLang(language);
+  const voice = pickVoice(voices, lang);
+  const verse = verses[Math.min(index, verses.length - 1)];
+  const verseKey = verse ? getVerseKey(verse.book, verse.chapter, verse.verse) : null;
+  const text = verse?.text;
+  const verseCount = verses.length;
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      title: 'Listen',
+      play: 'Play',
+      pause: 'Pause',
+      previous: 'Previous verse',
+      next: 'Next verse',
+      speed: 'Speed',
+      close: 'Stop listening',
+      finished: 'Finished',
+      error: 'Speech stopped unexpectedly'
+    },
+    zh: {
+      title: '朗读',
+      play: '播放',
+      pause: '暂停',
+      previous: '上一节',
+      next: '下一节',
+      speed: '语速',
+      close: '停止朗读',
+      finished: '已读完',
+      error: '朗读意外停止'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  useEffect(() => {
+    // Most browsers load their voices after the page does
+    const update = () => setVoices(synth.getVoices());
+    synth.addEventListener('voiceschanged', update);
+    return () => synth.removeEventListener('voiceschanged', update);
+  }, [synth]);
+
+  // The parent re-creates these every render; read them through refs
+  const reportVerse = useRef(onVerseChange);
+  reportVerse.current = onVerseChange;
+
+  useEffect(() => {
+    reportVerse.current(verseKey);
+  }, [verseKey]);
+
+  useEffect(() => () => reportVerse.current(null), []);
+
+  useEffect(() => {
+    // One utterance per verse, so the highlight can follow along and
+    // skipping, pausing or changing speed just starts the verse again
+    if (!playing || text === undefined) return;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = lang;
+    utterance.rate = rate;
+    if (voice) utterance.voice = voice;
+    utterance.onend = () => {
+      if (index + 1 < verseCount) {
+        setIndex(index + 1);
+      } else {
+        setPlaying(false);
+        setFinished(true);
+      }
+    };
+    utterance.onerror = (e) => {
+      if (e.error === 'interrupted' || e.error === 'canceled') return;
+      console.error('Speech error:', e.error);
+      setPlaying(false);
+      setError(true);
+    };
+    synth.speak(utterance);
+    return () => {
+      // Cancelling fires end events in some browsers; they must not advance
+      utterance.onend = null;
+      utterance.onerror = null;
+      synth.cancel();
+    };
+  }, [playing, text, index, verseCount, lang, rate, voice, synth]);
+
+  const skipTo = (next: number) => {
+    setIndex(Math.max(0, Math.min(next, verseCount - 1)));
+    setFinished(false);
+  };
+
+  const togglePlaying = () => {
+    if (!playing && finished) {
+      setIndex(0);
+      setFinished(false);
+    }
+    setError(false);
+    setPlaying(!playing);
+  };
+
+  if (!verse) return null;
+
+  return (
+    <>
+      <div className="listen-spacer" />
+      <div className="listen-player" role="region" aria-label={currentText.title}>
+        <div className="listen-controls">
+          <button onClick={() => skipTo(index - 1)} disabled={index === 0} aria-label={currentText.previous}>⏮</button>
+          <button className="listen-play" onClick={togglePlaying} aria-label={playing ? currentText.pause : currentText.play}>
+            {playing ? '⏸' : '▶'}
+          </button>
+          <button onClick={() => skipTo(index + 1)} disabled={index >= verseCount - 1} aria-label={currentText.next}>⏭</button>
+        </div>
+
+        <div className="listen-status">
+          {error ? (
+            <span className="listen-error">{currentText.error}</span>
+          ) : finished ? (
+            <span>{currentText.finished}</span>
+          ) : (
+            <span>{formatReference([getVerseRange(verse.book, verse.chapter, verse.verse)], language)}</span>
+          )}
+          {finished && finishAction && (
+            <button className="listen-finish" onClick={finishAction.onClick}>{finishAction.label}</button>
+          )}
+        </div>
+
+        <select
+          className="listen-rate"
+          value={rate}
+          onChange={(e) => updateSettings({ speechRate: Number(e.target.value) })}
+          aria-label={currentText.speed}
+        >
+          {SPEECH_RATES.map(option => (
+            <option key={option} value={option}>{option}×</option>
+          ))}
+        </select>
+
+        <button className="listen-close" onClick={onClose} aria-label={currentText.close}>×</button>
+      </div>
+    </>
+  );
+};
+
+export default ListenPlayer;
@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { MemoryVerse, PracticeMode, UiLanguage } from '../types';
+import {
+  HIDING_STEPS,
+  PRACTICE_MODES,
+  getFirstLetterHints,
+  getHiddenWords,
+  getTypingQuality,
+  scoreTyping,
+  tokenizeVerse
+} from '../utils/memory';
+import { getUiText } from '../utils/uiText';
+import './MemoryPractice.css';
+
+interface MemoryPracticeProps {
+  uiLanguage: UiLanguage;
+  fontSize: number;
+  verse: MemoryVerse;
+  mode: PracticeMode;
+  onModeChange: (mode: PracticeMode) => void;
+  // SM-2 grade from 0 to 5
+  onGrade: (quality: number) => void;
+}
+
+// Self-grading buttons and the SM-2 grade each one gives
+const GRADES: { key: 'again' | 'hard' | 'good' | 'easy'; quality: number }[] = [
+  { key: 'again', quality: 1 },
+  { key: 'hard', quality: 3 },
+  { key: 'good', quality: 4 },
+  { key: 'easy', quality: 5 }
+];
+
+const MemoryPractice: React.FC<MemoryPracticeProps> = ({ uiLanguage, fontSize, verse, mode, onModeChange, onGrade }) => {
+  const [revealed, setRevealed] = useState(false);
+  const [step, setStep] = useState(1);
+  const [typed, setTyped] = useState('');
+  const [score, setScore] = useState<number | null>(null);
+
+  const tokens = tokenizeVerse(verse.text);
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      hints: 'First letters',
+      hiding: 'Hide words',
+      typing: 'Type it',
+      show: 'Show verse',
+      hideMore: 'Hide more',
+      typeHere: 'Type the verse from memory',
+      check: 'Check',
+      score: 'You got {score}% right',
+      next: 'Next',
+      again: 'Again',
+      hard: 'Hard',
+      good: 'Good',
+      easy: 'Easy',
+      howWell: 'How well did you remember it?'
+    },
+    zh: {
+      hints: '首字提示',
+      hiding: '逐步隐藏',
+      typing: '默写',
+      show: '显示经文',
+      hideMore: '再隐藏一些',
+      typeHere: '凭记忆输入经文',
+      check: '检查',
+      score: '正确率 {score}%',
+      next: '下一节',
+      again: '忘记了',
+      hard: '困难',
+      good: '良好',
+      easy: '简单',
+      howWell: '记得怎么样？'
+    }
+  };
+
+  const currentText = getUiText(uiText, uiLanguage);
+
+  useEffect(() => {
+    // Start each verse and each mode afresh
+    setRevealed(false);
+    setStep(1);
+    setTyped('');
+    setScore(null);
+  }, [verse.id, mode]);
+
+  const renderPrompt = () => {
+    if (revealed) return verse.text;
+    if (mode === 'hints') return getFirstLetterHints(tokens);
+    const hidden = getHiddenWords(tokens, step);
+    return tokens.map((token, i) => (
+      hidden.has(i)
+        ? <span key={i} className="hidden-word">{token.text}</span>
+        : <React.Fragment key={i}>{token.text}</React.Fragment>
+    ));
+  };
+
+  const renderGrades = () => (
+    <div className="practice-grades">
+      <span>{currentText.howWell}</span>
+      <div className="practice-grade-buttons">
+        {GRADES.map(({ key, quality }) => (
+          <button key={key} className={`grade-${key}`} onClick={() => onGrade(quality)}>
+            {currentText[key]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="memory-practice">
+      <div className="practice-modes" role="tablist">
+        {PRACTICE_MODES.map(option => (
+          <button
+            key={option}
+            role="tab"
+            aria-selected={mode === option}
+            className={mode === option ? 'active' : ''}
+            onClick={() => onModeChange(option)}
+          >
+            {currentText[option]}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'typing' ? (
+        <>
+          <textarea
+            className="practice-input"
+            value={typed}
+            onChange={(e) => setTyped(e.target.value)}
+            placeholder={currentText.typeHere}
+            rows={4}
+            disabled={score !== null}
+            style={{ fontSize: `${fontSize}px` }}
+            autoFocus
+          />
+          {score === null ? (
+            <div className="practice-buttons">
+              <button className="primary" onClick={() => setScore(scoreTyping(verse.text, typed))} disabled={!typed.trim()}>
+                {currentText.check}
+              </button>
+            </div>
+          ) : (
+            <>
+              <p className="practice-score">{currentText.score.replace('{score}', String(Math.round(score * 100)))}</p>
+              <p className="practice-text" style={{ fontSize: `${fontSize}px` }}>{verse.text}</p>
+              <div className="practice-buttons">
+                <button className="primary" onClick={() => onGrade(getTypingQuality(score))}>{currentText.next}</button>
+              </div>
+            </>
+          )}
+        </>
+      ) : (
+        <>
+          <p className="practice-text" style={{ fontSize: `${fontSize}px` }}>{renderPrompt()}</p>
+          {!revealed && (
+            <div className="practice-buttons">
+              {mode === 'hiding' && step < HIDING_STEPS && (
+                <button onClick={() => setStep(step + 1)}>{currentText.hideMore}</button>
+              )}
+              <button onClick={() => setRevealed(true)}>{currentText.show}</button>
+            </div>
+          )}
+          {renderGrades()}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MemoryPractice;
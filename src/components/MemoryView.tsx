@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { AppSettings, PracticeMode } from '../types';
+import {
+  getDueVerses,
+  practiceHistoryToCsv,
+  recordPractice,
+  removeMemoryVerse,
+  reviewMemoryVerse
+} from '../utils/memory';
+import { formatReference, getBiblePath } from '../utils/reference';
+import { getUiText } from '../utils/uiText';
+import MemoryPractice from './MemoryPractice';
+import './MemoryView.css';
+
+interface MemoryViewProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+}
+
+const MemoryView: React.FC<MemoryViewProps> = ({ settings, updateSettings }) => {
+  // Ids of the verses left to practice in this session
+  const [session, setSession] = useState<string[] | null>(null);
+  const [mode, setMode] = useState<PracticeMode>('hints');
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const deck = settings.memoryVerses || [];
+  const history = settings.practiceHistory || [];
+  const due = getDueVerses(deck, today);
+  const current = session ? deck.find(verse => verse.id === session[0]) : undefined;
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      title: 'Memory Verses',
+      verses: 'verses',
+      empty: 'Select verses while reading and choose Memorize to add them here.',
+      reviewDue: 'Review {count} due',
+      allCaughtUp: 'No reviews due today',
+      sessionDone: 'All done for now!',
+      back: 'Back to memory verses',
+      practice: 'Practice',
+      remove: 'Remove',
+      confirmRemove: 'Remove this verse and its review schedule?',
+      dueToday: 'Due today',
+      nextReview: 'Next review {date}',
+      remaining: '{count} left',
+      history: 'Practice history',
+      reviews: 'reviews',
+      exportHistory: 'Export CSV',
+      hints: 'First letters',
+      hiding: 'Hide words',
+      typing: 'Type it'
+    },
+    zh: {
+      title: '背诵经文',
+      verses: '节',
+      empty: '阅读时选择经文并点击“背诵”即可加入这里。',
+      reviewDue: '复习 {count} 节到期经文',
+      allCaughtUp: '今天没有需要复习的经文',
+      sessionDone: '本次复习完成！',
+      back: '返回背诵经文',
+      practice: '练习',
+      remove: '删除',
+      confirmRemove: '删除这节经文及其复习计划？',
+      dueToday: '今天到期',
+      nextReview: '下次复习 {date}',
+      remaining: '还剩 {count} 节',
+      history: '练习记录',
+      reviews: '次复习',
+      exportHistory: '导出 CSV',
+      hints: '首字提示',
+      hiding: '逐步隐藏',
+      typing: '默写'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  const handleGrade = (quality: number) => {
+    if (!current || !session) return;
+    updateSettings({
+      memoryVerses: deck.map(verse => (verse.id === current.id ? reviewMemoryVerse(verse, quality, today) : verse)),
+      practiceHistory: recordPractice(history, current, mode, quality)
+    });
+    // Forgotten verses come round again before the session ends
+    setSession(quality < 3 ? [...session.slice(1), current.id] : session.slice(1));
+  };
+
+  const handleRemove = (id: string) => {
+    if (window.confirm(currentText.confirmRemove)) {
+      updateSettings({ memoryVerses: removeMemoryVerse(deck, id) });
+    }
+  };
+
+  const exportHistory = () => {
+    const blob = new Blob([practiceHistoryToCsv(history)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `bible-duo-memory-${today}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  if (session) {
+    return (
+      <div className="memory-view">
+        <div className="memory-content">
+          <button className="memory-back" onClick={() => setSession(null)}>← {currentText.back}</button>
+          {current ? (
+            <div className="memory-card">
+              <div className="memory-card-header">
+                <h3>{formatReference([current.range], settings.uiLanguage)} ({current.translation})</h3>
+                <span>{currentText.remaining.replace('{count}', String(session.length))}</span>
+              </div>
+              <MemoryPractice
+                uiLanguage={settings.uiLanguage}
+                fontSize={settings.fontSize}
+                verse={current}
+                mode={mode}
+                onModeChange={setMode}
+                onGrade={handleGrade}
+              />
+            </div>
+          ) : (
+            <p className="memory-empty">🎉 {currentText.sessionDone}</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="memory-view">
+      <div className="memory-content">
+        <div className="memory-header">
+          <h2>{currentText.title}</h2>
+          <span className="memory-count">{deck.length} {currentText.verses}</span>
+        </div>
+
+        {deck.length === 0 ? (
+          <p className="memory-empty">{currentText.empty}</p>
+        ) : (
+          <>
+            <button
+              className="memory-review"
+              onClick={() => setSession(due.map(verse => verse.id))}
+              disabled={due.length === 0}
+            >
+              {due.length > 0 ? currentText.reviewDue.replace('{count}', String(due.length)) : currentText.allCaughtUp}
+            </button>
+
+            <ul className="memory-list">
+              {deck.map(verse => (
+                <li key={verse.id} className="memory-item">
+                  <div className="memory-item-header">
+                    <Link to={getBiblePath(verse.range)} className="memory-reference">
+                      {formatReference([verse.range], settings.uiLanguage)} ({verse.translation})
+                    </Link>
+                    <span className={`memory-due ${verse.due <= today ? 'due' : ''}`}>
+                      {verse.due <= today
+                        ? currentText.dueToday
+                        : currentText.nextReview.replace('{date}', format(parseISO(verse.due), 'MMM d'))}
+                    </span>
+                  </div>
+                  <p className="memory-text">{verse.text}</p>
+                  <div className="memory-item-actions">
+                    <button onClick={() => setSession([verse.id])}>{currentText.practice}</button>
+                    <button onClick={() => handleRemove(verse.id)}>{currentText.remove}</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        {history.length > 0 && (
+          <section className="memory-history">
+            <div className="memory-header">
+              <h3>{currentText.history}</h3>
+              <button onClick={exportHistory}>{currentText.exportHistory}</button>
+            </div>
+            <p className="memory-count">{history.length} {currentText.reviews}</p>
+            <ul>
+              {history.slice(-10).reverse().map(record => (
+                <li key={`${record.verseId}-${record.date}`}>
+                  <span>{format(new Date(record.date), 'MMM d, HH:mm')}</span>
+                  <span>{formatReference([record.range], settings.uiLanguage)}</span>
+                  <span>{currentText[record.mode]}</span>
+                  <span className="memory-quality">{'★'.repeat(record.quality)}{'☆'.repeat(5 - record.quality)}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MemoryView;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { UiLanguage } from '../types';
+import { getUiText } from '../utils/uiText';
+import './NoteEditor.css';
+
+interface NoteEditorProps {
+  uiLanguage: UiLanguage;
+  initialText?: string;
+  onSave: (text: string) => void;
+  onCancel: () => void;
+  // Shown only when editing an existing note
+  onDelete?: () => void;
+}
+
+const NoteEditor: React.FC<NoteEditorProps> = ({ uiLanguage, initialText = '', onSave, onCancel, onDelete }) => {
+  const [text, setText] = useState(initialText);
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      placeholder: 'What did you learn from this passage?',
+      save: 'Save',
+      cancel: 'Cancel',
+      delete: 'Delete',
+      confirmDelete: 'Delete this note?'
+    },
+    zh: {
+      placeholder: '您从这段经文中学到了什么？',
+      save: '保存',
+      cancel: '取消',
+      delete: '删除',
+      confirmDelete: '删除这条笔记？'
+    }
+  };
+
+  const currentText = getUiText(uiText, uiLanguage);
+
+  const handleDelete = () => {
+    if (onDelete && window.confirm(currentText.confirmDelete)) {
+      onDelete();
+    }
+  };
+
+  return (
+    <div className="note-editor">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={currentText.placeholder}
+        rows={4}
+        autoFocus
+      />
+      <div className="note-editor-actions">
+        {onDelete && (
+          <button className="note-delete" onClick={handleDelete}>
+            {currentText.delete}
+          </button>
+        )}
+        <button className="note-cancel" onClick={onCancel}>
+          {currentText.cancel}
+        </button>
+        <button className="note-save" onClick={() => onSave(text.trim())} disabled={!text.trim()}>
+          {currentText.save}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NoteEditor;
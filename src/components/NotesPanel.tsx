@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { AppSettings, Note } from '../types';
+import { NoteTarget, deleteNote, saveNote } from '../utils/notes';
+import { getUiText } from '../utils/uiText';
+import NoteEditor from './NoteEditor';
+import './NotesPanel.css';
+
+interface NotesPanelProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+  // Existing notes to show; new ones are attached to `target`
+  notes: Note[];
+  target: NoteTarget;
+  title?: string;
+}
+
+const NotesPanel: React.FC<NotesPanelProps> = ({ settings, updateSettings, notes, target, title }) => {
+  // Id of the note being edited, or 'new' while writing one
+  const [editing, setEditing] = useState<string | null>(null);
+  const allNotes = settings.notes || [];
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      addNote: '+ Add note',
+      edit: 'Edit'
+    },
+    zh: {
+      addNote: '+ 添加笔记',
+      edit: '编辑'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  const handleSave = (text: string, id?: string) => {
+    updateSettings({ notes: saveNote(allNotes, text, target, id) });
+    setEditing(null);
+  };
+
+  const handleDelete = (id: string) => {
+    updateSettings({ notes: deleteNote(allNotes, id) });
+    setEditing(null);
+  };
+
+  return (
+    <div className="notes-panel">
+      {title && <h4 className="notes-panel-title">{title}</h4>}
+      {notes.map(note => (
+        editing === note.id ? (
+          <NoteEditor
+            key={note.id}
+            uiLanguage={settings.uiLanguage}
+            initialText={note.text}
+            onSave={text => handleSave(text, note.id)}
+            onCancel={() => setEditing(null)}
+            onDelete={() => handleDelete(note.id)}
+          />
+        ) : (
+          <div key={note.id} className="note-card">
+            <p className="note-text">{note.text}</p>
+            <div className="note-meta">
+              <span>{format(new Date(note.updatedAt), 'MMM d, yyyy')}</span>
+              <button onClick={() => setEditing(note.id)}>{currentText.edit}</button>
+            </div>
+          </div>
+        )
+      ))}
+      {editing === 'new' ? (
+        <NoteEditor
+          uiLanguage={settings.uiLanguage}
+          onSave={text => handleSave(text)}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <button className="add-note-button" onClick={() => setEditing('new')}>
+          {currentText.addNote}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default NotesPanel;
@@ -0,0 +1,353 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AppSettings, VerseRange } from '../types';
+import { BibleSource, loadBibleSource } from '../utils/bibleSource';
+import { BOOKS, getBookName } from '../utils/books';
+import {
+  PLAN_PRESETS,
+  PlanPace,
+  buildSchedule,
+  createCustomPlan,
+  deletePlan,
+  expandRanges,
+  getBookRanges,
+  getReadingDayCount,
+  parseDayReadings,
+  updatePlan
+} from '../utils/planBuilder';
+import { removePlanProgress } from '../utils/progress';
+import { formatReference, parseReference } from '../utils/reference';
+import { getUiText } from '../utils/uiText';
+import './PlanBuilder.css';
+
+interface PlanBuilderProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+}
+
+const PlanBuilder: React.FC<PlanBuilderProps> = ({ settings, updateSettings }) => {
+  const navigate = useNavigate();
+  const { planId } = useParams();
+  const customPlans = settings.customPlans || [];
+  const editing = planId ? customPlans.find(plan => plan.info.id === planId) : undefined;
+
+  const [name, setName] = useState(editing?.info.name.en || '');
+  const [books, setBooks] = useState<string[]>([]);
+  const [extra, setExtra] = useState('');
+  const [pace, setPace] = useState<PlanPace>({ mode: 'duration', amount: 90, daysPerWeek: 7 });
+  const [bible, setBible] = useState<BibleSource | null>(null);
+  const [preview, setPreview] = useState<string[][] | null>(null);
+  const [error, setError] = useState('');
+  // One input per day while editing a saved plan
+  const [dayInputs, setDayInputs] = useState<string[]>(() => (editing?.readings || []).map(day => day.join('; ')));
+  const [dayErrors, setDayErrors] = useState<Record<number, string>>({});
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      title: 'Create a Reading Plan',
+      editTitle: 'Edit Reading Plan',
+      back: 'Back to plans',
+      name: 'Plan name',
+      untitled: 'My reading plan',
+      books: 'What to read',
+      extra: 'Other passages, e.g. Romans 8; John 17',
+      pace: 'How fast',
+      duration: 'Finish in',
+      days: 'days',
+      paceMode: 'Read',
+      chaptersPerDay: 'chapters a day',
+      daysPerWeek: 'Reading days per week',
+      preview: 'Preview schedule',
+      save: 'Save plan',
+      delete: 'Delete plan',
+      confirmDelete: 'Delete this plan? Your progress in it will be lost.',
+      loadingText: 'Loading verse counts...',
+      nothingSelected: 'Choose at least one book or passage',
+      dayLabel: 'Day',
+      restDay: 'Rest day',
+      totalDays: '{count} days',
+      editHint: 'Separate passages with semicolons. Leave a day empty to make it a rest day.',
+      notFound: 'This plan could not be found.',
+      bible: 'Whole Bible',
+      ot: 'Old Testament',
+      nt: 'New Testament',
+      'gospels-acts': 'Gospels + Acts',
+      'psalms-proverbs': 'Psalms and Proverbs'
+    },
+    zh: {
+      title: '创建阅读计划',
+      editTitle: '编辑阅读计划',
+      back: '返回计划列表',
+      name: '计划名称',
+      untitled: '我的阅读计划',
+      books: '阅读内容',
+      extra: '其他经文，例如 罗马书 8; 约翰福音 17',
+      pace: '阅读进度',
+      duration: '完成天数',
+      days: '天',
+      paceMode: '每天读',
+      chaptersPerDay: '章',
+      daysPerWeek: '每周阅读天数',
+      preview: '预览计划',
+      save: '保存计划',
+      delete: '删除计划',
+      confirmDelete: '删除此计划？计划中的进度将会丢失。',
+      loadingText: '正在加载经节数...',
+      nothingSelected: '请至少选择一卷书或一段经文',
+      dayLabel: '第',
+      restDay: '休息日',
+      totalDays: '共 {count} 天',
+      editHint: '用分号分隔经文。留空即为休息日。',
+      notFound: '找不到此计划。',
+      bible: '全本圣经',
+      ot: '旧约',
+      nt: '新约',
+      'gospels-acts': '福音书和使徒行传',
+      'psalms-proverbs': '诗篇和箴言'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  useEffect(() => {
+    // Verse counts come from the translation being read
+    if (planId) return;
+    loadBibleSource(settings.translation)
+      .then(setBible)
+      .catch(error => console.error('Error loading Bible text:', error));
+  }, [settings.translation, planId]);
+
+  const toggleBook = (id: string) => {
+    setBooks(books.includes(id) ? books.filter(book => book !== id) : [...books, id]);
+    setPreview(null);
+  };
+
+  const applyPreset = (presetBooks: string[]) => {
+    const selected = presetBooks.every(book => books.includes(book));
+    setBooks(selected ? books.filter(book => !presetBooks.includes(book)) : Array.from(new Set([...books, ...presetBooks])));
+    setPreview(null);
+  };
+
+  const updatePace = (changes: Partial<PlanPace>) => {
+    setPace({ ...pace, ...changes });
+    setPreview(null);
+  };
+
+  const buildPreview = (): string[][] | null => {
+    if (!bible) return null;
+    let ranges: VerseRange[] = getBookRanges(books);
+    if (extra.trim()) {
+      const parsed = parseReference(extra);
+      if (!parsed.ok) {
+        setError(parsed.error.message);
+        return null;
+      }
+      ranges = [...ranges, ...parsed.ranges];
+    }
+    const verses = expandRanges(ranges, (book, chapter) => bible.getChapter(book, chapter)?.verses.length || 0);
+    if (verses.length === 0) {
+      setError(currentText.nothingSelected);
+      return null;
+    }
+    setError('');
+    return buildSchedule(verses, getReadingDayCount(verses, pace), pace.daysPerWeek);
+  };
+
+  const handlePreview = () => setPreview(buildPreview());
+
+  const handleCreate = () => {
+    const readings = preview || buildPreview();
+    if (!readings) return;
+    const plan = createCustomPlan(name.trim() || currentText.untitled, readings, settings.uiLanguage);
+    updateSettings({ customPlans: updatePlan(customPlans, plan) });
+    navigate('/plan-selector');
+  };
+
+  const handleSaveEdits = () => {
+    if (!editing) return;
+    const errors: Record<number, string> = {};
+    const readings = dayInputs.map((input, index) => {
+      const parsed = parseDayReadings(input);
+      if (!parsed.ok) {
+        errors[index] = parsed.message;
+        return [];
+      }
+      return parsed.readings;
+    });
+    setDayErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    updateSettings({
+      customPlans: updatePlan(customPlans, {
+        info: { ...editing.info, name: { en: name.trim() || currentText.untitled }, days: readings.length },
+        readings
+      })
+    });
+    navigate('/plan-selector');
+  };
+
+  const handleDelete = () => {
+    if (!editing || !window.confirm(currentText.confirmDelete)) return;
+    updateSettings({
+      customPlans: deletePlan(customPlans, editing.info.id),
+      ...removePlanProgress(settings, editing.info.id)
+    });
+    navigate('/plan-selector');
+  };
+
+  // Plan references are stored in English and shown in the reader's language
+  const localizeReading = (reference: string): string => {
+    const parsed = parseReference(reference);
+    return parsed.ok ? formatReference(parsed.ranges, settings.uiLanguage) : reference;
+  };
+
+  if (planId && !editing) {
+    return (
+      <div className="plan-builder">
+        <div className="plan-builder-content">
+          <Link to="/plan-selector" className="plan-builder-back">← {currentText.back}</Link>
+          <p className="plan-builder-empty">{currentText.notFound}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (editing) {
+    return (
+      <div className="plan-builder">
+        <div className="plan-builder-content">
+          <Link to="/plan-selector" className="plan-builder-back">← {currentText.back}</Link>
+          <h2>{currentText.editTitle}</h2>
+
+          <label className="plan-builder-field">
+            <span>{currentText.name}</span>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder={currentText.untitled} />
+          </label>
+
+          <p className="plan-builder-hint">{currentText.editHint}</p>
+          <ol className="plan-builder-days">
+            {dayInputs.map((input, index) => (
+              <li key={index} className={dayErrors[index] ? 'invalid' : ''}>
+                <span className="plan-builder-day">{currentText.dayLabel} {index + 1}</span>
+                <input
+                  value={input}
+                  onChange={(e) => setDayInputs(dayInputs.map((value, i) => (i === index ? e.target.value : value)))}
+                  placeholder={currentText.restDay}
+                />
+                {dayErrors[index] && <span className="plan-builder-error">{dayErrors[index]}</span>}
+              </li>
+            ))}
+          </ol>
+
+          <div className="plan-builder-actions">
+            <button className="plan-builder-save" onClick={handleSaveEdits}>{currentText.save}</button>
+            <button className="plan-builder-delete" onClick={handleDelete}>{currentText.delete}</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="plan-builder">
+      <div className="plan-builder-content">
+        <Link to="/plan-selector" className="plan-builder-back">← {currentText.back}</Link>
+        <h2>{currentText.title}</h2>
+
+        <label className="plan-builder-field">
+          <span>{currentText.name}</span>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder={currentText.untitled} />
+        </label>
+
+        <section className="plan-builder-section">
+          <h3>{currentText.books}</h3>
+          <div className="plan-builder-presets">
+            {PLAN_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                className={preset.books.every(book => books.includes(book)) ? 'active' : ''}
+                onClick={() => applyPreset(preset.books)}
+              >
+                {currentText[preset.id]}
+              </button>
+            ))}
+          </div>
+          <div className="plan-builder-books">
+            {BOOKS.map(book => (
+              <button
+                key={book.id}
+                className={books.includes(book.id) ? 'active' : ''}
+                onClick={() => toggleBook(book.id)}
+              >
+                {getBookName(book.id, settings.uiLanguage)}
+              </button>
+            ))}
+          </div>
+          <input
+            className="plan-builder-extra"
+            value={extra}
+            onChange={(e) => {
+              setExtra(e.target.value);
+              setPreview(null);
+            }}
+            placeholder={currentText.extra}
+          />
+        </section>
+
+        <section className="plan-builder-section">
+          <h3>{currentText.pace}</h3>
+          <div className="plan-builder-pace">
+            <select
+              value={pace.mode}
+              onChange={(e) => updatePace({ mode: e.target.value as PlanPace['mode'], amount: e.target.value === 'pace' ? 3 : 90 })}
+            >
+              <option value="duration">{currentText.duration}</option>
+              <option value="pace">{currentText.paceMode}</option>
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={pace.amount}
+              onChange={(e) => updatePace({ amount: Math.max(1, Number(e.target.value) || 1) })}
+            />
+            <span>{pace.mode === 'duration' ? currentText.days : currentText.chaptersPerDay}</span>
+          </div>
+          <label className="plan-builder-field">
+            <span>{currentText.daysPerWeek}</span>
+            <select value={pace.daysPerWeek} onChange={(e) => updatePace({ daysPerWeek: Number(e.target.value) })}>
+              {[7, 6, 5, 4, 3].map(count => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </label>
+        </section>
+
+        {error && <p className="plan-builder-error">{error}</p>}
+
+        <div className="plan-builder-actions">
+          <button onClick={handlePreview} disabled={!bible}>
+            {bible ? currentText.preview : currentText.loadingText}
+          </button>
+          <button className="plan-builder-save" onClick={handleCreate} disabled={!bible}>{currentText.save}</button>
+        </div>
+
+        {preview && (
+          <section className="plan-builder-section">
+            <h3>{currentText.totalDays.replace('{count}', String(preview.length))}</h3>
+            <ol className="plan-builder-preview">
+              {preview.map((day, index) => (
+                <li key={index} className={day.length === 0 ? 'rest' : ''}>
+                  <span className="plan-builder-day">{currentText.dayLabel} {index + 1}</span>
+                  <span>{day.length > 0 ? day.map(localizeReading).join('; ') : currentText.restDay}</span>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlanBuilder;
@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { AppSettings, PlanFile, PlanIssue } from '../types';
+import { BibleSource, getAvailableTranslations, loadBibleSource } from '../utils/bibleSource';
+import { readFileAsText } from '../utils/file';
+import { updatePlan } from '../utils/planBuilder';
+import { hasBlockingIssues, parsePlanFile, planFromFile, validatePlanFile } from '../utils/planFile';
+import { getLocalizedText } from '../utils/plans';
+import { getUiText } from '../utils/uiText';
+import './PlanImport.css';
+
+interface PlanImportProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+}
+
+// Issues listed before the rest are summarized
+const MAX_ISSUES = 20;
+
+const PlanImport: React.FC<PlanImportProps> = ({ settings, updateSettings }) => {
+  const [file, setFile] = useState<PlanFile | null>(null);
+  const [issues, setIssues] = useState<PlanIssue[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      importPlan: 'Import a plan',
+      importDesc: 'Bible Duo plan files (JSON) or a CSV with one row per day',
+      chooseFile: 'Choose File',
+      checking: 'Checking passages...',
+      readError: 'Could not read this file:',
+      imported: 'Imported "{name}"',
+      blocking: 'Fix these problems and import the file again:',
+      missing: 'Some passages are missing from your installed translations:',
+      importAnyway: 'Import anyway',
+      cancel: 'Cancel',
+      day: 'Day',
+      more: '…and {count} more'
+    },
+    zh: {
+      importPlan: '导入计划',
+      importDesc: 'Bible Duo 计划文件（JSON）或每天一行的 CSV',
+      chooseFile: '选择文件',
+      checking: '正在检查经文...',
+      readError: '无法读取此文件:',
+      imported: '已导入“{name}”',
+      blocking: '请修正以下问题后重新导入:',
+      missing: '已安装的译本中缺少部分经文:',
+      importAnyway: '仍然导入',
+      cancel: '取消',
+      day: '第',
+      more: '……还有 {count} 个问题'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  const reset = () => {
+    setFile(null);
+    setIssues([]);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const savePlan = (planFile: PlanFile) => {
+    const plan = planFromFile(planFile);
+    updateSettings({ customPlans: updatePlan(settings.customPlans || [], plan) });
+    setMessage(currentText.imported.replace('{name}', getLocalizedText(plan.info.name, settings.uiLanguage)));
+    reset();
+  };
+
+  // Traditional Chinese is converted from CUVS, so it has the same verses
+  const loadSources = async (): Promise<BibleSource[]> => {
+    const sources = await Promise.all(
+      getAvailableTranslations(settings)
+        .filter(translation => translation.id !== 'CUVT')
+        .map(translation => loadBibleSource(translation.id).catch(() => null))
+    );
+    return sources.filter((source): source is BibleSource => source !== null);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+
+    setError(null);
+    setMessage(null);
+    setChecking(true);
+    try {
+      const planFile = parsePlanFile({ name: selected.name, text: await readFileAsText(selected) });
+      const found = validatePlanFile(planFile, await loadSources());
+      if (found.length === 0) {
+        savePlan(planFile);
+      } else {
+        setFile(planFile);
+        setIssues(found);
+      }
+    } catch (e) {
+      reset();
+      setError(`${currentText.readError} ${e instanceof Error ? e.message : e}`);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const blocking = hasBlockingIssues(issues);
+
+  return (
+    <div className="plan-import">
+      <div className="plan-import-row">
+        <div>
+          <div className="plan-import-title">{currentText.importPlan}</div>
+          <div className="plan-import-description">{currentText.importDesc}</div>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,.txt"
+          onChange={handleFile}
+          style={{ display: 'none' }}
+        />
+        <button onClick={() => fileInputRef.current?.click()} disabled={checking}>
+          {checking ? currentText.checking : currentText.chooseFile}
+        </button>
+      </div>
+
+      {error && <p className="plan-import-error">{error}</p>}
+      {message && <p className="plan-import-success">{message}</p>}
+
+      {file && issues.length > 0 && (
+        <div className="plan-import-issues">
+          <p>{blocking ? currentText.blocking : currentText.missing}</p>
+          <ul>
+            {issues.slice(0, MAX_ISSUES).map((issue, index) => (
+              <li key={index}>
+                {issue.day !== undefined && <strong>{currentText.day} {issue.day}: </strong>}
+                {issue.reference && <span>{issue.reference} — </span>}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+          {issues.length > MAX_ISSUES && <p>{currentText.more.replace('{count}', String(issues.length - MAX_ISSUES))}</p>}
+          <div className="plan-import-actions">
+            {!blocking && <button onClick={() => savePlan(file)}>{currentText.importAnyway}</button>}
+            <button onClick={reset}>{currentText.cancel}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlanImport;
@@ -1,6 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { AppSettings } from '../types';
+import { Link, useNavigate } from 'react-router-dom';
+import { AppSettings, PlanCategory, PlanInfo } from '../types';
+import { planToCsv, planToJson } from '../utils/planFile';
+import {
+  PLAN_CATEGORIES,
+  PLAN_LENGTHS,
+  PlanLength,
+  filterPlans,
+  getLocalizedText,
+  loadPlan,
+  loadPlanCatalog
+} from '../utils/plans';
+import { archivePlan, pausePlan, restartPlan, startPlan } from '../utils/progress';
+import { getUiText } from '../utils/uiText';
+import PlanImport from './PlanImport';
 import './PlanSelector.css';
 
 interface PlanSelectorProps {
@@ -8,18 +21,13 @@ interface PlanSelectorProps {
   updateSettings: (settings: Partial<AppSettings>) => void;
 }
 
-interface ReadingPlan {
-  id: string;
-  name: string;
-  info: string;
-  data: string[];
-  data2: string[][];
-}
-
 const PlanSelector: React.FC<PlanSelectorProps> = ({ settings, updateSettings }) => {
   const navigate = useNavigate();
-  const [plans, setPlans] = useState<ReadingPlan[]>([]);
+  const [plans, setPlans] = useState<PlanInfo[]>([]);
   const [loading, setLoading] = useState(true);
+  const [category, setCategory] = useState<PlanCategory | undefined>();
+  const [length, setLength] = useState<PlanLength | undefined>();
+  const [query, setQuery] = useState('');
 
   // UI text based on language
   const uiText = {
@@ -28,56 +36,110 @@ const PlanSelector: React.FC<PlanSelectorProps> = ({ settings, updateSettings })
       subtitle: 'Select a plan to start your daily Bible reading journey',
       loading: 'Loading reading plans...',
       duration: 'Duration:',
-      totalReadings: 'Total Readings:',
+      category: 'Category:',
       days: 'days',
-      startPlan: 'Start This Plan'
+      startPlan: 'Start This Plan',
+      continuePlan: 'Continue',
+      resumePlan: 'Resume',
+      pausePlan: 'Pause',
+      archivePlan: 'Archive',
+      restartPlan: 'Restart',
+      confirmRestart: 'Start this plan over from day 1? Your past readings will be kept in its history.',
+      currentPlan: 'Current plan',
+      paused: 'Paused',
+      archived: 'Archived',
+      progress: 'Day {day} · {count} of {total} days read',
+      search: 'Search plans',
+      all: 'All',
+      noPlans: 'No plans match these filters',
+      source: 'Source',
+      'whole-bible': 'Whole Bible',
+      'new-testament': 'New Testament',
+      'old-testament': 'Old Testament',
+      gospels: 'Gospels',
+      wisdom: 'Psalms & Wisdom',
+      custom: 'My plans',
+      createPlan: '+ Create your own plan',
+      editPlan: 'Edit days',
+      export: 'Export:',
+      short: 'Up to a month',
+      medium: 'Up to six months',
+      long: 'A year or more'
     },
     zh: {
       title: '选择您的阅读计划',
       subtitle: '选择一个计划开始您的每日圣经阅读之旅',
       loading: '正在加载阅读计划...',
       duration: '持续时间:',
-      totalReadings: '总阅读数:',
+      category: '类别:',
       days: '天',
-      startPlan: '开始此计划'
+      startPlan: '开始此计划',
+      continuePlan: '继续',
+      resumePlan: '恢复',
+      pausePlan: '暂停',
+      archivePlan: '归档',
+      restartPlan: '重新开始',
+      confirmRestart: '从第 1 天重新开始此计划吗？以往的阅读记录会保留在历史中。',
+      currentPlan: '当前计划',
+      paused: '已暂停',
+      archived: '已归档',
+      progress: '第 {day} 天 · 已读 {count}/{total} 天',
+      search: '搜索计划',
+      all: '全部',
+      noPlans: '没有符合条件的计划',
+      source: '来源',
+      'whole-bible': '全本圣经',
+      'new-testament': '新约',
+      'old-testament': '旧约',
+      gospels: '福音书',
+      wisdom: '诗篇与智慧书',
+      custom: '我的计划',
+      createPlan: '+ 创建自己的计划',
+      editPlan: '编辑每日内容',
+      export: '导出:',
+      short: '一个月以内',
+      medium: '六个月以内',
+      long: '一年或更长'
     }
   };
 
-  const currentText = uiText[settings.uiLanguage || 'en'];
+  const currentText = getUiText(uiText, settings.uiLanguage);
 
   useEffect(() => {
-    loadPlans();
-  }, []);
+    loadPlanCatalog(settings.customPlans)
+      .then(setPlans)
+      .catch(error => console.error('Error loading reading plans:', error))
+      .finally(() => setLoading(false));
+  }, [settings.customPlans]);
 
-  const loadPlans = async () => {
-    setLoading(true);
+  const exportPlan = async (info: PlanInfo, type: 'json' | 'csv') => {
     try {
-      const response = await fetch('./data/esveverydayinword_plan.json');
-      const planData = await response.json();
-      
-      // Convert the single plan data to our expected format
-      const plan: ReadingPlan = {
-        id: planData.id,
-        name: planData.name,
-        info: planData.info,
-        data: planData.data,
-        data2: planData.data2
-      };
-      
-      setPlans([plan]);
+      const plan = await loadPlan(info.id, settings.customPlans);
+      const blob = type === 'json'
+        ? new Blob([planToJson(plan)], { type: 'application/json' })
+        : new Blob([planToCsv(plan)], { type: 'text/csv' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${info.id}_plan.${type}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
     } catch (error) {
-      console.error('Error loading reading plans:', error);
-    } finally {
-      setLoading(false);
+      console.error('Error exporting reading plan:', error);
     }
   };
 
-  const selectPlan = (plan: ReadingPlan) => {
-    updateSettings({ 
-      selectedPlan: plan.id,
-      currentDay: 1,
-      completedDays: new Set()
-    });
+  // Start, continue or resume a plan; other plans keep their progress
+  const selectPlan = (plan: PlanInfo) => {
+    updateSettings(startPlan(settings, plan.id));
+    navigate('/reading');
+  };
+
+  const handleRestart = (plan: PlanInfo) => {
+    if (!window.confirm(currentText.confirmRestart)) return;
+    updateSettings(restartPlan(settings, plan.id));
     navigate('/reading');
   };
 
@@ -89,35 +151,112 @@ const PlanSelector: React.FC<PlanSelectorProps> = ({ settings, updateSettings })
     );
   }
 
+  const visiblePlans = filterPlans(plans, { category, length, query });
+
   return (
     <div className="plan-selector">
       <div className="plan-selector-content">
         <h2>{currentText.title}</h2>
         <p className="subtitle">{currentText.subtitle}</p>
+        <Link to="/plan-builder" className="create-plan-link">{currentText.createPlan}</Link>
+        <PlanImport settings={settings} updateSettings={updateSettings} />
+
+        <div className="plan-filters">
+          <input
+            type="search"
+            className="plan-search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={currentText.search}
+          />
+          <div className="plan-filter-chips">
+            <button className={!category ? 'active' : ''} onClick={() => setCategory(undefined)}>
+              {currentText.all}
+            </button>
+            {PLAN_CATEGORIES.filter(option => plans.some(plan => plan.category === option)).map(option => (
+              <button key={option} className={category === option ? 'active' : ''} onClick={() => setCategory(option)}>
+                {currentText[option]}
+              </button>
+            ))}
+          </div>
+          <div className="plan-filter-chips">
+            <button className={!length ? 'active' : ''} onClick={() => setLength(undefined)}>
+              {currentText.all}
+            </button>
+            {PLAN_LENGTHS.map(option => (
+              <button key={option} className={length === option ? 'active' : ''} onClick={() => setLength(option)}>
+                {currentText[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {visiblePlans.length === 0 && <p className="no-plans">{currentText.noPlans}</p>}
+
         <div className="plans-grid">
-          {plans.map(plan => (
-            <div key={plan.id} className="plan-card">
-              <div className="plan-header">
-                <h3>{plan.name}</h3>
-              </div>
-              <div className="plan-info" dangerouslySetInnerHTML={{ __html: plan.info }} />
-              <div className="plan-details">
-                <div className="detail">
-                  <span className="detail-label">{currentText.duration}</span>
-                  <span className="detail-value">{plan.data2.length} {currentText.days}</span>
+          {visiblePlans.map(plan => {
+            const progress = settings.planProgress?.[plan.id];
+            return (
+              <div key={plan.id} className={`plan-card ${settings.selectedPlan === plan.id ? 'current' : ''}`}>
+                <div className="plan-header">
+                  <h3>{getLocalizedText(plan.name, settings.uiLanguage)}</h3>
+                  {progress && progress.status !== 'active' ? (
+                    <span className={`status-badge ${progress.status}`}>{currentText[progress.status]}</span>
+                  ) : settings.selectedPlan === plan.id && (
+                    <span className="current-badge">{currentText.currentPlan}</span>
+                  )}
                 </div>
-                <div className="detail">
-                  <span className="detail-label">{currentText.totalReadings}</span>
-                  <span className="detail-value">{plan.data.length}</span>
+                <div className="plan-info">
+                  <p>{getLocalizedText(plan.description, settings.uiLanguage)}</p>
+                  {plan.source && (
+                    <a href={plan.source} target="_blank" rel="noopener noreferrer">{currentText.source}</a>
+                  )}
+                </div>
+                <div className="plan-details">
+                  <div className="detail">
+                    <span className="detail-label">{currentText.duration}</span>
+                    <span className="detail-value">{plan.days} {currentText.days}</span>
+                  </div>
+                  <div className="detail">
+                    <span className="detail-label">{currentText.category}</span>
+                    <span className="detail-value">{currentText[plan.category]}</span>
+                  </div>
+                </div>
+                {progress && (
+                  <p className="plan-progress">
+                    {currentText.progress
+                      .replace('{day}', String(progress.currentDay))
+                      .replace('{count}', String(progress.completedDays.length))
+                      .replace('{total}', String(plan.days))}
+                  </p>
+                )}
+                <div className="plan-actions">
+                  <button className="select-plan-btn" onClick={() => selectPlan(plan)}>
+                    {!progress ? currentText.startPlan : progress.status === 'active' ? currentText.continuePlan : currentText.resumePlan}
+                  </button>
+                  {progress && (
+                    <div className="plan-progress-actions">
+                      {progress.status === 'active' && (
+                        <button onClick={() => updateSettings(pausePlan(settings, plan.id))}>{currentText.pausePlan}</button>
+                      )}
+                      {progress.status !== 'archived' && (
+                        <button onClick={() => updateSettings(archivePlan(settings, plan.id))}>{currentText.archivePlan}</button>
+                      )}
+                      <button onClick={() => handleRestart(plan)}>{currentText.restartPlan}</button>
+                    </div>
+                  )}
+                  {(settings.customPlans || []).some(custom => custom.info.id === plan.id) && (
+                    <Link to={`/plan-builder/${plan.id}`} className="edit-plan-link">{currentText.editPlan}</Link>
+                  )}
+                  <div className="export-plan">
+                    <span>{currentText.export}</span>
+                    <button onClick={() => exportPlan(plan, 'json')}>JSON</button>
+                    <button onClick={() => exportPlan(plan, 'csv')}>CSV</button>
+                  </div>
                 </div>
               </div>
-              <div className="plan-actions">
-                <button className="select-plan-btn" onClick={() => selectPlan(plan)}>
-                  {currentText.startPlan}
-                </button>
-              </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
     </div>
@@ -1,7 +1,30 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { format } from 'date-fns';
-import { AppSettings } from '../types';
+import { AppSettings, LoadedPlan, PassageVerse, PlanInfo } from '../types';
+import { BibleSource, getDefaultParallelTranslation, getParallelTranslation, loadBibleSource } from '../utils/bibleSource';
+import { getBookmarkedVerseKeys, getPlanScrollKey } from '../utils/bookmarks';
+import { getExtraDays, getPlanSchedule } from '../utils/catchUp';
+import { getDayNotes, getNotedVerseKeys } from '../utils/notes';
+import { getLocalizedText, getSelectedPlanId, loadPlan, loadPlanCatalog } from '../utils/plans';
+import {
+  completeDays,
+  getPlanProgress,
+  getPlansInProgress,
+  getReadPassages,
+  setPassageRead,
+  updatePlanProgress
+} from '../utils/progress';
+import { formatReference, getVerseKey, parseReference } from '../utils/reference';
+import { getPlanStartDate, getScheduledDate, getScheduledDay } from '../utils/schedule';
+import { SelectionAction, VerseSelection, getSelectedVerses, updateSelection } from '../utils/selection';
+import { isSpeechSupported } from '../utils/speech';
+import { getReadingDate } from '../utils/streak';
+import { getUiText } from '../utils/uiText';
+import ListenPlayer from './ListenPlayer';
+import NotesPanel from './NotesPanel';
+import VerseActions from './VerseActions';
+import VerseList from './VerseList';
 import './ReadingView.css';
 
 interface ReadingViewProps {
@@ -9,105 +32,46 @@ interface ReadingViewProps {
   updateSettings: (settings: Partial<AppSettings>) => void;
 }
 
-// ESV Bible structure
-interface ESVBible {
-  [bookName: string]: {
-    [chapter: string]: {
-      [verse: string]: string;
-    };
-  };
-}
-
-// CUVS Bible structure
-interface CUVSBible {
-  verses: Array<{
-    book_name: string;
-    book: number;
-    chapter: number;
-    verse: number;
-    text: string;
-  }>;
-}
-
-interface Verse {
-  verse: number;
-  text: string;
-}
-
-interface ReadingPlan {
-  id: string;
-  name: string;
-  info: string;
-  data: string[];
-  data2: string[][];
-}
-
-interface PassageInfo {
-  book: string;
-  startChapter: number;
-  startVerse: number;
-  endChapter: number;
-  endVerse: number;
-}
-
-// Parse passage reference like "Genesis 1:1-2:25" or "Genesis 1:1-6"
-const parsePassageReference = (reference: string): PassageInfo | null => {
-  // Handle cross-chapter passages like "Genesis 1:1-2:25"
-  const crossChapterMatch = reference.match(/^(.+?)\s+(\d+):(\d+)-(\d+):(\d+)$/);
-  if (crossChapterMatch) {
-    const [, book, startChapter, startVerse, endChapter, endVerse] = crossChapterMatch;
-    return {
-      book,
-      startChapter: parseInt(startChapter),
-      startVerse: parseInt(startVerse),
-      endChapter: parseInt(endChapter),
-      endVerse: parseInt(endVerse)
-    };
-  }
-  
-  // Handle single chapter passages like "Genesis 1:1-6"
-  const singleChapterMatch = reference.match(/^(.+?)\s+(\d+):(\d+)-(\d+)$/);
-  if (singleChapterMatch) {
-    const [, book, chapter, startVerse, endVerse] = singleChapterMatch;
-    const chapterNum = parseInt(chapter);
-    return {
-      book,
-      startChapter: chapterNum,
-      startVerse: parseInt(startVerse),
-      endChapter: chapterNum,
-      endVerse: parseInt(endVerse)
-    };
-  }
-  
-  // Handle single verse like "Genesis 1:1"
-  const singleVerseMatch = reference.match(/^(.+?)\s+(\d+):(\d+)$/);
-  if (singleVerseMatch) {
-    const [, book, chapter, verse] = singleVerseMatch;
-    const chapterNum = parseInt(chapter);
-    const verseNum = parseInt(verse);
-    return {
-      book,
-      startChapter: chapterNum,
-      startVerse: verseNum,
-      endChapter: chapterNum,
-      endVerse: verseNum
-    };
-  }
-  
-  return null;
-};
-
 const ReadingView: React.FC<ReadingViewProps> = ({ settings, updateSettings }) => {
   const navigate = useNavigate();
-  const [plan, setPlan] = useState<ReadingPlan | null>(null);
-  const [bible, setBible] = useState<ESVBible | CUVSBible | null>(null);
+  const [plan, setPlan] = useState<LoadedPlan | null>(null);
+  const [catalog, setCatalog] = useState<PlanInfo[]>([]);
+  const [bible, setBible] = useState<BibleSource | null>(null);
+  const [parallelBible, setParallelBible] = useState<BibleSource | null>(null);
   const [loading, setLoading] = useState(true);
   const [readingProgress, setReadingProgress] = useState(0);
-  const [highlightedVerse, setHighlightedVerse] = useState<number | null>(null);
-
-  const currentDay = settings.currentDay || 1;
-  const completedDays = settings.completedDays || new Set<number>();
-  const isCompleted = completedDays.has(currentDay);
+  // Run of verses the action bar applies to
+  const [selection, setSelection] = useState<VerseSelection | null>(null);
+  const [listening, setListening] = useState(false);
+  const [speakingVerse, setSpeakingVerse] = useState<string | null>(null);
+
+  const planId = getSelectedPlanId(settings.selectedPlan);
+  const progress = getPlanProgress(settings, planId);
+  const currentDay = progress.currentDay;
+  const isCompleted = progress.completedDays.includes(currentDay);
+  const parallelTranslation = getParallelTranslation(settings);
+  // Other plans being read, to switch between
+  const activePlans = getPlansInProgress(settings).filter(other => other.status === 'active');
+  const planSchedule = getPlanSchedule(settings.planSchedules, planId);
+  // Missed days moved to this one to catch up on
+  const extraDays = getExtraDays(planSchedule, currentDay);
+
+  // Passage cards, keyed by "<day>:<index>", to tell which have been scrolled past
+  const passageElements = useRef<Record<string, HTMLDivElement | null>>({});
+  const markScrolledPassages = useRef(() => {});
+
+  // Read through refs so saving a position doesn't re-run the restore effect
+  const planScroll = useRef(settings.planScroll);
+  planScroll.current = settings.planScroll;
+  const saveScroll = useRef(() => {});
+  saveScroll.current = () => {
+    if (loading) return;
+    const key = getPlanScrollKey(planId, currentDay);
+    const scroll = Math.round(window.scrollY);
+    if (settings.planScroll?.[key] !== scroll) {
+      updateSettings({ planScroll: { ...settings.planScroll, [key]: scroll } });
+    }
+  };
 
   // UI text based on language
   const uiText = {
@@ -120,8 +84,20 @@ const ReadingView: React.FC<ReadingViewProps> = ({ settings, updateSettings }) =
       markComplete: 'Mark as Complete',
       completed: 'Completed',
       passageNotAvailable: 'Passage not available in current translation',
+      invalidReference: 'This reading plan reference could not be understood',
       previousDay: 'Previous Day',
-      nextDay: 'Next Day'
+      nextDay: 'Next Day',
+      duoMode: 'Duo',
+      listen: 'Listen',
+      dayNotes: "Today's reflections",
+      restDay: 'Rest day — no reading scheduled. Catch up or reflect on recent passages.',
+      goToToday: "Today's reading",
+      catchUpDay: 'Catch-up · Day {day}',
+      markRead: 'Mark read',
+      read: 'Read',
+      passagesRead: '{count} of {total} passages read',
+      plans: 'Plans in progress',
+      day: 'Day {day}'
     },
     zh: {
       loading: '正在加载今日阅读...',
@@ -132,25 +108,32 @@ const ReadingView: React.FC<ReadingViewProps> = ({ settings, updateSettings }) =
       markComplete: '标记为完成',
       completed: '已完成',
       passageNotAvailable: '当前翻译版本中无此段落',
+      invalidReference: '无法识别此阅读计划中的经文出处',
       previousDay: '前一天',
-      nextDay: '下一天'
+      nextDay: '下一天',
+      duoMode: '双语',
+      listen: '朗读',
+      dayNotes: '今日感想',
+      restDay: '休息日，今天没有安排阅读。可以补读或回顾最近的经文。',
+      goToToday: '今日阅读',
+      catchUpDay: '补读 · 第 {day} 天',
+      markRead: '标记已读',
+      read: '已读',
+      passagesRead: '已读 {count}/{total} 段经文',
+      plans: '进行中的计划',
+      day: '第 {day} 天'
     }
   };
 
-  const currentText = uiText[settings.uiLanguage || 'en'];
+  const currentText = getUiText(uiText, settings.uiLanguage);
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        // Fetch reading plan
-        const planResponse = await fetch('./data/esveverydayinword_plan.json');
-        const planData = await planResponse.json();
-        setPlan(planData);
-        
+        setPlan(await loadPlan(planId, settings.customPlans));
+
         // Fetch Bible text
-        const bibleResponse = await fetch(`./data/${settings.translation.toLowerCase()}.json`);
-        const bibleData = await bibleResponse.json();
-        setBible(bibleData);
+        setBible(await loadBibleSource(settings.translation));
         
       } catch (error) {
         console.error('Error loading reading data:', error);
@@ -160,34 +143,65 @@ const ReadingView: React.FC<ReadingViewProps> = ({ settings, updateSettings }) =
     };
 
     fetchData();
-  }, [settings.translation]);
+  }, [settings.translation, planId, settings.customPlans]);
 
-  const handleComplete = () => {
-    const newCompletedDays = new Set(completedDays);
-    newCompletedDays.add(currentDay);
-    
-    // Store the completion date
-    const newCompletionDates = new Map(settings.completionDates || new Map());
-    const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
-    newCompletionDates.set(currentDay, today);
-    
-    console.log('Debug - Marking day', currentDay, 'as complete on', today);
-    console.log('Debug - New completion dates map:', newCompletionDates);
-    
-    updateSettings({ 
-      completedDays: newCompletedDays,
-      completionDates: newCompletionDates
+  useEffect(() => {
+    loadPlanCatalog(settings.customPlans)
+      .then(setCatalog)
+      .catch(error => console.error('Error loading reading plans:', error));
+  }, [settings.customPlans]);
+
+  useEffect(() => {
+    if (!parallelTranslation) {
+      setParallelBible(null);
+      return;
+    }
+    loadBibleSource(parallelTranslation)
+      .then(setParallelBible)
+      .catch(error => console.error('Error loading parallel translation:', error));
+  }, [parallelTranslation]);
+
+  const toggleDuoMode = () => {
+    updateSettings({
+      parallel: {
+        layout: 'columns',
+        translation: getDefaultParallelTranslation(settings.translation),
+        ...settings.parallel,
+        enabled: !parallelTranslation
+      }
     });
   };
 
+  const handleComplete = () => {
+    const today = getReadingDate(new Date(), settings.streakRules?.graceHours);
+    // Catch-up days read along with this one count as read too
+    updateSettings(updatePlanProgress(settings, planId, completeDays(progress, [currentDay, ...extraDays], today)));
+  };
+
+  // Check off passages, completing a day once all of its passages are read
+  const markPassages = (changes: { day: number; index: number }[], read: boolean) => {
+    const today = getReadingDate(new Date(), settings.streakRules?.graceHours);
+    const updated = changes.reduce((next, { day, index }) => ({
+      ...next,
+      ...setPassageRead(next, day, index, plan?.readings[day - 1]?.length || 0, read, today)
+    }), progress);
+    updateSettings(updatePlanProgress(settings, planId, updated));
+  };
+
+  const switchPlan = (otherPlanId: string) => {
+    updateSettings({ selectedPlan: otherPlanId });
+    setSelection(null);
+    setListening(false);
+  };
+
   const navigateToDay = (targetDay: number) => {
-    updateSettings({ currentDay: targetDay });
-    // Auto-scroll to top when navigating to a new day
-    window.scrollTo({ top: 0, behavior: 'smooth' });
+    updateSettings(updatePlanProgress(settings, planId, { currentDay: targetDay }));
+    setSelection(null);
+    setListening(false);
   };
 
-  const handleVerseClick = (verseNumber: number) => {
-    setHighlightedVerse(highlightedVerse === verseNumber ? null : verseNumber);
+  const handleVerseClick = (verse: PassageVerse, action: SelectionAction) => {
+    setSelection(updateSelection(selection, getVerseKey(verse.book, verse.chapter, verse.verse), action));
   };
 
   const handleScrollProgress = () => {
@@ -199,192 +213,52 @@ const ReadingView: React.FC<ReadingViewProps> = ({ settings, updateSettings }) =
   };
 
   useEffect(() => {
-    window.addEventListener('scroll', handleScrollProgress);
-    return () => window.removeEventListener('scroll', handleScrollProgress);
+    // Save the day's scroll offset once scrolling settles
+    let timer: ReturnType<typeof setTimeout>;
+    const handleScroll = () => {
+      handleScrollProgress();
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        saveScroll.current();
+        markScrolledPassages.current();
+      }, 500);
+    };
+    window.addEventListener('scroll', handleScroll);
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      clearTimeout(timer);
+    };
   }, []);
 
   useEffect(() => {
-    window.scrollTo({ top: 0, behavior: 'smooth' });
-  }, [settings.currentDay]);
-
-  const getVersesForPassage = (reference: string): Verse[] => {
-    if (!bible || !plan) return [];
-
-    const passageInfo = parsePassageReference(reference);
-    if (!passageInfo) {
-      console.error('Could not parse reference:', reference);
-      return [];
+    // Reopen a day where it was left, or start it from the top
+    if (loading) return;
+    const saved = planScroll.current?.[getPlanScrollKey(planId, currentDay)];
+    if (saved) {
+      window.scrollTo({ top: saved });
+    } else {
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    }
+  }, [currentDay, planId, loading]);
+
+  const getPassage = (reference: string): {
+    title: string;
+    verses: PassageVerse[];
+    parallelVerses: PassageVerse[] | null;
+    invalid: boolean;
+  } => {
+    const parsed = parseReference(reference);
+    if (!parsed.ok || !bible) {
+      return { title: reference, verses: [], parallelVerses: null, invalid: !parsed.ok };
     }
 
-    // Map book names from reading plan to actual Bible data
-    const mapBookName = (bookName: string): string => {
-      if (settings.translation === 'ESV') {
-        return bookName;
-      } else {
-        // CUVS uses Chinese names, map from English to Chinese
-        const bookMapping: { [key: string]: string } = {
-          'Genesis': '创世记',
-          'Exodus': '出埃及',
-          'Leviticus': '利未记',
-          'Numbers': '民数记',
-          'Deuteronomy': '申命记',
-          'Joshua': '约书亚记',
-          'Judges': '士师记',
-          'Ruth': '路得记',
-          '1Samuel': '撒母耳记上',
-          '2Samuel': '撒母耳记下',
-          '1Kings': '列王纪上',
-          '2Kings': '列王纪下',
-          '1Chronicles': '历代志上',
-          '2Chronicles': '历代志下',
-          'Ezra': '以斯拉记',
-          'Nehemiah': '尼希米记',
-          'Esther': '以斯帖记',
-          'Job': '约伯记',
-          'Psalm': '诗篇',
-          'Proverbs': '箴言',
-          'Ecclesiastes': '传道书',
-          'SongOfSongs': '雅歌',
-          'Isaiah': '以赛亚书',
-          'Jeremiah': '耶利米书',
-          'Lamentations': '耶利米哀歌',
-          'Ezekiel': '以西结书',
-          'Daniel': '但以理书',
-          'Hosea': '何西阿书',
-          'Joel': '约珥书',
-          'Amos': '阿摩司书',
-          'Obadiah': '俄巴底亚书',
-          'Jonah': '约拿书',
-          'Micah': '弥迦书',
-          'Nahum': '那鸿书',
-          'Habakkuk': '哈巴谷书',
-          'Zephaniah': '西番雅书',
-          'Haggai': '哈该书',
-          'Zechariah': '撒迦利亚书',
-          'Malachi': '玛拉基书',
-          'Matthew': '马太福音',
-          'Mark': '马可福音',
-          'Luke': '路加福音',
-          'John': '约翰福音',
-          'Acts': '使徒行传',
-          'Romans': '罗马书',
-          '1Corinthians': '歌林多前书',
-          '2Corinthians': '歌林多后书',
-          'Galatians': '加拉太书',
-          'Ephesians': '以弗所书',
-          'Philippians': '腓立比书',
-          'Colossians': '歌罗西书',
-          '1Thessalonians': '帖撒罗尼迦前书',
-          '2Thessalonians': '帖撒罗尼迦后书',
-          '1Timothy': '提摩太前书',
-          '2Timothy': '提摩太后书',
-          'Titus': '提多书',
-          'Philemon': '腓利门书',
-          'Hebrews': '希伯来书',
-          'James': '雅各书',
-          '1Peter': '彼得前书',
-          '2Peter': '彼得后书',
-          '1John': '约翰一书',
-          '2John': '约翰二书',
-          '3John': '约翰三书',
-          'Jude': '犹大书',
-          'Revelation': '启示录'
-        };
-        return bookMapping[bookName] || bookName;
-      }
+    return {
+      // Show plan references with the book names of the current translation
+      title: formatReference(parsed.ranges, bible.language),
+      verses: parsed.ranges.flatMap(range => bible.getVerses(range)),
+      parallelVerses: parallelBible ? parsed.ranges.flatMap(range => parallelBible.getVerses(range)) : null,
+      invalid: false
     };
-
-    const mappedBookName = mapBookName(passageInfo.book);
-
-    if (settings.translation === 'ESV') {
-      const esvData = bible as ESVBible;
-      const bookData = esvData[mappedBookName];
-      if (!bookData) {
-        console.error('ESV: Book not found:', mappedBookName);
-        return [];
-      }
-
-      const verses: Verse[] = [];
-      
-      // Handle cross-chapter passages
-      for (let chapter = passageInfo.startChapter; chapter <= passageInfo.endChapter; chapter++) {
-        const chapterData = bookData[chapter.toString()];
-        if (!chapterData) {
-          console.error(`ESV: Chapter ${chapter} not found in ${mappedBookName}`);
-          continue;
-        }
-
-        const startVerse = chapter === passageInfo.startChapter ? passageInfo.startVerse : 1;
-        const endVerse = chapter === passageInfo.endChapter ? passageInfo.endVerse : 999;
-
-        for (let verse = startVerse; verse <= endVerse; verse++) {
-          const verseText = chapterData[verse.toString()];
-          if (verseText) {
-            verses.push({
-              verse,
-              text: verseText
-            });
-          }
-        }
-      }
-
-      return verses;
-    } else {
-      // CUVS format
-      const cuvsData = bible as CUVSBible;
-      
-      // Debug: Log what we're looking for
-      console.log('CUVS Debug:', {
-        lookingFor: mappedBookName,
-        passageInfo,
-        availableBooks: Array.from(new Set(cuvsData.verses.map(v => v.book_name))).slice(0, 10)
-      });
-      
-      // Check if the book exists in the data
-      const availableBooks = Array.from(new Set(cuvsData.verses.map(v => v.book_name)));
-      const bookExists = availableBooks.includes(mappedBookName);
-      console.log('Book exists:', bookExists, 'Looking for:', mappedBookName);
-      
-      if (!bookExists) {
-        console.log('Available books:', availableBooks);
-        return [];
-      }
-      
-      // Get all verses for this book first
-      const bookVerses = cuvsData.verses.filter(v => v.book_name === mappedBookName);
-      console.log(`Found ${bookVerses.length} total verses for ${mappedBookName}`);
-      
-      const verses: Verse[] = [];
-      
-      // Handle cross-chapter passages properly
-      for (let chapter = passageInfo.startChapter; chapter <= passageInfo.endChapter; chapter++) {
-        const chapterVerses = bookVerses.filter(v => v.chapter === chapter);
-        console.log(`Chapter ${chapter} has ${chapterVerses.length} verses`);
-        
-        if (chapterVerses.length === 0) continue;
-        
-        // Determine verse range for this chapter
-        const startVerse = chapter === passageInfo.startChapter ? passageInfo.startVerse : 1;
-        const endVerse = chapter === passageInfo.endChapter ? passageInfo.endVerse : Math.max(...chapterVerses.map(v => v.verse));
-        
-        console.log(`Chapter ${chapter}: looking for verses ${startVerse} to ${endVerse}`);
-        
-        // Filter verses within the range for this chapter
-        const chapterRangeVerses = chapterVerses
-          .filter(v => v.verse >= startVerse && v.verse <= endVerse)
-          .map(v => ({
-            verse: v.verse,
-            text: v.text
-          }))
-          .sort((a, b) => a.verse - b.verse);
-        
-        console.log(`Chapter ${chapter}: found ${chapterRangeVerses.length} verses in range`);
-        verses.push(...chapterRangeVerses);
-      }
-
-      console.log('CUVS total verses found:', verses.length, 'for', mappedBookName);
-      return verses;
-    }
   };
 
   if (loading) {
@@ -407,20 +281,97 @@ const ReadingView: React.FC<ReadingViewProps> = ({ settings, updateSettings }) =
     );
   }
 
-  const dailyReadings = plan.data2[currentDay - 1] || [];
-  const totalDays = plan.data2.length;
+  const dailyReadings = plan.readings[currentDay - 1] || [];
+  const totalDays = plan.readings.length;
+  // Each day is shown with the date the schedule puts it on
+  const startDate = getPlanStartDate(progress.startDate, progress.followCalendar, planSchedule.delay);
+  const scheduledDay = getScheduledDay(startDate, totalDays);
+  const notes = settings.notes || [];
+  const bookmarkedVerses = getBookmarkedVerseKeys(settings.bookmarks || []);
+  const passages = [
+    ...dailyReadings.map((reference, index) => ({
+      ...getPassage(reference),
+      day: currentDay,
+      index,
+      catchUpDay: undefined as number | undefined
+    })),
+    ...extraDays.flatMap(day => (plan.readings[day - 1] || []).map((reference, index) => ({
+      ...getPassage(reference),
+      day,
+      index,
+      catchUpDay: day
+    })))
+  ];
+  const readPassages: Record<number, number[]> = {};
+  [currentDay, ...extraDays].forEach(day => {
+    readPassages[day] = getReadPassages(progress, day, plan.readings[day - 1]?.length || 0);
+  });
+  const isPassageRead = (day: number, index: number) => readPassages[day].includes(index);
+  const todayReadCount = readPassages[currentDay].length;
+
+  // A passage counts as read once its last verse has scrolled into view
+  markScrolledPassages.current = () => {
+    if (!settings.autoCompletePassages) return;
+    const scrolledPast = passages.filter(({ day, index }) => {
+      const element = passageElements.current[`${day}:${index}`];
+      return !isPassageRead(day, index) && element && element.getBoundingClientRect().bottom <= window.innerHeight;
+    });
+    if (scrolledPast.length > 0) markPassages(scrolledPast, true);
+  };
+  // A selection may run on from one passage into the next
+  const selectedVerses = getSelectedVerses(passages.flatMap(passage => passage.verses), selection);
+  const selectedKeys = new Set(selectedVerses.map(verse => getVerseKey(verse.book, verse.chapter, verse.verse)));
+  const firstSelected = selectedVerses[0];
 
   return (
     <div className="reading-view">
       <div className="reading-content">
+        {activePlans.length > 1 && (
+          <div className="plan-switcher" aria-label={currentText.plans}>
+            {activePlans.map(other => {
+              const info = catalog.find(entry => entry.id === other.planId);
+              return (
+                <button
+                  key={other.planId}
+                  className={other.planId === planId ? 'active' : ''}
+                  onClick={() => switchPlan(other.planId)}
+                >
+                  {info ? getLocalizedText(info.name, settings.uiLanguage) : other.planId}
+                  <span className="plan-switcher-day">{currentText.day.replace('{day}', String(other.currentDay))}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
         <div className="reading-header">
           <div className="reading-info">
-            <h2>{plan.name}</h2>
+            <h2>{getLocalizedText(plan.info.name, settings.uiLanguage)}</h2>
             <p className="day-info">{currentText.dayOf} {currentDay} {currentText.of} {totalDays}</p>
-            <p className="date-info">{format(new Date(), 'EEEE, MMMM d, yyyy')}</p>
+            <p className="date-info">
+              {format(getScheduledDate(startDate, currentDay), 'EEEE, MMMM d, yyyy')}
+              {currentDay !== scheduledDay && (
+                <button className="today-link" onClick={() => navigateToDay(scheduledDay)}>
+                  {currentText.goToToday}
+                </button>
+              )}
+            </p>
           </div>
           
           <div className="reading-actions">
+            {isSpeechSupported() && (
+              <button
+                onClick={() => setListening(!listening)}
+                className={`listen-toggle ${listening ? 'active' : ''}`}
+              >
+                🔊 {currentText.listen}
+              </button>
+            )}
+            <button
+              onClick={toggleDuoMode}
+              className={`duo-toggle ${parallelTranslation ? 'active' : ''}`}
+            >
+              {currentText.duoMode}
+            </button>
             <button 
               onClick={() => navigate('/')}
               className="nav-button"
@@ -431,41 +382,70 @@ const ReadingView: React.FC<ReadingViewProps> = ({ settings, updateSettings }) =
         </div>
 
         <div className="passages-container">
-          {dailyReadings.map((reference, index) => {
-            const verses = getVersesForPassage(reference);
-            
+          {passages.length === 0 && <p className="rest-day">🌿 {currentText.restDay}</p>}
+          {passages.map(({ title, verses, parallelVerses, invalid, day, index, catchUpDay }) => {
+            const key = `${day}:${index}`;
+            const catchUpLabel = catchUpDay && (
+              <span className="catch-up-label">{currentText.catchUpDay.replace('{day}', String(catchUpDay))}</span>
+            );
+            const read = isPassageRead(day, index);
+            const readButton = (
+              <button
+                className={`passage-check ${read ? 'read' : ''}`}
+                onClick={() => markPassages([{ day, index }], !read)}
+                aria-pressed={read}
+              >
+                {read ? `✓ ${currentText.read}` : currentText.markRead}
+              </button>
+            );
+
             if (verses.length === 0) {
               return (
-                <div key={index} className="passage-error">
-                  <h3>{reference}</h3>
-                  <p>{currentText.passageNotAvailable}</p>
+                <div key={key} className="passage-error">
+                  <h3>{title}{catchUpLabel}{readButton}</h3>
+                  <p>{invalid ? currentText.invalidReference : currentText.passageNotAvailable}</p>
                 </div>
               );
             }
 
             return (
-              <div key={index} className="passage">
+              <div key={key} className="passage" ref={element => { passageElements.current[key] = element; }}>
                 <h3 className="passage-reference">
-                  {reference}
+                  {title}
+                  {catchUpLabel}
+                  {readButton}
                 </h3>
                 <div className="bible-text">
-                  {verses.map((verse) => (
-                    <div 
-                      key={verse.verse} 
-                      className={`verse ${highlightedVerse === verse.verse ? 'highlighted' : ''}`}
-                      onClick={() => handleVerseClick(verse.verse)}
-                      style={{ fontSize: `${settings.fontSize}px` }}
-                    >
-                      <span className="verse-number">{verse.verse}</span>
-                      <span className="verse-text">{verse.text}</span>
-                    </div>
-                  ))}
+                  <VerseList
+                    verses={verses}
+                    fontSize={settings.fontSize}
+                    isActive={verse => selectedKeys.has(getVerseKey(verse.book, verse.chapter, verse.verse))}
+                    activeClassName="highlighted"
+                    onVerseClick={handleVerseClick}
+                    parallelVerses={parallelVerses}
+                    layout={settings.parallel?.layout}
+                    translations={parallelTranslation ? [settings.translation, parallelTranslation] : undefined}
+                    highlights={settings.highlights}
+                    notedVerses={getNotedVerseKeys(notes, verses)}
+                    bookmarkedVerses={bookmarkedVerses}
+                    speakingVerse={speakingVerse}
+                  />
                 </div>
               </div>
             );
           })}
         </div>
 
+        <div className="day-notes">
+          <NotesPanel
+            settings={settings}
+            updateSettings={updateSettings}
+            notes={getDayNotes(notes, planId, currentDay)}
+            target={{ planId, day: currentDay }}
+            title={currentText.dayNotes}
+          />
+        </div>
+
         <div className="reading-navigation">
           {currentDay > 1 && (
             <button 
@@ -489,17 +469,48 @@ const ReadingView: React.FC<ReadingViewProps> = ({ settings, updateSettings }) =
         {/* Mark as Complete Button */}
         <div className="completion-section">
           {!isCompleted ? (
-            <button 
-              onClick={handleComplete}
-              className="complete-button"
-            >
-              {currentText.markComplete}
-            </button>
+            <>
+              {todayReadCount > 0 && (
+                <p className="passages-read">
+                  {currentText.passagesRead
+                    .replace('{count}', String(todayReadCount))
+                    .replace('{total}', String(dailyReadings.length))}
+                </p>
+              )}
+              <button 
+                onClick={handleComplete}
+                className="complete-button"
+              >
+                {currentText.markComplete}
+              </button>
+            </>
           ) : (
             <div className="completed-badge">✅ {currentText.completed}</div>
           )}
         </div>
 
+        {/* Listen mode reads the day's passages one after another */}
+        {listening && (
+          <ListenPlayer
+            settings={settings}
+            updateSettings={updateSettings}
+            verses={passages.flatMap(passage => passage.verses)}
+            language={bible.language}
+            startKey={firstSelected && getVerseKey(firstSelected.book, firstSelected.chapter, firstSelected.verse)}
+            onVerseChange={setSpeakingVerse}
+            finishAction={isCompleted ? undefined : { label: currentText.markComplete, onClick: handleComplete }}
+            onClose={() => setListening(false)}
+          />
+        )}
+
+        <VerseActions
+          settings={settings}
+          updateSettings={updateSettings}
+          verses={selectedVerses}
+          language={bible.language}
+          onClose={() => setSelection(null)}
+        />
+
         <div className="reading-progress">
           <div className="progress-bar">
             <div 
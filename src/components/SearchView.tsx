@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { AppSettings } from '../types';
+import { BibleSource, loadBibleSource } from '../utils/bibleSource';
+import { BOOKS, getBookName } from '../utils/books';
+import { formatReference, getBiblePath, getVerseRange } from '../utils/reference';
+import { SearchResult, SearchScope, searchBible } from '../utils/search';
+import { getUiText } from '../utils/uiText';
+import './SearchView.css';
+
+interface SearchViewProps {
+  settings: AppSettings;
+}
+
+type ScopeType = 'all' | 'OT' | 'NT' | 'book' | 'range';
+
+const PAGE_SIZE = 50;
+
+// Results show matched text in <mark>, using the offsets from searchBible
+const renderHighlighted = (result: SearchResult) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  result.highlights.forEach(([start, end]) => {
+    parts.push(result.text.slice(position, start));
+    parts.push(<mark key={start}>{result.text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(result.text.slice(position));
+  return parts;
+};
+
+const SearchView: React.FC<SearchViewProps> = ({ settings }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const scopeType = (searchParams.get('scope') || 'all') as ScopeType;
+  const book = searchParams.get('book') || 'Gen';
+  const from = searchParams.get('from') || 'Gen';
+  const to = searchParams.get('to') || 'Rev';
+
+  const [input, setInput] = useState(query);
+  const [source, setSource] = useState<BibleSource | null>(null);
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      title: 'Search',
+      placeholder: 'Words or "an exact phrase"',
+      search: 'Search',
+      scope: 'Search in:',
+      all: 'Whole Bible',
+      oldTestament: 'Old Testament',
+      newTestament: 'New Testament',
+      oneBook: 'One book',
+      bookRange: 'Range of books',
+      to: 'to',
+      searching: 'Searching...',
+      loadError: 'Error loading Bible data',
+      noResults: 'No verses found',
+      results: 'results',
+      showMore: 'Show more',
+      hint: 'Every word must appear in the verse. Put quotes around words that must appear together.'
+    },
+    zh: {
+      title: '搜索',
+      placeholder: '关键词或"完整短语"',
+      search: '搜索',
+      scope: '搜索范围:',
+      all: '整本圣经',
+      oldTestament: '旧约',
+      newTestament: '新约',
+      oneBook: '单卷书',
+      bookRange: '多卷书',
+      to: '至',
+      searching: '正在搜索...',
+      loadError: '加载圣经数据出错',
+      noResults: '没有找到经文',
+      results: '条结果',
+      showMore: '显示更多',
+      hint: '经文须包含所有关键词。用引号括住须连在一起的词语。'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  useEffect(() => {
+    setSource(null);
+    setError(false);
+    loadBibleSource(settings.translation)
+      .then(setSource)
+      .catch(e => {
+        console.error('Error loading Bible data:', e);
+        setError(true);
+      });
+  }, [settings.translation]);
+
+  useEffect(() => {
+    if (!source || !query.trim()) {
+      setResults(null);
+      return;
+    }
+
+    const scope: SearchScope = {};
+    if (scopeType === 'OT' || scopeType === 'NT') scope.testament = scopeType;
+    if (scopeType === 'book') scope.book = book;
+    if (scopeType === 'range') scope.range = { from, to };
+
+    // The first search in a translation builds its index, so let the
+    // "Searching..." message paint before doing the work
+    setSearching(true);
+    const timer = setTimeout(() => {
+      setResults(searchBible(source, query, scope));
+      setVisibleCount(PAGE_SIZE);
+      setSearching(false);
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [source, query, scopeType, book, from, to]);
+
+  const updateParams = (changes: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => next.set(key, value));
+    setSearchParams(next, { replace: true });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = new URLSearchParams(searchParams);
+    next.set('q', input.trim());
+    setSearchParams(next);
+  };
+
+  const language = source?.language || 'en';
+  const bookOptions = BOOKS.map(b => (
+    <option key={b.id} value={b.id}>{getBookName(b.id, language)}</option>
+  ));
+
+  const renderResults = () => {
+    if (error) return <div className="search-status error">{currentText.loadError}</div>;
+    if (!query.trim()) return <p className="search-hint">{currentText.hint}</p>;
+    if (!source || searching || !results) return <div className="search-status">{currentText.searching}</div>;
+    if (results.length === 0) return <div className="search-status">{currentText.noResults}</div>;
+
+    return (
+      <>
+        <p className="search-count">{results.length} {currentText.results}</p>
+        <ol className="search-results">
+          {results.slice(0, visibleCount).map(result => {
+            const range = getVerseRange(result.book, result.chapter, result.verse);
+            return (
+              <li key={`${result.book}.${result.chapter}.${result.verse}`} className="search-result">
+                <Link to={getBiblePath(range)}>
+                  <div className="search-reference">{formatReference([range], language)}</div>
+                  <div className="search-text" style={{ fontSize: `${settings.fontSize}px` }}>
+                    {renderHighlighted(result)}
+                  </div>
+                </Link>
+              </li>
+            );
+          })}
+        </ol>
+        {visibleCount < results.length && (
+          <button className="show-more-button" onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}>
+            {currentText.showMore}
+          </button>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="search-view">
+      <div className="search-content">
+        <h2>{currentText.title} · {settings.translation}</h2>
+
+        <form className="search-form" onSubmit={handleSubmit}>
+          <input
+            type="search"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={currentText.placeholder}
+            autoFocus
+          />
+          <button type="submit" className="search-button">{currentText.search}</button>
+        </form>
+
+        <div className="search-filters">
+          <label>{currentText.scope}</label>
+          <select value={scopeType} onChange={(e) => updateParams({ scope: e.target.value })}>
+            <option value="all">{currentText.all}</option>
+            <option value="OT">{currentText.oldTestament}</option>
+            <option value="NT">{currentText.newTestament}</option>
+            <option value="book">{currentText.oneBook}</option>
+            <option value="range">{currentText.bookRange}</option>
+          </select>
+          {scopeType === 'book' && (
+            <select value={book} onChange={(e) => updateParams({ book: e.target.value })}>
+              {bookOptions}
+            </select>
+          )}
+          {scopeType === 'range' && (
+            <>
+              <select value={from} onChange={(e) => updateParams({ from: e.target.value })}>
+                {bookOptions}
+              </select>
+              <span>{currentText.to}</span>
+              <select value={to} onChange={(e) => updateParams({ to: e.target.value })}>
+                {bookOptions}
+              </select>
+            </>
+          )}
+        </div>
+
+        {renderResults()}
+      </div>
+    </div>
+  );
+};
+
+export default SearchView;
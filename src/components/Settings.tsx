@@ -1,20 +1,62 @@
 import React, { useState, useRef } from 'react';
-import { AppSettings } from '../types';
+import { AppSettings, FreezeMode, ParallelLayout, ParallelSettings, StreakRules, Translation, UiLanguage } from '../types';
+import { getAvailableTranslations, getDefaultParallelTranslation } from '../utils/bibleSource';
+import { sanitizeBookmarks } from '../utils/bookmarks';
+import { sanitizePlanSchedules } from '../utils/catchUp';
+import { sanitizeHighlights } from '../utils/highlights';
+import { sanitizeMemoryVerses, sanitizePracticeHistory } from '../utils/memory';
+import { sanitizeNotes } from '../utils/notes';
+import { sanitizeCustomPlans } from '../utils/plans';
+import { getPlanProgress, migrateLegacyProgress, sanitizePlanProgress, updatePlanProgress } from '../utils/progress';
+import { resetAllData } from '../utils/settings';
+import { getStreakRules, MAX_GRACE_HOURS, sanitizeStreakFreezes, sanitizeStreakRules, updateStreakRules } from '../utils/streak';
+import { getUiText } from '../utils/uiText';
+import TranslationImport from './TranslationImport';
 import './Settings.css';
 
 interface SettingsProps {
   settings: AppSettings;
   updateSettings: (settings: Partial<AppSettings>) => void;
+  // Replaces the settings outright, for starting over
+  resetSettings: (settings: AppSettings) => void;
 }
 
-const Settings: React.FC<SettingsProps> = ({ settings, updateSettings }) => {
+const Settings: React.FC<SettingsProps> = ({ settings, updateSettings, resetSettings }) => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [importError, setImportError] = useState<string | null>(null);
   const [importSuccess, setImportSuccess] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const progress = getPlanProgress(settings);
+  const streakRules = getStreakRules(settings);
 
-  const handleTranslationChange = (translation: 'ESV' | 'CUVS') => {
-    updateSettings({ translation });
+  const parallel: ParallelSettings = settings.parallel || {
+    enabled: false,
+    translation: getDefaultParallelTranslation(settings.translation),
+    layout: 'columns'
+  };
+
+  const handleTranslationChange = (translation: Translation) => {
+    // Picking the current Duo partner as the main translation swaps the pair
+    if (settings.parallel && settings.parallel.translation === translation) {
+      updateSettings({ translation, parallel: { ...settings.parallel, translation: settings.translation } });
+    } else {
+      updateSettings({ translation });
+    }
+  };
+
+  const handleParallelChange = (changes: Partial<ParallelSettings>) => {
+    updateSettings({ parallel: { ...parallel, ...changes } });
+  };
+
+  const handleStreakRulesChange = (changes: Partial<StreakRules>) => {
+    updateSettings({ streakRules: updateStreakRules(streakRules, changes) });
+  };
+
+  const toggleRestDay = (day: number) => {
+    const restDays = streakRules.restDays.includes(day)
+      ? streakRules.restDays.filter(restDay => restDay !== day)
+      : [...streakRules.restDays, day].sort((a, b) => a - b);
+    handleStreakRulesChange({ restDays });
   };
 
   const handleFontSizeChange = (fontSize: number) => {
@@ -25,14 +67,13 @@ const Settings: React.FC<SettingsProps> = ({ settings, updateSettings }) => {
     updateSettings({ theme });
   };
 
-  const handleLanguageChange = (uiLanguage: 'en' | 'zh') => {
+  const handleLanguageChange = (uiLanguage: UiLanguage) => {
     updateSettings({ uiLanguage });
   };
 
   const exportData = () => {
     const dataToExport = {
       ...settings,
-      completedDays: Array.from(settings.completedDays || new Set()),
       exportDate: new Date().toISOString(),
       version: '1.0'
     };
@@ -55,18 +96,44 @@ const Settings: React.FC<SettingsProps> = ({ settings, updateSettings }) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const importedData = JSON.parse(e.target?.result as string);
+        // Backups from before plans were tracked separately hold a single plan's progress
+        const importedData = migrateLegacyProgress(JSON.parse(e.target?.result as string));
         
         // Validate the imported data structure
         if (!importedData.translation || !importedData.uiLanguage || !importedData.fontSize || !importedData.theme) {
           throw new Error('Invalid data format');
         }
 
-        // Convert completedDays array back to Set if it exists
-        if (importedData.completedDays && Array.isArray(importedData.completedDays)) {
-          importedData.completedDays = new Set(importedData.completedDays);
-        } else {
-          importedData.completedDays = new Set();
+        // Drop malformed user data rather than rejecting the whole backup
+        if (importedData.highlights) {
+          importedData.highlights = sanitizeHighlights(importedData.highlights);
+        }
+        if (importedData.notes) {
+          importedData.notes = sanitizeNotes(importedData.notes);
+        }
+        if (importedData.bookmarks) {
+          importedData.bookmarks = sanitizeBookmarks(importedData.bookmarks);
+        }
+        if (importedData.memoryVerses) {
+          importedData.memoryVerses = sanitizeMemoryVerses(importedData.memoryVerses);
+        }
+        if (importedData.practiceHistory) {
+          importedData.practiceHistory = sanitizePracticeHistory(importedData.practiceHistory);
+        }
+        if (importedData.customPlans) {
+          importedData.customPlans = sanitizeCustomPlans(importedData.customPlans);
+        }
+        if (importedData.planSchedules) {
+          importedData.planSchedules = sanitizePlanSchedules(importedData.planSchedules);
+        }
+        if (importedData.planProgress) {
+          importedData.planProgress = sanitizePlanProgress(importedData.planProgress);
+        }
+        if (importedData.streakRules) {
+          importedData.streakRules = sanitizeStreakRules(importedData.streakRules);
+        }
+        if (importedData.streakFreezes) {
+          importedData.streakFreezes = sanitizeStreakFreezes(importedData.streakFreezes);
         }
 
         // Update settings with imported data
@@ -87,26 +154,12 @@ const Settings: React.FC<SettingsProps> = ({ settings, updateSettings }) => {
     reader.readAsText(file);
   };
 
-  const deleteAllData = () => {
+  const deleteAllData = async () => {
     // Clear localStorage
     localStorage.removeItem('bibleAppSettings');
-    
-    // Reset to default settings
-    const defaultSettings: AppSettings = {
-      translation: 'ESV',
-      uiLanguage: 'en',
-      fontSize: 16,
-      theme: 'light',
-      selectedPlan: undefined,
-      currentDay: 1,
-      completedDays: new Set<number>(),
-      notifications: {
-        enabled: false,
-        time: '08:00'
-      }
-    };
-    
-    updateSettings(defaultSettings);
+
+    // Start over from the default settings
+    resetSettings(await resetAllData(settings));
     setShowDeleteConfirm(false);
   };
 
@@ -120,7 +173,22 @@ const Settings: React.FC<SettingsProps> = ({ settings, updateSettings }) => {
       esvTitle: 'English Standard Version (ESV)',
       esvDesc: 'Modern English translation with high accuracy',
       cuvsTitle: 'Chinese Union Version Simplified (CUVS)',
-      cuvsDesc: 'Traditional Chinese Bible translation',
+      cuvsDesc: 'Classic Chinese Bible translation in Simplified characters',
+      cuvtTitle: 'Chinese Union Version Traditional (CUVT)',
+      cuvtDesc: 'The Chinese Union Version in Traditional characters',
+      importedDesc: 'Imported translation stored on this device',
+      duoMode: 'Duo Mode',
+      duoModeDesc: 'Read two translations side by side, aligned verse by verse',
+      enableDuo: 'Enable Duo Mode',
+      enableDuoDesc: 'Show a second translation next to your main one',
+      secondTranslation: 'Second translation:',
+      layout: 'Layout:',
+      layoutColumns: 'Side by side',
+      layoutColumnsDesc: 'Two columns, one per translation',
+      layoutInterleaved: 'Interleaved',
+      layoutInterleavedDesc: 'Each verse followed by its counterpart',
+      layoutReveal: 'Tap to reveal',
+      layoutRevealDesc: 'Tap a verse to show the second translation; press and hold to select it',
       fontSize: 'Font Size',
       fontSizeDesc: 'Adjust the text size for comfortable reading',
       sampleText: 'Sample text',
@@ -130,6 +198,25 @@ const Settings: React.FC<SettingsProps> = ({ settings, updateSettings }) => {
       lightDesc: 'Clean and bright interface',
       darkTheme: 'Dark Theme',
       darkDesc: 'Easy on the eyes in low light',
+      schedule: 'Reading Schedule',
+      scheduleDesc: 'Tie your plan to the calendar to see whether you are on track',
+      startDate: 'Plan start date:',
+      autoCompletePassages: 'Check off passages as you scroll',
+      autoCompletePassagesDesc: 'Mark a passage read once you scroll past its last verse',
+      followCalendar: 'Follow the calendar',
+      followCalendarDesc: 'Day 1 is January 1, so each day of the plan matches the day of the year',
+      streakRules: 'Streak Rules',
+      streakRulesDesc: 'Choose what keeps your reading streak going',
+      restDays: 'Rest days:',
+      restDayNames: 'Sun,Mon,Tue,Wed,Thu,Fri,Sat',
+      freezes: 'Streak freezes:',
+      freezesMonthly: 'A month',
+      freezesMonthlyDesc: 'Missed days covered each calendar month',
+      freezesEarned: 'Earned',
+      freezesEarnedDesc: 'Earn a freeze for every 7 days you read, saving up to this many',
+      graceHours: 'Late-night grace period:',
+      graceHoursNone: 'None',
+      graceHoursAfterMidnight: 'h after midnight',
       notifications: 'Notifications',
       notificationsDesc: 'Set up daily reading reminders',
       enableReminders: 'Enable Daily Reminders',
@@ -160,8 +247,10 @@ const Settings: React.FC<SettingsProps> = ({ settings, updateSettings }) => {
       languageDesc: 'Choose your preferred interface language',
       english: 'English',
       englishDesc: 'English interface',
-      chinese: '中文',
-      chineseDesc: '中文界面'
+      chinese: '简体中文',
+      chineseDesc: '简体中文界面',
+      chineseTraditional: '繁體中文',
+      chineseTraditionalDesc: '繁體中文介面'
     },
     zh: {
       title: '设置',
@@ -171,7 +260,22 @@ const Settings: React.FC<SettingsProps> = ({ settings, updateSettings }) => {
       esvTitle: '英文标准版 (ESV)',
       esvDesc: '现代英文翻译，准确度高',
       cuvsTitle: '中文和合本简体版 (CUVS)',
-      cuvsDesc: '传统中文圣经翻译',
+      cuvsDesc: '简体字的中文和合本',
+      cuvtTitle: '中文和合本繁体版 (CUVT)',
+      cuvtDesc: '繁体字的中文和合本',
+      importedDesc: '已导入的译本，保存在此设备上',
+      duoMode: '双语模式',
+      duoModeDesc: '逐节对照阅读两个译本',
+      enableDuo: '启用双语模式',
+      enableDuoDesc: '在主译本旁显示第二个译本',
+      secondTranslation: '第二译本:',
+      layout: '布局:',
+      layoutColumns: '左右并排',
+      layoutColumnsDesc: '两栏，每栏一个译本',
+      layoutInterleaved: '交替显示',
+      layoutInterleavedDesc: '每节经文后紧跟对照译文',
+      layoutReveal: '点击显示',
+      layoutRevealDesc: '点击经文显示第二个译本，长按可选中经文',
       fontSize: '字体大小',
       fontSizeDesc: '调整文本大小以获得舒适的阅读体验',
       sampleText: '示例文本',
@@ -181,6 +285,25 @@ const Settings: React.FC<SettingsProps> = ({ settings, updateSettings }) => {
       lightDesc: '干净明亮的界面',
       darkTheme: '深色主题',
       darkDesc: '在弱光环境下护眼',
+      schedule: '阅读日程',
+      scheduleDesc: '将计划与日历对应，随时了解进度是否按时',
+      startDate: '计划开始日期:',
+      autoCompletePassages: '滚动时自动标记经文',
+      autoCompletePassagesDesc: '滚动过一段经文的最后一节后，将其标记为已读',
+      followCalendar: '跟随日历',
+      followCalendarDesc: '第 1 天为 1 月 1 日，计划的每一天与一年中的日期对应',
+      streakRules: '连续阅读规则',
+      streakRulesDesc: '选择哪些情况不会中断连续阅读',
+      restDays: '休息日:',
+      restDayNames: '周日,周一,周二,周三,周四,周五,周六',
+      freezes: '连续阅读保护:',
+      freezesMonthly: '每月',
+      freezesMonthlyDesc: '每个自然月可保护的漏读天数',
+      freezesEarned: '累积获得',
+      freezesEarnedDesc: '每阅读 7 天获得一次保护，最多保存这么多次',
+      graceHours: '深夜宽限时间:',
+      graceHoursNone: '无',
+      graceHoursAfterMidnight: '小时（午夜后）',
       notifications: '通知',
       notificationsDesc: '设置每日阅读提醒',
       enableReminders: '启用每日提醒',
@@ -211,12 +334,14 @@ const Settings: React.FC<SettingsProps> = ({ settings, updateSettings }) => {
       languageDesc: '选择您偏好的界面语言',
       english: 'English',
       englishDesc: '英文界面',
-      chinese: '中文',
-      chineseDesc: '中文界面'
+      chinese: '简体中文',
+      chineseDesc: '简体中文界面',
+      chineseTraditional: '繁體中文',
+      chineseTraditionalDesc: '繁体中文界面'
     }
   };
 
-  const currentText = uiText[settings.uiLanguage || 'en'];
+  const currentText = getUiText(uiText, settings.uiLanguage);
 
   return (
     <div className="settings">
@@ -256,6 +381,96 @@ const Settings: React.FC<SettingsProps> = ({ settings, updateSettings }) => {
                 <div className="option-description">{currentText.cuvsDesc}</div>
               </div>
             </label>
+
+            <label className="setting-option">
+              <input
+                type="radio"
+                name="translation"
+                value="CUVT"
+                checked={settings.translation === 'CUVT'}
+                onChange={() => handleTranslationChange('CUVT')}
+              />
+              <div className="option-content">
+                <div className="option-title">{currentText.cuvtTitle}</div>
+                <div className="option-description">{currentText.cuvtDesc}</div>
+              </div>
+            </label>
+
+            {(settings.customTranslations || []).map(t => (
+              <label key={t.id} className="setting-option">
+                <input
+                  type="radio"
+                  name="translation"
+                  value={t.id}
+                  checked={settings.translation === t.id}
+                  onChange={() => handleTranslationChange(t.id)}
+                />
+                <div className="option-content">
+                  <div className="option-title">{t.name} ({t.id})</div>
+                  <div className="option-description">{currentText.importedDesc}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <TranslationImport settings={settings} updateSettings={updateSettings} />
+        </div>
+
+        <div className="settings-section">
+          <h3>{currentText.duoMode}</h3>
+          <p>{currentText.duoModeDesc}</p>
+
+          <div className="notification-settings">
+            <label className="setting-option">
+              <input
+                type="checkbox"
+                checked={parallel.enabled}
+                onChange={(e) => handleParallelChange({ enabled: e.target.checked })}
+              />
+              <div className="option-content">
+                <div className="option-title">{currentText.enableDuo}</div>
+                <div className="option-description">{currentText.enableDuoDesc}</div>
+              </div>
+            </label>
+
+            {parallel.enabled && (
+              <>
+                <div className="notification-time">
+                  <label>{currentText.secondTranslation}</label>
+                  <select
+                    value={parallel.translation}
+                    onChange={(e) => handleParallelChange({ translation: e.target.value as Translation })}
+                  >
+                    {getAvailableTranslations(settings)
+                      .filter(t => t.id !== settings.translation)
+                      .map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                  </select>
+                </div>
+
+                <p>{currentText.layout}</p>
+                <div className="setting-options">
+                  {([
+                    ['columns', currentText.layoutColumns, currentText.layoutColumnsDesc],
+                    ['interleaved', currentText.layoutInterleaved, currentText.layoutInterleavedDesc],
+                    ['reveal', currentText.layoutReveal, currentText.layoutRevealDesc]
+                  ] as [ParallelLayout, string, string][]).map(([layout, title, description]) => (
+                    <label key={layout} className="setting-option">
+                      <input
+                        type="radio"
+                        name="parallelLayout"
+                        value={layout}
+                        checked={parallel.layout === layout}
+                        onChange={() => handleParallelChange({ layout })}
+                      />
+                      <div className="option-content">
+                        <div className="option-title">{title}</div>
+                        <div className="option-description">{description}</div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </>
+            )}
           </div>
         </div>
 
@@ -351,6 +566,134 @@ const Settings: React.FC<SettingsProps> = ({ settings, updateSettings }) => {
                 <div className="option-description">{currentText.chineseDesc}</div>
               </div>
             </label>
+
+            <label className="setting-option">
+              <input
+                type="radio"
+                name="language"
+                value="zh-Hant"
+                checked={settings.uiLanguage === 'zh-Hant'}
+                onChange={() => handleLanguageChange('zh-Hant')}
+              />
+              <div className="option-content">
+                <div className="option-title">{currentText.chineseTraditional}</div>
+                <div className="option-description">{currentText.chineseTraditionalDesc}</div>
+              </div>
+            </label>
+          </div>
+        </div>
+
+        {settings.selectedPlan && (
+          <div className="settings-section">
+            <h3>{currentText.schedule}</h3>
+            <p>{currentText.scheduleDesc}</p>
+
+            <div className="notification-settings">
+              <label className="setting-option">
+                <input
+                  type="checkbox"
+                  checked={progress.followCalendar || false}
+                  onChange={(e) => updateSettings(updatePlanProgress(settings, progress.planId, { followCalendar: e.target.checked }))}
+                />
+                <div className="option-content">
+                  <div className="option-title">{currentText.followCalendar}</div>
+                  <div className="option-description">{currentText.followCalendarDesc}</div>
+                </div>
+              </label>
+
+              <label className="setting-option">
+                <input
+                  type="checkbox"
+                  checked={settings.autoCompletePassages || false}
+                  onChange={(e) => updateSettings({ autoCompletePassages: e.target.checked })}
+                />
+                <div className="option-content">
+                  <div className="option-title">{currentText.autoCompletePassages}</div>
+                  <div className="option-description">{currentText.autoCompletePassagesDesc}</div>
+                </div>
+              </label>
+
+              {!progress.followCalendar && (
+                <div className="notification-time">
+                  <label>{currentText.startDate}</label>
+                  <input
+                    type="date"
+                    value={progress.startDate}
+                    onChange={(e) => e.target.value && updateSettings(updatePlanProgress(settings, progress.planId, { startDate: e.target.value }))}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="settings-section">
+          <h3>{currentText.streakRules}</h3>
+          <p>{currentText.streakRulesDesc}</p>
+
+          <div className="notification-settings">
+            <div className="notification-time">
+              <label>{currentText.restDays}</label>
+              <div className="rest-days">
+                {currentText.restDayNames.split(',').map((name, day) => (
+                  <label key={day} className="rest-day">
+                    <input
+                      type="checkbox"
+                      checked={streakRules.restDays.includes(day)}
+                      onChange={() => toggleRestDay(day)}
+                    />
+                    {name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="notification-time">
+              <label>{currentText.freezes}</label>
+              <select
+                value={streakRules.freezes}
+                onChange={(e) => handleStreakRulesChange({ freezes: parseInt(e.target.value) })}
+              >
+                {[0, 1, 2, 3, 4, 5].map(count => <option key={count} value={count}>{count}</option>)}
+              </select>
+            </div>
+
+            {streakRules.freezes > 0 && (
+              <div className="setting-options">
+                {([
+                  ['monthly', currentText.freezesMonthly, currentText.freezesMonthlyDesc],
+                  ['earned', currentText.freezesEarned, currentText.freezesEarnedDesc]
+                ] as [FreezeMode, string, string][]).map(([freezeMode, title, description]) => (
+                  <label key={freezeMode} className="setting-option">
+                    <input
+                      type="radio"
+                      name="freezeMode"
+                      value={freezeMode}
+                      checked={streakRules.freezeMode === freezeMode}
+                      onChange={() => handleStreakRulesChange({ freezeMode })}
+                    />
+                    <div className="option-content">
+                      <div className="option-title">{title}</div>
+                      <div className="option-description">{description}</div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <div className="notification-time">
+              <label>{currentText.graceHours}</label>
+              <select
+                value={streakRules.graceHours}
+                onChange={(e) => handleStreakRulesChange({ graceHours: parseInt(e.target.value) })}
+              >
+                {Array.from({ length: MAX_GRACE_HOURS + 1 }, (_, hours) => (
+                  <option key={hours} value={hours}>
+                    {hours === 0 ? currentText.graceHoursNone : `${hours} ${currentText.graceHoursAfterMidnight}`}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
         </div>
 
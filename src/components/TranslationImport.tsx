@@ -0,0 +1,270 @@
+import React, { useRef, useState } from 'react';
+import { AppSettings, CustomTranslation } from '../types';
+import { BUILT_IN_TRANSLATIONS, clearBibleSource } from '../utils/bibleSource';
+import { getBookName } from '../utils/books';
+import { readFileAsText } from '../utils/file';
+import {
+  ImportedTranslation,
+  TranslationValidation,
+  parseTranslationFiles,
+  validateTranslation
+} from '../utils/translationImport';
+import { deleteTranslation, saveTranslation } from '../utils/translationStore';
+import { getUiText } from '../utils/uiText';
+import './TranslationImport.css';
+
+interface TranslationImportProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+}
+
+const TranslationImport: React.FC<TranslationImportProps> = ({ settings, updateSettings }) => {
+  const [imported, setImported] = useState<ImportedTranslation | null>(null);
+  const [validation, setValidation] = useState<TranslationValidation | null>(null);
+  const [name, setName] = useState('');
+  const [abbreviation, setAbbreviation] = useState('');
+  const [language, setLanguage] = useState<CustomTranslation['language']>('en');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const customTranslations = settings.customTranslations || [];
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      addTranslation: 'Add Translation',
+      addDesc: 'Import a translation you are licensed to use (OSIS XML, USFM, Zefania XML, or ESV/CUVS-style JSON). USFM books can be selected together.',
+      chooseFiles: 'Choose Files',
+      name: 'Name:',
+      abbreviation: 'Abbreviation:',
+      bookLanguage: 'Book names:',
+      english: 'English',
+      chinese: '简体中文',
+      chineseTraditional: '繁體中文',
+      books: 'books',
+      verses: 'verses',
+      missingBooks: 'Missing books:',
+      missingChapters: 'Missing chapters:',
+      complete: 'All 66 books and chapters are present.',
+      save: 'Save Translation',
+      saving: 'Saving...',
+      cancel: 'Cancel',
+      remove: 'Remove',
+      installed: 'Imported translations',
+      readError: 'Could not read this file:',
+      nameRequired: 'Please enter a name and abbreviation.',
+      saveError: 'Could not save the translation in this browser.'
+    },
+    zh: {
+      addTranslation: '添加译本',
+      addDesc: '导入您有权使用的译本（OSIS XML、USFM、Zefania XML 或 ESV/CUVS 格式的 JSON）。USFM 可一次选择多卷书。',
+      chooseFiles: '选择文件',
+      name: '名称:',
+      abbreviation: '缩写:',
+      bookLanguage: '书卷名称:',
+      english: 'English',
+      chinese: '简体中文',
+      chineseTraditional: '繁體中文',
+      books: '卷',
+      verses: '节',
+      missingBooks: '缺少书卷:',
+      missingChapters: '缺少章节:',
+      complete: '全部 66 卷书及所有章节齐全。',
+      save: '保存译本',
+      saving: '正在保存...',
+      cancel: '取消',
+      remove: '删除',
+      installed: '已导入的译本',
+      readError: '无法读取此文件:',
+      nameRequired: '请输入名称和缩写。',
+      saveError: '无法在此浏览器中保存译本。'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  const reset = () => {
+    setImported(null);
+    setValidation(null);
+    setName('');
+    setAbbreviation('');
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (files.length === 0) return;
+
+    setError(null);
+    try {
+      const texts = await Promise.all(files.map(async file => ({ name: file.name, text: await readFileAsText(file) })));
+      const result = parseTranslationFiles(texts);
+      const fileName = files[0].name.replace(/\.[^.]+$/, '');
+      setImported(result);
+      setValidation(validateTranslation(result.bible));
+      setName(result.title || fileName);
+      setAbbreviation(fileName.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 8));
+    } catch (e) {
+      reset();
+      setError(`${currentText.readError} ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  // Ids double as the label in Duo mode, so keep them short and unique
+  const createTranslationId = (base: string) => {
+    const taken = new Set<string>([...BUILT_IN_TRANSLATIONS, ...customTranslations.map(t => t.id)]);
+    let id = base;
+    for (let n = 2; taken.has(id); n++) {
+      id = `${base}${n}`;
+    }
+    return id;
+  };
+
+  const handleSave = async () => {
+    if (!imported) return;
+    const cleanAbbreviation = abbreviation.trim().toUpperCase();
+    if (!name.trim() || !cleanAbbreviation) {
+      setError(currentText.nameRequired);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const id = createTranslationId(cleanAbbreviation);
+      await saveTranslation(id, { ...imported.bible, translation: id, language });
+      clearBibleSource(id);
+      const translation: CustomTranslation = {
+        id,
+        name: name.trim(),
+        language,
+        format: imported.format,
+        importedAt: new Date().toISOString()
+      };
+      updateSettings({ customTranslations: [...customTranslations, translation] });
+      reset();
+    } catch (e) {
+      console.error('Error saving translation:', e);
+      setError(currentText.saveError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await deleteTranslation(id);
+    } catch (e) {
+      console.error('Error removing translation:', e);
+    }
+    clearBibleSource(id);
+
+    const changes: Partial<AppSettings> = {
+      customTranslations: customTranslations.filter(t => t.id !== id)
+    };
+    if (settings.translation === id) {
+      changes.translation = 'ESV';
+    }
+    if (settings.parallel?.translation === id) {
+      changes.parallel = { ...settings.parallel, enabled: false, translation: 'CUVS' };
+    }
+    updateSettings(changes);
+  };
+
+  return (
+    <div className="translation-import">
+      {customTranslations.length > 0 && (
+        <div className="installed-translations">
+          <div className="option-title">{currentText.installed}</div>
+          {customTranslations.map(t => (
+            <div key={t.id} className="data-option">
+              <div className="data-option-content">
+                <div className="option-title">{t.name} ({t.id})</div>
+                <div className="option-description">{t.format.toUpperCase()} · {new Date(t.importedAt).toLocaleDateString()}</div>
+              </div>
+              <button className="delete-btn" onClick={() => handleRemove(t.id)}>
+                {currentText.remove}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="data-option">
+        <div className="data-option-content">
+          <div className="option-title">{currentText.addTranslation}</div>
+          <div className="option-description">{currentText.addDesc}</div>
+          {error && <div className="error-message">{error}</div>}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".xml,.osis,.usfm,.sfm,.txt,.json"
+          multiple
+          onChange={handleFiles}
+          style={{ display: 'none' }}
+        />
+        <button className="import-btn" onClick={() => fileInputRef.current?.click()}>
+          {currentText.chooseFiles}
+        </button>
+      </div>
+
+      {imported && validation && (
+        <div className="translation-preview">
+          <div className="notification-time">
+            <label>{currentText.name}</label>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="notification-time">
+            <label>{currentText.abbreviation}</label>
+            <input type="text" value={abbreviation} onChange={(e) => setAbbreviation(e.target.value)} />
+          </div>
+          <div className="notification-time">
+            <label>{currentText.bookLanguage}</label>
+            <select value={language} onChange={(e) => setLanguage(e.target.value as CustomTranslation['language'])}>
+              <option value="en">{currentText.english}</option>
+              <option value="zh">{currentText.chinese}</option>
+              <option value="zh-Hant">{currentText.chineseTraditional}</option>
+            </select>
+          </div>
+
+          <div className="validation-summary">
+            <p>
+              {imported.format.toUpperCase()} · {validation.bookCount} {currentText.books} · {validation.verseCount} {currentText.verses}
+            </p>
+            {validation.missingBooks.length === 0 && validation.missingChapters.length === 0 && (
+              <p className="success-message">{currentText.complete}</p>
+            )}
+            {validation.missingBooks.length > 0 && (
+              <p className="error-message">
+                {currentText.missingBooks} {validation.missingBooks.map(id => getBookName(id, settings.uiLanguage || 'en')).join(', ')}
+              </p>
+            )}
+            {validation.missingChapters.length > 0 && (
+              <p className="error-message">
+                {currentText.missingChapters}{' '}
+                {validation.missingChapters
+                  .map(m => `${getBookName(m.book, settings.uiLanguage || 'en')} ${m.chapters.join(', ')}`)
+                  .join('; ')}
+              </p>
+            )}
+          </div>
+
+          <div className="confirmation-buttons">
+            <button className="export-btn" onClick={handleSave} disabled={saving}>
+              {saving ? currentText.saving : currentText.save}
+            </button>
+            <button className="cancel-delete-btn" onClick={reset}>
+              {currentText.cancel}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranslationImport;
@@ -0,0 +1,308 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AppSettings, CitationStyle, HighlightColor, Note, PassageVerse } from '../types';
+import { addBookmark, deleteBookmark, findBookmark } from '../utils/bookmarks';
+import { BookLanguage } from '../utils/books';
+import { DEFAULT_CITATION, formatCitation } from '../utils/citation';
+import { HIGHLIGHT_COLORS, applyHighlight } from '../utils/highlights';
+import { addMemoryVerse, findMemoryVerse } from '../utils/memory';
+import { getVerseNotes } from '../utils/notes';
+import { formatReference, getVerseKey, getVerseKeysRange, getVerseRange } from '../utils/reference';
+import { getUiText } from '../utils/uiText';
+import NotesPanel from './NotesPanel';
+import VerseImageDialog from './VerseImageDialog';
+import './VerseActions.css';
+
+interface VerseActionsProps {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+  // The selected verses, in reading order
+  verses: PassageVerse[];
+  // Language of the book names in copied references
+  language: BookLanguage;
+  onClose: () => void;
+}
+
+type Panel = 'notes' | 'bookmark' | 'copy' | 'image';
+
+const CITATION_STYLES: CitationStyle[] = ['inline', 'block', 'markdown'];
+
+const VerseActions: React.FC<VerseActionsProps> = ({ settings, updateSettings, verses, language, onClose }) => {
+  const verseKeys = verses.map(v => getVerseKey(v.book, v.chapter, v.verse));
+  const highlights = settings.highlights || {};
+  const highlighted = verseKeys.some(key => highlights[key]);
+  const [panel, setPanel] = useState<Panel | null>(null);
+  const [bookmarkName, setBookmarkName] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+  const selection = verseKeys.join(',');
+
+  // Notes on any of the selected verses, each listed once
+  const verseNotes: Note[] = [];
+  verses.forEach(verse => {
+    getVerseNotes(settings.notes || [], verse.book, verse.chapter, verse.verse).forEach(note => {
+      if (!verseNotes.includes(note)) verseNotes.push(note);
+    });
+  });
+  const range = getVerseKeysRange(verseKeys);
+
+  // Bookmarks point at a single verse: the first one selected
+  const bookmarks = settings.bookmarks || [];
+  const firstVerse = verses.length > 0 ? verses[0] : null;
+  const bookmark = firstVerse ? findBookmark(bookmarks, verseKeys[0]) : undefined;
+
+  const memoryVerses = settings.memoryVerses || [];
+  const memorized = range ? findMemoryVerse(memoryVerses, range, settings.translation) : undefined;
+
+  const citationSettings = settings.citation || DEFAULT_CITATION;
+  const citation = formatCitation(verses, settings.translation, language, citationSettings);
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      highlight: 'Highlight',
+      removeHighlight: 'Remove highlight',
+      note: 'Note',
+      notes: 'Notes',
+      bookmark: 'Bookmark',
+      removeBookmark: 'Remove bookmark',
+      bookmarkName: 'Bookmark name',
+      save: 'Save',
+      copy: 'Copy',
+      share: 'Share',
+      image: 'Image',
+      memorize: 'Memorize',
+      memorized: 'Memorizing',
+      addedToMemory: 'Added to memory verses',
+      copied: 'Copied',
+      copyFailed: 'Could not copy',
+      inline: 'Inline',
+      block: 'Block quote',
+      markdown: 'Markdown',
+      verseNumbers: 'Verse numbers',
+      close: 'Close',
+      yellow: 'Yellow',
+      green: 'Green',
+      blue: 'Blue',
+      pink: 'Pink',
+      purple: 'Purple'
+    },
+    zh: {
+      highlight: '标记',
+      removeHighlight: '取消标记',
+      note: '笔记',
+      notes: '笔记',
+      bookmark: '书签',
+      removeBookmark: '删除书签',
+      bookmarkName: '书签名称',
+      save: '保存',
+      copy: '复制',
+      share: '分享',
+      image: '图片',
+      memorize: '背诵',
+      memorized: '背诵中',
+      addedToMemory: '已加入背诵经文',
+      copied: '已复制',
+      copyFailed: '无法复制',
+      inline: '行内',
+      block: '引用段落',
+      markdown: 'Markdown',
+      verseNumbers: '节号',
+      close: '关闭',
+      yellow: '黄色',
+      green: '绿色',
+      blue: '蓝色',
+      pink: '粉色',
+      purple: '紫色'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  useEffect(() => {
+    setPanel(null);
+  }, [selection]);
+
+  useEffect(() => {
+    if (!status) return;
+    const timer = setTimeout(() => setStatus(null), 2000);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const togglePanel = (next: Panel) => {
+    if (next === 'bookmark' && firstVerse) {
+      // Default to the reference, e.g. "John 3:16"
+      setBookmarkName(formatReference([getVerseRange(firstVerse.book, firstVerse.chapter, firstVerse.verse)], settings.uiLanguage));
+    }
+    setPanel(panel === next ? null : next);
+  };
+
+  const handleBookmark = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!firstVerse || !bookmarkName.trim()) return;
+    updateSettings({
+      bookmarks: addBookmark(bookmarks, bookmarkName.trim(), firstVerse.book, firstVerse.chapter, firstVerse.verse)
+    });
+    setPanel(null);
+  };
+
+  const copyCitation = async () => {
+    try {
+      await navigator.clipboard.writeText(citation.text);
+      setStatus(currentText.copied);
+    } catch (error) {
+      console.error('Copy error:', error);
+      setStatus(currentText.copyFailed);
+    }
+  };
+
+  // Use the system share sheet where there is one, otherwise copy
+  const shareCitation = async () => {
+    if (!navigator.share) {
+      await copyCitation();
+      return;
+    }
+    try {
+      await navigator.share({ title: `${citation.reference} (${settings.translation})`, text: citation.text });
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError; anything else falls back to copying
+      if ((error as Error).name !== 'AbortError') await copyCitation();
+    }
+  };
+
+  const updateCitation = (changes: Partial<typeof citationSettings>) => {
+    updateSettings({ citation: { ...citationSettings, ...changes } });
+  };
+
+  const handleMemorize = () => {
+    if (!range) return;
+    // Chinese text runs on without spaces between verses
+    const text = verses.map(v => v.text.trim()).join(language === 'en' ? ' ' : '');
+    updateSettings({
+      memoryVerses: addMemoryVerse(memoryVerses, range, settings.translation, text, format(new Date(), 'yyyy-MM-dd'))
+    });
+    setStatus(currentText.addedToMemory);
+  };
+
+  const handleHighlight = (color: HighlightColor | null) => {
+    updateSettings({ highlights: applyHighlight(highlights, verseKeys, color) });
+  };
+
+  if (verseKeys.length === 0) return null;
+
+  return (
+    <div className="verse-actions" role="toolbar" aria-label={currentText.highlight}>
+      {panel === 'notes' && range && (
+        <div className="verse-actions-popover">
+          <NotesPanel
+            settings={settings}
+            updateSettings={updateSettings}
+            notes={verseNotes}
+            target={{ range }}
+          />
+        </div>
+      )}
+      {panel === 'image' && (
+        <VerseImageDialog settings={settings} verses={verses} language={language} onClose={() => setPanel(null)} />
+      )}
+      {panel === 'copy' && (
+        <div className="verse-actions-popover citation-panel">
+          <div className="citation-styles">
+            {CITATION_STYLES.map(style => (
+              <button
+                key={style}
+                className={citationSettings.style === style ? 'active' : ''}
+                onClick={() => updateCitation({ style })}
+              >
+                {currentText[style]}
+              </button>
+            ))}
+          </div>
+          <label className="citation-numbers">
+            <input
+              type="checkbox"
+              checked={citationSettings.verseNumbers}
+              onChange={(e) => updateCitation({ verseNumbers: e.target.checked })}
+            />
+            {currentText.verseNumbers}
+          </label>
+          <pre className="citation-preview">{citation.text}</pre>
+          <div className="citation-buttons">
+            <button onClick={copyCitation}>{currentText.copy}</button>
+            <button onClick={shareCitation}>{currentText.share}</button>
+          </div>
+        </div>
+      )}
+      {panel === 'bookmark' && (
+        <form className="verse-actions-popover bookmark-form" onSubmit={handleBookmark}>
+          <input
+            type="text"
+            value={bookmarkName}
+            onChange={(e) => setBookmarkName(e.target.value)}
+            aria-label={currentText.bookmarkName}
+            placeholder={currentText.bookmarkName}
+            autoFocus
+          />
+          <button type="submit" disabled={!bookmarkName.trim()}>{currentText.save}</button>
+        </form>
+      )}
+      <div className="highlight-swatches">
+        {HIGHLIGHT_COLORS.map(color => (
+          <button
+            key={color}
+            className={`highlight-swatch swatch-${color} ${verseKeys.every(key => highlights[key]?.color === color) ? 'active' : ''}`}
+            onClick={() => handleHighlight(color)}
+            title={currentText[color]}
+            aria-label={currentText[color]}
+          />
+        ))}
+      </div>
+      {highlighted && (
+        <button className="verse-action" onClick={() => handleHighlight(null)}>
+          {currentText.removeHighlight}
+        </button>
+      )}
+      {range && (
+        <button className={`verse-action ${panel === 'notes' ? 'active' : ''}`} onClick={() => togglePanel('notes')}>
+          📝 {verseNotes.length > 0 ? `${currentText.notes} (${verseNotes.length})` : currentText.note}
+        </button>
+      )}
+      {firstVerse && (bookmark ? (
+        <button
+          className="verse-action active"
+          onClick={() => updateSettings({ bookmarks: deleteBookmark(bookmarks, bookmark.id) })}
+        >
+          🔖 {currentText.removeBookmark}
+        </button>
+      ) : (
+        <button className={`verse-action ${panel === 'bookmark' ? 'active' : ''}`} onClick={() => togglePanel('bookmark')}>
+          🔖 {currentText.bookmark}
+        </button>
+      ))}
+      <button className={`verse-action ${panel === 'copy' ? 'active' : ''}`} onClick={() => togglePanel('copy')}>
+        📋 {currentText.copy}
+      </button>
+      <button className="verse-action" onClick={shareCitation}>
+        ↗ {currentText.share}
+      </button>
+      <button className="verse-action" onClick={() => togglePanel('image')}>
+        🖼 {currentText.image}
+      </button>
+      {range && (memorized ? (
+        <Link to="/memory" className="verse-action active">
+          🧠 {currentText.memorized}
+        </Link>
+      ) : (
+        <button className="verse-action" onClick={handleMemorize}>
+          🧠 {currentText.memorize}
+        </button>
+      ))}
+      {status && <span className="verse-action-status" role="status">{status}</span>}
+      <button className="verse-action close" onClick={onClose} aria-label={currentText.close}>
+        ×
+      </button>
+    </div>
+  );
+};
+
+export default VerseActions;
@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { AppSettings, PassageVerse } from '../types';
+import { BookLanguage } from '../utils/books';
+import { getPassageRanges } from '../utils/citation';
+import { formatReference } from '../utils/reference';
+import { getUiText } from '../utils/uiText';
+import {
+  CARD_BACKGROUNDS,
+  CARD_PALETTES,
+  CARD_TEMPLATES,
+  CardBackground,
+  CardTemplate,
+  drawVerseCard
+} from '../utils/verseImage';
+import './VerseImageDialog.css';
+
+interface VerseImageDialogProps {
+  settings: AppSettings;
+  verses: PassageVerse[];
+  language: BookLanguage;
+  onClose: () => void;
+}
+
+const VerseImageDialog: React.FC<VerseImageDialogProps> = ({ settings, verses, language, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [template, setTemplate] = useState<CardTemplate>('classic');
+  const [background, setBackground] = useState<CardBackground>('plain');
+  const [error, setError] = useState<string | null>(null);
+
+  const reference = `${formatReference(getPassageRanges(verses), language)} (${settings.translation})`;
+  // Chinese text runs on without spaces between verses
+  const text = verses.map(v => v.text.trim()).join(language === 'en' ? ' ' : '');
+  const fileName = `${reference.replace(/[^\w\u4e00-\u9fff]+/g, '-').replace(/^-|-$/g, '')}.png`;
+
+  // UI text based on language
+  const uiText = {
+    en: {
+      title: 'Create image',
+      template: 'Style',
+      background: 'Background',
+      classic: 'Classic',
+      modern: 'Modern',
+      minimal: 'Minimal',
+      plain: 'Plain',
+      paper: 'Paper',
+      sunrise: 'Sunrise',
+      ocean: 'Ocean',
+      forest: 'Forest',
+      download: 'Download',
+      share: 'Share',
+      close: 'Close',
+      imageError: 'Could not create the image'
+    },
+    zh: {
+      title: '生成图片',
+      template: '样式',
+      background: '背景',
+      classic: '经典',
+      modern: '现代',
+      minimal: '简约',
+      plain: '素色',
+      paper: '纸张',
+      sunrise: '日出',
+      ocean: '海洋',
+      forest: '森林',
+      download: '下载',
+      share: '分享',
+      close: '关闭',
+      imageError: '无法生成图片'
+    }
+  };
+
+  const currentText = getUiText(uiText, settings.uiLanguage);
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      drawVerseCard(canvasRef.current, { text, reference, template, background, theme: settings.theme });
+    }
+  }, [text, reference, template, background, settings.theme]);
+
+  const toBlob = () => new Promise<Blob>((resolve, reject) => {
+    canvasRef.current?.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Empty canvas'))), 'image/png');
+  });
+
+  const download = (blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownload = async () => {
+    try {
+      download(await toBlob());
+    } catch (e) {
+      console.error('Image error:', e);
+      setError(currentText.imageError);
+    }
+  };
+
+  // Share the PNG where the browser can share files, otherwise download it
+  const handleShare = async () => {
+    try {
+      const blob = await toBlob();
+      const file = new File([blob], fileName, { type: 'image/png' });
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: reference });
+      } else {
+        download(blob);
+      }
+    } catch (e) {
+      if ((e as Error).name === 'AbortError') return;
+      console.error('Image error:', e);
+      setError(currentText.imageError);
+    }
+  };
+
+  // Portalled to the body so the fixed overlay isn't positioned by the action
+  // bar; the theme class brings the theme's colors along
+  return createPortal(
+    <div className={`image-dialog-overlay ${settings.theme}`} onClick={onClose}>
+      <div className="image-dialog" role="dialog" aria-label={currentText.title} onClick={(e) => e.stopPropagation()}>
+        <div className="image-dialog-header">
+          <h3>{currentText.title}</h3>
+          <button className="image-dialog-close" onClick={onClose} aria-label={currentText.close}>×</button>
+        </div>
+
+        <canvas ref={canvasRef} className="image-preview" />
+
+        <div className="image-options">
+          <span>{currentText.template}</span>
+          <div className="image-choices">
+            {CARD_TEMPLATES.map(option => (
+              <button
+                key={option}
+                className={template === option ? 'active' : ''}
+                onClick={() => setTemplate(option)}
+              >
+                {currentText[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="image-options">
+          <span>{currentText.background}</span>
+          <div className="image-choices">
+            {CARD_BACKGROUNDS.map(option => {
+              const palette = CARD_PALETTES[option][settings.theme];
+              return (
+                <button
+                  key={option}
+                  className={`background-choice ${background === option ? 'active' : ''}`}
+                  style={{ background: `linear-gradient(135deg, ${palette.from}, ${palette.to})`, color: palette.text }}
+                  onClick={() => setBackground(option)}
+                >
+                  {currentText[option]}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {error && <p className="image-error">{error}</p>}
+
+        <div className="image-dialog-actions">
+          <button onClick={handleDownload}>{currentText.download}</button>
+          <button className="primary" onClick={handleShare}>{currentText.share}</button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default VerseImageDialog;
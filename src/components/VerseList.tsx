@@ -0,0 +1,208 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Highlight, ParallelLayout, PassageVerse } from '../types';
+import { getVerseKey } from '../utils/reference';
+import { SelectionAction } from '../utils/selection';
+import './VerseList.css';
+
+interface VerseListProps {
+  verses: PassageVerse[];
+  fontSize: number;
+  isActive: (verse: PassageVerse) => boolean;
+  activeClassName: string;
+  // 'extend' for shift-click or dragging after a long press
+  onVerseClick: (verse: PassageVerse, action: SelectionAction) => void;
+  // Second translation for Duo mode, aligned to `verses` by chapter and verse
+  parallelVerses?: PassageVerse[] | null;
+  layout?: ParallelLayout;
+  translations?: [string, string];
+  highlights?: Record<string, Highlight>;
+  // Keys of verses that have notes, marked next to the verse number
+  notedVerses?: Set<string>;
+  bookmarkedVerses?: Set<string>;
+  // Key of the verse being read aloud, kept in view as reading moves on
+  speakingVerse?: string | null;
+}
+
+const alignKey = (verse: PassageVerse) => getVerseKey(verse.book, verse.chapter, verse.verse);
+
+const LONG_PRESS_MS = 500;
+
+const VerseList: React.FC<VerseListProps> = ({
+  verses,
+  fontSize,
+  isActive,
+  activeClassName,
+  onVerseClick,
+  parallelVerses,
+  layout = 'columns',
+  translations,
+  highlights = {},
+  notedVerses,
+  bookmarkedVerses,
+  speakingVerse
+}) => {
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+  const listRef = useRef<HTMLDivElement>(null);
+  // The touch listeners are attached once, so they read these through refs
+  const versesByKey = useRef(new Map<string, PassageVerse>());
+  versesByKey.current = new Map(verses.map(v => [alignKey(v), v]));
+  const selectVerse = useRef(onVerseClick);
+  selectVerse.current = onVerseClick;
+  // A long press ends with a click that must not toggle the selection off
+  const suppressClick = useRef(false);
+
+  useEffect(() => {
+    // Long press a verse, then drag to select a run of verses. These are
+    // native listeners because React's touch handlers can't stop scrolling.
+    const list = listRef.current;
+    if (!list) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let dragging = false;
+    let lastKey: string | null = null;
+
+    const verseAt = (touch: Touch) => {
+      const element = document.elementFromPoint(touch.clientX, touch.clientY)?.closest('[data-verse-key]');
+      const key = element?.getAttribute('data-verse-key');
+      return key ? versesByKey.current.get(key) : undefined;
+    };
+
+    const handleStart = (e: TouchEvent) => {
+      suppressClick.current = false;
+      const verse = e.touches.length === 1 ? verseAt(e.touches[0]) : undefined;
+      if (!verse) return;
+      timer = setTimeout(() => {
+        dragging = true;
+        suppressClick.current = true;
+        lastKey = alignKey(verse);
+        selectVerse.current(verse, 'start');
+      }, LONG_PRESS_MS);
+    };
+
+    const handleMove = (e: TouchEvent) => {
+      if (!dragging) {
+        // Moving before the press is long enough is a scroll
+        clearTimeout(timer);
+        return;
+      }
+      e.preventDefault();
+      const verse = verseAt(e.touches[0]);
+      if (verse && alignKey(verse) !== lastKey) {
+        lastKey = alignKey(verse);
+        selectVerse.current(verse, 'extend');
+      }
+    };
+
+    const handleEnd = () => {
+      clearTimeout(timer);
+      dragging = false;
+    };
+
+    const handleContextMenu = (e: Event) => {
+      if (suppressClick.current) e.preventDefault();
+    };
+
+    list.addEventListener('touchstart', handleStart, { passive: true });
+    list.addEventListener('touchmove', handleMove, { passive: false });
+    list.addEventListener('touchend', handleEnd);
+    list.addEventListener('touchcancel', handleEnd);
+    list.addEventListener('contextmenu', handleContextMenu);
+    return () => {
+      clearTimeout(timer);
+      list.removeEventListener('touchstart', handleStart);
+      list.removeEventListener('touchmove', handleMove);
+      list.removeEventListener('touchend', handleEnd);
+      list.removeEventListener('touchcancel', handleEnd);
+      list.removeEventListener('contextmenu', handleContextMenu);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!speakingVerse) return;
+    listRef.current
+      ?.querySelector(`[data-verse-key="${speakingVerse}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [speakingVerse]);
+
+  const counterparts = new Map((parallelVerses || []).map(v => [alignKey(v), v.text]));
+  const isParallel = !!parallelVerses;
+
+  const handleClick = (verse: PassageVerse, e: React.MouseEvent) => {
+    if (suppressClick.current) {
+      suppressClick.current = false;
+      return;
+    }
+    // In the reveal layout a tap shows or hides the second translation;
+    // verses are selected by long-press or shift-click instead
+    if (isParallel && layout === 'reveal' && !e.shiftKey) {
+      const key = alignKey(verse);
+      const next = new Set(revealed);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      setRevealed(next);
+      return;
+    }
+    if (e.shiftKey) {
+      // Shift-click extends the verse selection, not a text selection
+      window.getSelection()?.removeAllRanges();
+    }
+    onVerseClick(verse, e.shiftKey ? 'extend' : 'toggle');
+  };
+
+  const renderCounterpart = (verse: PassageVerse) => {
+    const text = counterparts.get(alignKey(verse));
+    return <span className="verse-text verse-secondary">{text ?? '—'}</span>;
+  };
+
+  return (
+    <div ref={listRef} className={`verse-list ${isParallel ? `parallel parallel-${layout}` : ''}`}>
+      {isParallel && layout === 'columns' && translations && (
+        <div className="parallel-header">
+          <span className="verse-number"></span>
+          <span className="parallel-label">{translations[0]}</span>
+          <span className="parallel-label">{translations[1]}</span>
+        </div>
+      )}
+      {verses.map(verse => {
+        const key = alignKey(verse);
+        const showCounterpart = isParallel && (layout !== 'reveal' || revealed.has(key));
+        const highlight = highlights[key];
+
+        return (
+          <div
+            key={key}
+            id={`verse-${verse.verse}`}
+            data-verse-key={key}
+            className={`verse ${isActive(verse) ? activeClassName : ''} ${highlight ? `highlight-${highlight.color}` : ''} ${speakingVerse === key ? 'speaking' : ''}`}
+            onClick={(e) => handleClick(verse, e)}
+            style={{ fontSize: `${fontSize}px` }}
+          >
+            <span className="verse-number">
+              {verse.verse}
+              {bookmarkedVerses?.has(key) && <span className="verse-marker bookmark-marker" aria-hidden="true">🔖</span>}
+              {notedVerses?.has(key) && <span className="verse-marker note-marker" aria-hidden="true">✎</span>}
+            </span>
+            {isParallel && layout === 'columns' ? (
+              <>
+                <span className="verse-text">{verse.text}</span>
+                {renderCounterpart(verse)}
+              </>
+            ) : (
+              <div className="verse-body">
+                <span className="verse-text">{verse.text}</span>
+                {showCounterpart && renderCounterpart(verse)}
+                {isParallel && layout === 'reveal' && !showCounterpart && (
+                  <span className="reveal-hint">{translations?.[1]}</span>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default VerseList;
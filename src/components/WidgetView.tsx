@@ -1,135 +1,54 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { AppSettings } from '../types';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { AppSettings, LoadedPlan } from '../types';
+import { getDeferredDays, getPlanSchedule } from '../utils/catchUp';
+import { getSelectedPlanId, loadPlan } from '../utils/plans';
+import { getDayState, getPlanProgress, updatePlanProgress } from '../utils/progress';
+import { getPlanStartDate, getScheduleStatus, getScheduledDay } from '../utils/schedule';
+import { StreakStatus, getStreakStats } from '../utils/streak';
 import './WidgetView.css';
 
 interface WidgetViewProps {
   settings: AppSettings;
+  // Lets the widget jump to today's reading; without it the widget is read-only
+  updateSettings?: (settings: Partial<AppSettings>) => void;
 }
 
-interface ReadingPlan {
-  id: string;
-  name: string;
-  data2: string[][];
-}
-
-const WidgetView: React.FC<WidgetViewProps> = ({ settings }) => {
-  const [plan, setPlan] = useState<ReadingPlan | null>(null);
+const WidgetView: React.FC<WidgetViewProps> = ({ settings, updateSettings }) => {
+  const [plan, setPlan] = useState<LoadedPlan | null>(null);
   const [loading, setLoading] = useState(true);
   const [currentStreak, setCurrentStreak] = useState(0);
   const [longestStreak, setLongestStreak] = useState(0);
+  const [streakStatus, setStreakStatus] = useState<StreakStatus>('none');
+  // Latest missed day a streak freeze covered in the current streak
+  const [lastFreeze, setLastFreeze] = useState<string | undefined>();
   const [totalCompleted, setTotalCompleted] = useState(0);
   const [totalDays, setTotalDays] = useState(0);
   const [showAnimation, setShowAnimation] = useState(false);
 
-  const currentDay = settings.currentDay || 1;
-  const completedDays = settings.completedDays || new Set<number>();
+  const progress = getPlanProgress(settings);
+  const currentDay = progress.currentDay;
+  const completedDays = new Set(progress.completedDays);
 
-  const calculateStreaks = useCallback(() => {
+  const updateStreaks = useCallback(() => {
     if (!plan) return;
 
-    const completedArray = Array.from(completedDays).sort((a, b) => a - b);
-    const totalDaysInPlan = plan.data2.length;
-    setTotalDays(totalDaysInPlan);
-    setTotalCompleted(completedArray.length);
-
-    // Calculate current streak based on actual completion dates
-    let streak = 0;
-    let maxStreak = 0;
-
-    if (completedArray.length === 0) {
-      setCurrentStreak(0);
-      setLongestStreak(0);
-      return;
-    }
-
-    // Get completion dates
-    const completionDates = settings.completionDates || new Map();
-    
-    console.log('Debug - Completed days:', completedArray);
-    console.log('Debug - Completion dates map:', completionDates);
-    
-    // Convert completion dates to sorted array of dates
-    const completionDateStrings: string[] = [];
-    completedArray.forEach(dayNumber => {
-      const completionDate = completionDates.get(dayNumber);
-      if (completionDate) {
-        completionDateStrings.push(completionDate);
-      } else {
-        // If no completion date is stored, use today's date as fallback
-        const today = new Date().toISOString().split('T')[0];
-        completionDateStrings.push(today);
-      }
-    });
-
-    // Sort dates chronologically
-    const sortedDates = completionDateStrings.sort();
-    
-    console.log('Debug - Sorted completion dates:', sortedDates);
-    
-    if (sortedDates.length === 0) {
-      setCurrentStreak(0);
-      setLongestStreak(0);
-      return;
-    }
-
-    // Find the most recent completion date
-    const mostRecentDate = sortedDates[sortedDates.length - 1];
-    const mostRecent = new Date(mostRecentDate);
-    
-    console.log('Debug - Most recent completion date:', mostRecentDate);
-    
-    // Calculate current streak (consecutive calendar days from most recent backwards)
-    let currentDate = new Date(mostRecent);
-    streak = 0;
-    
-    // Count consecutive days backwards
-    while (sortedDates.includes(currentDate.toISOString().split('T')[0])) {
-      streak++;
-      currentDate.setDate(currentDate.getDate() - 1);
-    }
-
-    console.log('Debug - Current streak:', streak);
-
-    // Calculate longest streak
-    let currentStreakCount = 0;
-    let lastDate: Date | null = null;
-    
-    sortedDates.forEach(dateStr => {
-      const currentDate = new Date(dateStr);
-      
-      if (lastDate === null) {
-        currentStreakCount = 1;
-      } else {
-        const dayDiff = Math.floor((currentDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
-        if (dayDiff === 1) {
-          // Consecutive day
-          currentStreakCount++;
-        } else {
-          // Gap found, reset streak
-          maxStreak = Math.max(maxStreak, currentStreakCount);
-          currentStreakCount = 1;
-        }
-      }
-      
-      lastDate = currentDate;
-    });
-    
-    // Don't forget to check the last streak
-    maxStreak = Math.max(maxStreak, currentStreakCount);
-
-    console.log('Debug - Longest streak:', maxStreak);
+    setTotalDays(plan.readings.length);
+    setTotalCompleted(progress.completedDays.length);
 
-    setCurrentStreak(streak);
-    setLongestStreak(maxStreak);
-  }, [plan, settings.completedDays, settings.completionDates]);
+    // Reading in any plan keeps the streak going
+    const streaks = getStreakStats(settings);
+    setCurrentStreak(streaks.currentStreak);
+    setLongestStreak(streaks.longestStreak);
+    setStreakStatus(streaks.status);
+    setLastFreeze(streaks.currentFreezes[streaks.currentFreezes.length - 1]);
+  }, [plan, progress.completedDays.length, settings]);
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const response = await fetch('./data/esveverydayinword_plan.json');
-        const planData = await response.json();
-        setPlan(planData);
-        
+        setPlan(await loadPlan(getSelectedPlanId(settings.selectedPlan), settings.customPlans));
       } catch (error) {
         console.error('Error loading widget data:', error);
       } finally {
@@ -138,14 +57,14 @@ const WidgetView: React.FC<WidgetViewProps> = ({ settings }) => {
     };
 
     fetchData();
-  }, []);
+  }, [settings.selectedPlan, settings.customPlans]);
 
   // Recalculate streaks whenever settings change
   useEffect(() => {
     if (plan) {
-      calculateStreaks();
+      updateStreaks();
     }
-  }, [plan, settings.completedDays, settings.completionDates, calculateStreaks]);
+  }, [plan, updateStreaks]);
 
   useEffect(() => {
     // Trigger animation when component mounts
@@ -155,6 +74,8 @@ const WidgetView: React.FC<WidgetViewProps> = ({ settings }) => {
   const getMotivationalMessage = () => {
     if (currentStreak === 0) {
       return "Start your journey today! 📖";
+    } else if (streakStatus === 'at-risk') {
+      return "Read today to keep your streak! ⏳";
     } else if (currentStreak === 1) {
       return "Great start! Keep going! 🌟";
     } else if (currentStreak < 7) {
@@ -199,6 +120,20 @@ const WidgetView: React.FC<WidgetViewProps> = ({ settings }) => {
   }
 
   const progressPercentage = totalDays > 0 ? (totalCompleted / totalDays) * 100 : 0;
+  const planSchedule = getPlanSchedule(settings.planSchedules, plan.info.id);
+  const scheduledDay = getScheduledDay(
+    getPlanStartDate(progress.startDate, progress.followCalendar, planSchedule.delay),
+    plan.readings.length
+  );
+  const schedule = getScheduleStatus(
+    completedDays,
+    scheduledDay,
+    plan.readings,
+    getDeferredDays(planSchedule, completedDays, scheduledDay)
+  );
+  const scheduleText = schedule.state === 'on-track'
+    ? 'On track'
+    : `${schedule.days} day${schedule.days !== 1 ? 's' : ''} ${schedule.state}`;
   const motivationalMessage = getMotivationalMessage();
   const streakEmoji = getStreakEmoji();
 
@@ -269,9 +204,21 @@ const WidgetView: React.FC<WidgetViewProps> = ({ settings }) => {
           ) : (
             <div className="today-pending">
               <span className="status-emoji">📖</span>
-              <span className="status-text">Day {currentDay} Ready</span>
+              <span className="status-text">
+                {getDayState(progress, currentDay) === 'partial'
+                  ? `Day ${currentDay}: ${progress.completedPassages?.[currentDay]?.length || 0} of ${plan.readings[currentDay - 1]?.length || 0} passages read`
+                  : `Day ${currentDay} Ready`}
+              </span>
             </div>
           )}
+          <div className={`schedule-status ${schedule.state}`}>
+            {scheduleText}
+            {updateSettings && currentDay !== scheduledDay && (
+              <Link to="/reading" className="schedule-jump" onClick={() => updateSettings(updatePlanProgress(settings, progress.planId, { currentDay: scheduledDay }))}>
+                Go to day {scheduledDay} →
+              </Link>
+            )}
+          </div>
         </div>
 
         {/* Encouragement */}
@@ -282,6 +229,9 @@ const WidgetView: React.FC<WidgetViewProps> = ({ settings }) => {
               : "Start your Bible reading journey today!"
             }
           </p>
+          {lastFreeze && (
+            <p className="streak-freeze">❄️ Streak freeze used on {format(parseISO(lastFreeze), 'MMM d')}</p>
+          )}
         </div>
       </div>
     </div>
@@ -3,6 +3,21 @@ export interface Verse {
   text: string;
 }
 
+export interface PassageVerse extends Verse {
+  book: string;
+  chapter: number;
+}
+
+// A contiguous run of verses within one book. When endVerse is omitted the
+// range runs to the end of endChapter.
+export interface VerseRange {
+  book: string;
+  startChapter: number;
+  startVerse: number;
+  endChapter: number;
+  endVerse?: number;
+}
+
 export interface Chapter {
   chapter: number;
   verses: Verse[];
@@ -15,6 +30,8 @@ export interface Book {
 
 export interface Bible {
   translation: string;
+  // Language used for book names: 'en', 'zh' or 'zh-Hant'
+  language?: string;
   books: Book[];
 }
 
@@ -42,27 +59,254 @@ export interface DailyPlans {
   plans: ReadingPlan[];
 }
 
+export type PlanCategory = 'whole-bible' | 'new-testament' | 'old-testament' | 'gospels' | 'wisdom' | 'custom';
+
+// English text with an optional Simplified Chinese version; the Traditional
+// interface converts the Simplified one
+export interface LocalizedText {
+  en: string;
+  zh?: string;
+}
+
+// A plan as listed in public/data/plans.json, or one made in the plan builder
+export interface PlanInfo {
+  id: string;
+  // Plan data file in public/data; plans made in the app have none
+  file?: string;
+  name: LocalizedText;
+  description: LocalizedText;
+  days: number;
+  // Languages the name and description are written in
+  languages: ('en' | 'zh')[];
+  category: PlanCategory;
+  source?: string;
+}
+
+export interface PlanManifest {
+  version: number;
+  plans: PlanInfo[];
+}
+
+// A plan with its readings loaded: the passage references for each day. A
+// day with no passages is a rest day.
+export interface LoadedPlan {
+  info: PlanInfo;
+  readings: string[][];
+}
+
+// Shareable plan file; the format is described in utils/planFile.ts
+export interface PlanFile {
+  format: 'bible-duo-plan';
+  version: number;
+  name: LocalizedText;
+  description?: LocalizedText;
+  category?: PlanCategory;
+  source?: string;
+  days: string[][];
+}
+
+export interface PlanIssue {
+  // Day the problem is on, counting from 1
+  day?: number;
+  reference?: string;
+  // Set when the reference is valid but missing from this installed translation
+  translation?: string;
+  message: string;
+}
+
+export type CatchUpStrategy = 'spread' | 'push-back' | 'skip';
+
+// Changes made to a plan's schedule to catch up on missed days. Days keep
+// their numbers in the plan; only when they are read changes.
+export interface PlanSchedule {
+  // Days the whole schedule has been pushed back by
+  delay: number;
+  // Missed days read along with a later day, keyed by that day
+  extraDays: Record<number, number[]>;
+  // Missed days set aside to read whenever there is time
+  readLater: number[];
+}
+
+// Monthly freezes are given afresh each calendar month; earned ones come
+// with every week of readings
+export type FreezeMode = 'monthly' | 'earned';
+
+// What a reading streak forgives
+export interface StreakRules {
+  // Days of the week (0 is Sunday) that needn't be read
+  restDays: number[];
+  // Missed days covered each month, or the most that can be saved up
+  freezes: number;
+  freezeMode: FreezeMode;
+  // yyyy-MM-dd freezes were turned on; days missed before it stay missed
+  freezesSince?: string;
+  // Hours after midnight that still count as the day before
+  graceHours: number;
+}
+
+// Paused plans keep their place and schedule until resumed; archived plans
+// are put away with their history
+export type PlanStatus = 'active' | 'paused' | 'archived';
+
+// An earlier run through a plan, kept when the plan is restarted
+export interface PlanRun {
+  startDate: string;
+  endedAt: string;
+  completedDays: number[];
+  completionDates: Record<number, string>;
+}
+
+// Where the reader is in one plan
 export interface UserProgress {
   planId: string;
+  status: PlanStatus;
   currentDay: number;
-  streak: number;
-  longestStreak?: number;
-  lastReadDate: string;
-  completedDays: string[];
-  startDate?: string;
+  completedDays: number[];
+  // yyyy-MM-dd each completed day was read on
+  completionDates: Record<number, string>;
+  // Passages read so far on days not yet complete, by their place in the day
+  completedPassages?: Record<number, number[]>;
+  // yyyy-MM-dd that day 1 was scheduled for
+  startDate: string;
+  // Schedule day N of the plan on day N of the year instead
+  followCalendar?: boolean;
+  // yyyy-MM-dd the plan was paused on
+  pausedAt?: string;
+  pastRuns?: PlanRun[];
+}
+
+export type BuiltInTranslation = 'ESV' | 'CUVS' | 'CUVT';
+
+// A built-in translation or the id of one the user imported
+export type Translation = BuiltInTranslation | string;
+
+export interface CustomTranslation {
+  id: string;
+  name: string;
+  language: 'en' | 'zh' | 'zh-Hant';
+  format: string;
+  importedAt: string;
+}
+
+// 'zh-Hant' shows the Chinese interface in Traditional characters
+export type UiLanguage = 'en' | 'zh' | 'zh-Hant';
+
+export type ParallelLayout = 'columns' | 'interleaved' | 'reveal';
+
+export interface ParallelSettings {
+  enabled: boolean;
+  translation: Translation;
+  layout: ParallelLayout;
+}
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+export interface Highlight {
+  color: HighlightColor;
+  createdAt: string;
+}
+
+// A journal entry attached to a verse range, a plan day, or both
+export interface Note {
+  id: string;
+  text: string;
+  createdAt: string;
+  updatedAt: string;
+  range?: VerseRange;
+  planId?: string;
+  day?: number;
+}
+
+export interface Bookmark {
+  id: string;
+  name: string;
+  book: string;
+  chapter: number;
+  verse: number;
+  createdAt: string;
+}
+
+// Where the Bible browser was left in one translation
+export interface ReadingPosition {
+  book: string;
+  chapter: number;
+  // Window scroll offset in pixels
+  scroll: number;
+  updatedAt: string;
+}
+
+export type CitationStyle = 'inline' | 'block' | 'markdown';
+
+// How copied and shared verses are formatted
+export interface CitationSettings {
+  style: CitationStyle;
+  verseNumbers: boolean;
+}
+
+export type PracticeMode = 'hints' | 'hiding' | 'typing';
+
+// A verse range in the memory deck. The text is kept as it was added, so
+// practice works without loading the translation.
+export interface MemoryVerse {
+  id: string;
+  range: VerseRange;
+  translation: Translation;
+  text: string;
+  addedAt: string;
+  // SM-2 scheduling: ease factor, days until the next review and the number
+  // of successful reviews in a row
+  ease: number;
+  interval: number;
+  repetitions: number;
+  // yyyy-MM-dd
+  due: string;
+}
+
+export interface PracticeRecord {
+  verseId: string;
+  range: VerseRange;
+  translation: Translation;
+  mode: PracticeMode;
+  // SM-2 grade from 0 (forgotten) to 5 (perfect recall)
+  quality: number;
+  date: string;
 }
 
 export interface AppSettings {
-  translation: 'ESV' | 'CUVS';
-  uiLanguage: 'en' | 'zh';
+  translation: Translation;
+  uiLanguage: UiLanguage;
   fontSize: number;
   theme: 'light' | 'dark';
+  // The plan being read; others may be in progress too
   selectedPlan?: string;
-  currentDay?: number;
-  completedDays?: Set<number>;
-  completionDates?: Map<number, string>;
+  // Progress in every plan started, keyed by plan id
+  planProgress?: Record<string, UserProgress>;
+  // Catch-up changes to each plan's schedule, keyed by plan id
+  planSchedules?: Record<string, PlanSchedule>;
   notifications?: {
     enabled: boolean;
     time: string;
   };
+  parallel?: ParallelSettings;
+  customTranslations?: CustomTranslation[];
+  // Keyed by canonical verse key, e.g. "John.3.16"
+  highlights?: Record<string, Highlight>;
+  notes?: Note[];
+  bookmarks?: Bookmark[];
+  // Last Bible browser position, keyed by translation
+  lastRead?: Record<string, ReadingPosition>;
+  // Scroll offset of each plan day, keyed by "<planId>:<day>"
+  planScroll?: Record<string, number>;
+  citation?: CitationSettings;
+  // Listen mode speed, 1 is the voice's normal rate
+  speechRate?: number;
+  // Check off a plan passage once it has been scrolled past
+  autoCompletePassages?: boolean;
+  streakRules?: StreakRules;
+  // yyyy-MM-dd days a streak freeze covered
+  streakFreezes?: string[];
+  // Plans made in the plan builder, listed with the built-in ones
+  customPlans?: LoadedPlan[];
+  memoryVerses?: MemoryVerse[];
+  practiceHistory?: PracticeRecord[];
 } 
\ No newline at end of file
@@ -0,0 +1,250 @@
+import { AppSettings, Bible, BuiltInTranslation, Chapter, PassageVerse, Translation, VerseRange } from '../types';
+import { BOOKS, BookInfo, BookLanguage, findBook } from './books';
+import { IndexedVerse, VerseIndex, buildVerseIndex, getIndexedChapterCount } from './verseIndex';
+import { loadTranslation } from './translationStore';
+import { toTraditional } from './chinese';
+
+// ESV Bible structure
+interface ESVBible {
+  [bookName: string]: {
+    [chapter: string]: {
+      [verse: string]: string;
+    };
+  };
+}
+
+// CUVS Bible structure
+interface CUVSBible {
+  verses: Array<{
+    book_name: string;
+    book: number;
+    chapter: number;
+    verse: number;
+    text: string;
+  }>;
+}
+
+// Translation-agnostic access to a loaded Bible. Every format is wrapped
+// in an adapter implementing this interface, so views never need to know
+// which JSON shape a translation was shipped in. Books are always addressed
+// by their canonical id from ./books, whatever the data file calls them.
+export interface BibleSource {
+  translation: string;
+  language: BookLanguage;
+  listBooks(): BookInfo[];
+  getChapterCount(book: string): number;
+  getChapter(book: string, chapter: number): Chapter | null;
+  getVerses(range: VerseRange): PassageVerse[];
+}
+
+interface BibleFormatAdapter {
+  matches(data: unknown): boolean;
+  toVerses(data: unknown): IndexedVerse[];
+}
+
+// Built-in translations and the language their book names are shown in
+const translationLanguages: Record<BuiltInTranslation, BookLanguage> = {
+  ESV: 'en',
+  CUVS: 'zh',
+  CUVT: 'zh-Hant'
+};
+
+export const BUILT_IN_TRANSLATIONS = Object.keys(translationLanguages) as BuiltInTranslation[];
+
+export const isBuiltInTranslation = (translation: string): translation is BuiltInTranslation =>
+  translation in translationLanguages;
+
+export const getTranslationLanguage = (translation: string): BookLanguage =>
+  isBuiltInTranslation(translation) ? translationLanguages[translation] : 'en';
+
+// Every translation the user can pick: built-ins first, then imported ones
+export const getAvailableTranslations = (settings: AppSettings): { id: Translation; name: string }[] => [
+  ...BUILT_IN_TRANSLATIONS.map(id => ({ id, name: id })),
+  ...(settings.customTranslations || []).map(t => ({ id: t.id, name: t.name }))
+];
+
+// The second translation shown in Duo mode, or null when Duo mode is off
+export const getParallelTranslation = (settings: AppSettings): Translation | null => {
+  const parallel = settings.parallel;
+  if (!parallel?.enabled || parallel.translation === settings.translation) return null;
+  return parallel.translation;
+};
+
+export const getDefaultParallelTranslation = (translation: Translation): Translation =>
+  translation === 'ESV' ? 'CUVS' : 'ESV';
+
+const getRangeVerses = (getChapter: BibleSource['getChapter'], range: VerseRange): PassageVerse[] => {
+  const verses: PassageVerse[] = [];
+  for (let chapter = range.startChapter; chapter <= range.endChapter; chapter++) {
+    const chapterData = getChapter(range.book, chapter);
+    if (!chapterData) continue;
+
+    const startVerse = chapter === range.startChapter ? range.startVerse : 1;
+    const endVerse = chapter === range.endChapter && range.endVerse !== undefined ? range.endVerse : Infinity;
+    chapterData.verses.forEach(v => {
+      if (v.verse >= startVerse && v.verse <= endVerse) {
+        verses.push({ book: range.book, chapter, verse: v.verse, text: v.text });
+      }
+    });
+  }
+  return verses;
+};
+
+// Every format is flattened into verses keyed by canonical book id and
+// indexed once on load; lookups never scan the whole Bible again
+const createIndexedSource = (index: VerseIndex, translation: string, language: BookLanguage): BibleSource => {
+  const books = BOOKS.filter(book => index.has(book.id));
+  const chapterCounts = new Map(books.map(book => [book.id, getIndexedChapterCount(index, book.id)]));
+  const getChapter = (book: string, chapter: number) => index.get(book)?.get(chapter) || null;
+
+  return {
+    translation,
+    language,
+    listBooks: () => books,
+    getChapterCount: book => chapterCounts.get(book) || 0,
+    getChapter,
+    getVerses: range => getRangeVerses(getChapter, range)
+  };
+};
+
+// CUVT is not shipped as a data file; it is CUVS converted to Traditional
+// characters. Chapters are converted the first time they are read and kept,
+// so revisiting a chapter costs the same as reading CUVS.
+const createTraditionalSource = (source: BibleSource, translation: string): BibleSource => {
+  const chapters = new Map<string, Chapter | null>();
+  const getChapter = (book: string, chapter: number) => {
+    const key = `${book}.${chapter}`;
+    let converted = chapters.get(key);
+    if (converted === undefined) {
+      const simplified = source.getChapter(book, chapter);
+      converted = simplified && {
+        chapter: simplified.chapter,
+        verses: simplified.verses.map(v => ({ verse: v.verse, text: toTraditional(v.text) }))
+      };
+      chapters.set(key, converted);
+    }
+    return converted;
+  };
+
+  return {
+    ...source,
+    translation,
+    language: 'zh-Hant',
+    getChapter,
+    getVerses: range => getRangeVerses(getChapter, range)
+  };
+};
+
+const isESVBible = (data: unknown): data is ESVBible =>
+  typeof data === 'object' && data !== null && !('verses' in data) && !('books' in data);
+
+const esvVerses = (data: unknown): IndexedVerse[] => {
+  const verses: IndexedVerse[] = [];
+  if (!isESVBible(data)) return verses;
+  Object.entries(data).forEach(([name, chapters]) => {
+    const book = findBook(name);
+    if (!book) return;
+    Object.entries(chapters).forEach(([chapter, chapterVerses]) => {
+      Object.entries(chapterVerses).forEach(([verse, text]) => {
+        verses.push({ book: book.id, chapter: parseInt(chapter), verse: parseInt(verse), text });
+      });
+    });
+  });
+  return verses;
+};
+
+const esvAdapter: BibleFormatAdapter = {
+  matches: isESVBible,
+  toVerses: esvVerses
+};
+
+// CUVS numbers its books in canonical order, which is sturdier than
+// matching on the Chinese names in the file
+const isCUVSBible = (data: unknown): data is CUVSBible =>
+  typeof data === 'object' && data !== null && Array.isArray((data as CUVSBible).verses);
+
+const cuvsVerses = (data: unknown): IndexedVerse[] => {
+  const verses: IndexedVerse[] = [];
+  if (!isCUVSBible(data)) return verses;
+  data.verses.forEach(v => {
+    const book = BOOKS[v.book - 1] || findBook(v.book_name);
+    if (book) {
+      verses.push({ book: book.id, chapter: v.chapter, verse: v.verse, text: v.text });
+    }
+  });
+  return verses;
+};
+
+const cuvsAdapter: BibleFormatAdapter = {
+  matches: isCUVSBible,
+  toVerses: cuvsVerses
+};
+
+const isBible = (data: unknown): data is Bible =>
+  typeof data === 'object' && data !== null && Array.isArray((data as Bible).books);
+
+const bibleVerses = (data: unknown): IndexedVerse[] => {
+  const verses: IndexedVerse[] = [];
+  if (!isBible(data)) return verses;
+  data.books.forEach(book => {
+    const id = findBook(book.name)?.id;
+    if (!id) return;
+    book.chapters.forEach(chapter => {
+      chapter.verses.forEach(verse => {
+        verses.push({ book: id, chapter: chapter.chapter, verse: verse.verse, text: verse.text });
+      });
+    });
+  });
+  return verses;
+};
+
+// Already-normalized Bible documents ({ translation, books: [...] })
+const bibleAdapter: BibleFormatAdapter = {
+  matches: isBible,
+  toVerses: bibleVerses
+};
+
+const adapters: BibleFormatAdapter[] = [bibleAdapter, cuvsAdapter, esvAdapter];
+
+export const createBibleSource = (data: unknown, translation: string): BibleSource => {
+  const adapter = adapters.find(a => a.matches(data));
+  if (!adapter) {
+    throw new Error(`Unrecognized Bible data format for ${translation}`);
+  }
+  const index = buildVerseIndex(adapter.toVerses(data));
+  const language = (data as Bible).language;
+  return createIndexedSource(
+    index,
+    translation,
+    language === 'en' || language === 'zh' || language === 'zh-Hant' ? language : getTranslationLanguage(translation)
+  );
+};
+
+const sourceCache = new Map<string, Promise<BibleSource>>();
+
+export const loadBibleSource = (translation: string): Promise<BibleSource> => {
+  const cached = sourceCache.get(translation);
+  if (cached) return cached;
+
+  let pending: Promise<BibleSource>;
+  if (translation === 'CUVT') {
+    pending = loadBibleSource('CUVS').then(source => createTraditionalSource(source, translation));
+  } else {
+    const data: Promise<unknown> = isBuiltInTranslation(translation)
+      ? fetch(`./data/${translation.toLowerCase()}.json`).then(response => response.json())
+      : loadTranslation(translation).then(bible => {
+        if (!bible) throw new Error(`Translation ${translation} is not installed`);
+        return bible;
+      });
+    pending = data.then(bibleData => createBibleSource(bibleData, translation));
+  }
+  // Drop failed loads so the next visit can retry
+  pending.catch(() => sourceCache.delete(translation));
+  sourceCache.set(translation, pending);
+  return pending;
+};
+
+// Forget a loaded translation, e.g. after an imported one is replaced or removed
+export const clearBibleSource = (translation: string) => {
+  sourceCache.delete(translation);
+};
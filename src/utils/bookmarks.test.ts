@@ -0,0 +1,20 @@
+import { addBookmark, deleteBookmark, findBookmark, getBookmarkedVerseKeys, renameBookmark, sanitizeBookmarks } from './bookmarks';
+
+test('adds, renames and removes bookmarks', () => {
+  const bookmarks = addBookmark(addBookmark([], 'Love', 'John', 3, 16), 'Shepherd', 'Ps', 23, 1);
+  expect(bookmarks.map(b => b.name)).toEqual(['Love', 'Shepherd']);
+  expect(findBookmark(bookmarks, 'Ps.23.1')?.name).toBe('Shepherd');
+  expect(findBookmark(bookmarks, 'Ps.23.2')).toBeUndefined();
+  expect(Array.from(getBookmarkedVerseKeys(bookmarks))).toEqual(['John.3.16', 'Ps.23.1']);
+
+  const [love] = bookmarks;
+  const renamed = renameBookmark(bookmarks, love.id, 'For God so loved');
+  expect(renamed[0]).toMatchObject({ id: love.id, name: 'For God so loved', book: 'John' });
+  expect(deleteBookmark(renamed, love.id).map(b => b.name)).toEqual(['Shepherd']);
+});
+
+test('sanitizes imported bookmarks', () => {
+  const valid = { id: 'a', name: 'Love', book: 'John', chapter: 3, verse: 16, createdAt: '2024-01-01' };
+  expect(sanitizeBookmarks({})).toEqual([]);
+  expect(sanitizeBookmarks([valid, { ...valid, book: 'Nope' }, { ...valid, verse: '16' }, null])).toEqual([valid]);
+});
@@ -0,0 +1,47 @@
+import { Bookmark } from '../types';
+import { getBook } from './books';
+import { createId } from './id';
+import { getVerseKey } from './reference';
+
+export const addBookmark = (
+  bookmarks: Bookmark[],
+  name: string,
+  book: string,
+  chapter: number,
+  verse: number
+): Bookmark[] => [
+  ...bookmarks,
+  { id: createId(), name, book, chapter, verse, createdAt: new Date().toISOString() }
+];
+
+export const renameBookmark = (bookmarks: Bookmark[], id: string, name: string): Bookmark[] =>
+  bookmarks.map(bookmark => (bookmark.id === id ? { ...bookmark, name } : bookmark));
+
+export const deleteBookmark = (bookmarks: Bookmark[], id: string): Bookmark[] =>
+  bookmarks.filter(bookmark => bookmark.id !== id);
+
+export const findBookmark = (bookmarks: Bookmark[], verseKey: string): Bookmark | undefined =>
+  bookmarks.find(bookmark => getVerseKey(bookmark.book, bookmark.chapter, bookmark.verse) === verseKey);
+
+// Canonical keys of every bookmarked verse, for marking them in the text
+export const getBookmarkedVerseKeys = (bookmarks: Bookmark[]): Set<string> =>
+  new Set(bookmarks.map(bookmark => getVerseKey(bookmark.book, bookmark.chapter, bookmark.verse)));
+
+// Saved plan-day scroll offsets are keyed by plan and day
+export const getPlanScrollKey = (planId: string, day: number): string => `${planId}:${day}`;
+
+// Keep only well-formed bookmarks from an imported backup
+export const sanitizeBookmarks = (data: unknown): Bookmark[] => {
+  if (!Array.isArray(data)) return [];
+
+  return data.filter((bookmark): bookmark is Bookmark =>
+    typeof bookmark === 'object' &&
+    bookmark !== null &&
+    typeof bookmark.id === 'string' &&
+    typeof bookmark.name === 'string' &&
+    typeof bookmark.createdAt === 'string' &&
+    !!getBook(bookmark.book) &&
+    Number.isInteger(bookmark.chapter) &&
+    Number.isInteger(bookmark.verse)
+  );
+};
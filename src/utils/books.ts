@@ -0,0 +1,134 @@
+import { toTraditional } from './chinese';
+
+export type BookLanguage = 'en' | 'zh' | 'zh-Hant';
+
+export interface BookInfo {
+  id: string;
+  order: number;
+  testament: 'OT' | 'NT';
+  chapters: number;
+  names: Record<BookLanguage, string>;
+  abbreviations: Record<BookLanguage, string[]>;
+  // Other spellings found in plans and translation data files
+  aliases: string[];
+}
+
+type BookRow = [
+  id: string,
+  chapters: number,
+  en: string,
+  enAbbreviations: string[],
+  zh: string,
+  zhAbbreviations: string[],
+  aliases?: string[]
+];
+
+// Canonical order with OSIS book identifiers
+const bookRows: BookRow[] = [
+  ['Gen', 50, 'Genesis', ['Ge', 'Gn'], '创世记', ['创']],
+  ['Exod', 40, 'Exodus', ['Ex', 'Exo'], '出埃及记', ['出'], ['出埃及']],
+  ['Lev', 27, 'Leviticus', ['Le', 'Lv'], '利未记', ['利']],
+  ['Num', 36, 'Numbers', ['Nu', 'Nm', 'Nb'], '民数记', ['民']],
+  ['Deut', 34, 'Deuteronomy', ['Dt', 'De'], '申命记', ['申']],
+  ['Josh', 24, 'Joshua', ['Jos', 'Jsh'], '约书亚记', ['书']],
+  ['Judg', 21, 'Judges', ['Jdg', 'Jg', 'Jdgs'], '士师记', ['士']],
+  ['Ruth', 4, 'Ruth', ['Ru', 'Rth'], '路得记', ['得']],
+  ['1Sam', 31, '1 Samuel', ['1 Sa', '1 Sm'], '撒母耳记上', ['撒上']],
+  ['2Sam', 24, '2 Samuel', ['2 Sa', '2 Sm'], '撒母耳记下', ['撒下']],
+  ['1Kgs', 22, '1 Kings', ['1 Ki', '1 Kin'], '列王纪上', ['王上']],
+  ['2Kgs', 25, '2 Kings', ['2 Ki', '2 Kin'], '列王纪下', ['王下']],
+  ['1Chr', 29, '1 Chronicles', ['1 Ch', '1 Chron'], '历代志上', ['代上']],
+  ['2Chr', 36, '2 Chronicles', ['2 Ch', '2 Chron'], '历代志下', ['代下']],
+  ['Ezra', 10, 'Ezra', ['Ezr'], '以斯拉记', ['拉']],
+  ['Neh', 13, 'Nehemiah', ['Ne'], '尼希米记', ['尼']],
+  ['Esth', 10, 'Esther', ['Es', 'Est'], '以斯帖记', ['斯']],
+  ['Job', 42, 'Job', ['Jb'], '约伯记', ['伯']],
+  ['Ps', 150, 'Psalms', ['Psa', 'Pss', 'Psm'], '诗篇', ['诗'], ['Psalm']],
+  ['Prov', 31, 'Proverbs', ['Pr', 'Prv', 'Pro'], '箴言', ['箴']],
+  ['Eccl', 12, 'Ecclesiastes', ['Ecc', 'Ec', 'Qoh'], '传道书', ['传']],
+  ['Song', 8, 'Song of Solomon', ['SoS', 'Song of Songs', 'Canticles'], '雅歌', ['歌'], ['SongOfSongs', 'SongOfSolomon']],
+  ['Isa', 66, 'Isaiah', ['Is'], '以赛亚书', ['赛']],
+  ['Jer', 52, 'Jeremiah', ['Je', 'Jr'], '耶利米书', ['耶']],
+  ['Lam', 5, 'Lamentations', ['La'], '耶利米哀歌', ['哀']],
+  ['Ezek', 48, 'Ezekiel', ['Eze', 'Ezk'], '以西结书', ['结']],
+  ['Dan', 12, 'Daniel', ['Da', 'Dn'], '但以理书', ['但']],
+  ['Hos', 14, 'Hosea', ['Ho'], '何西阿书', ['何']],
+  ['Joel', 3, 'Joel', ['Jl'], '约珥书', ['珥']],
+  ['Amos', 9, 'Amos', ['Am'], '阿摩司书', ['摩']],
+  ['Obad', 1, 'Obadiah', ['Ob', 'Oba'], '俄巴底亚书', ['俄']],
+  ['Jonah', 4, 'Jonah', ['Jon', 'Jnh'], '约拿书', ['拿']],
+  ['Mic', 7, 'Micah', ['Mc'], '弥迦书', ['弥']],
+  ['Nah', 3, 'Nahum', ['Na'], '那鸿书', ['鸿']],
+  ['Hab', 3, 'Habakkuk', ['Hb'], '哈巴谷书', ['哈']],
+  ['Zeph', 3, 'Zephaniah', ['Zep', 'Zp'], '西番雅书', ['番']],
+  ['Hag', 2, 'Haggai', ['Hg'], '哈该书', ['该']],
+  ['Zech', 14, 'Zechariah', ['Zec', 'Zc'], '撒迦利亚书', ['亚']],
+  ['Mal', 4, 'Malachi', ['Ml'], '玛拉基书', ['玛']],
+  ['Matt', 28, 'Matthew', ['Mt', 'Mat'], '马太福音', ['太']],
+  ['Mark', 16, 'Mark', ['Mk', 'Mrk', 'Mar'], '马可福音', ['可']],
+  ['Luke', 24, 'Luke', ['Lk', 'Luk'], '路加福音', ['路']],
+  ['John', 21, 'John', ['Jn', 'Jhn'], '约翰福音', ['约']],
+  ['Acts', 28, 'Acts', ['Ac'], '使徒行传', ['徒']],
+  ['Rom', 16, 'Romans', ['Ro', 'Rm'], '罗马书', ['罗']],
+  ['1Cor', 16, '1 Corinthians', ['1 Co'], '哥林多前书', ['林前'], ['歌林多前书']],
+  ['2Cor', 13, '2 Corinthians', ['2 Co'], '哥林多后书', ['林后'], ['歌林多后书']],
+  ['Gal', 6, 'Galatians', ['Ga'], '加拉太书', ['加']],
+  ['Eph', 6, 'Ephesians', ['Ephes'], '以弗所书', ['弗']],
+  ['Phil', 4, 'Philippians', ['Php', 'Pp'], '腓立比书', ['腓']],
+  ['Col', 4, 'Colossians', [], '歌罗西书', ['西']],
+  ['1Thess', 5, '1 Thessalonians', ['1 Th', '1 Thes'], '帖撒罗尼迦前书', ['帖前']],
+  ['2Thess', 3, '2 Thessalonians', ['2 Th', '2 Thes'], '帖撒罗尼迦后书', ['帖后']],
+  ['1Tim', 6, '1 Timothy', ['1 Ti'], '提摩太前书', ['提前']],
+  ['2Tim', 4, '2 Timothy', ['2 Ti'], '提摩太后书', ['提后']],
+  ['Titus', 3, 'Titus', ['Tit'], '提多书', ['多']],
+  ['Phlm', 1, 'Philemon', ['Philem', 'Phm'], '腓利门书', ['门']],
+  ['Heb', 13, 'Hebrews', [], '希伯来书', ['来']],
+  ['Jas', 5, 'James', ['Jm'], '雅各书', ['雅']],
+  ['1Pet', 5, '1 Peter', ['1 Pe', '1 Pt'], '彼得前书', ['彼前']],
+  ['2Pet', 3, '2 Peter', ['2 Pe', '2 Pt'], '彼得后书', ['彼后']],
+  ['1John', 5, '1 John', ['1 Jn', '1 Jhn'], '约翰一书', ['约一']],
+  ['2John', 1, '2 John', ['2 Jn', '2 Jhn'], '约翰二书', ['约二']],
+  ['3John', 1, '3 John', ['3 Jn', '3 Jhn'], '约翰三书', ['约三']],
+  ['Jude', 1, 'Jude', ['Jud', 'Jd'], '犹大书', ['犹']],
+  ['Rev', 22, 'Revelation', ['Re', 'Rv', 'Apocalypse'], '启示录', ['启'], ['Revelations']]
+];
+
+export const BOOKS: BookInfo[] = bookRows.map(([id, chapters, en, enAbbr, zh, zhAbbr, aliases = []], index) => ({
+  id,
+  order: index + 1,
+  testament: index < 39 ? 'OT' : 'NT',
+  chapters,
+  // Traditional names are derived rather than listed a second time
+  names: { en, zh, 'zh-Hant': toTraditional(zh) },
+  abbreviations: { en: [id, ...enAbbr], zh: zhAbbr, 'zh-Hant': zhAbbr.map(toTraditional) },
+  aliases
+}));
+
+// Case, spacing and punctuation never distinguish two books, so lookups
+// compare on a folded form ("1 Sam." and "1sam" are the same key)
+export const normalizeBookName = (name: string): string =>
+  name.toLowerCase().replace(/[\s.]/g, '');
+
+const bookLookup = new Map<string, BookInfo>();
+BOOKS.forEach(book => {
+  [book.id, ...Object.values(book.names), ...Object.values(book.abbreviations).flat(), ...book.aliases]
+    .forEach(name => {
+      const key = normalizeBookName(name);
+      if (!bookLookup.has(key)) bookLookup.set(key, book);
+    });
+});
+
+export const findBook = (name: string): BookInfo | undefined => bookLookup.get(normalizeBookName(name));
+
+const bookIndex = new Map(BOOKS.map((book, index) => [book.id, index]));
+
+export const getBook = (id: string): BookInfo | undefined => BOOKS[bookIndex.get(id) ?? -1];
+
+export const getBookName = (id: string, language: BookLanguage): string =>
+  getBook(id)?.names[language] || id;
+
+export const getBookAbbreviation = (id: string, language: BookLanguage): string => {
+  const book = getBook(id);
+  if (!book) return id;
+  return language === 'en' ? book.id : book.abbreviations[language][0];
+};
@@ -0,0 +1,50 @@
+import { applyCatchUp, EMPTY_SCHEDULE, getDeferredDays, getMissedDays, sanitizePlanSchedules } from './catchUp';
+import { getScheduleStatus } from './schedule';
+
+const readings = Array.from({ length: 30 }, (_, i) => (i === 6 ? [] : [`Psalm ${i + 1}`]));
+// Read days 1, 2 and 4; today is day 9, and day 7 is a rest day
+const completed = new Set([1, 2, 4]);
+
+test('finds missed reading days before today', () => {
+  expect(getMissedDays(completed, 9, readings, EMPTY_SCHEDULE)).toEqual([3, 5, 6, 8]);
+});
+
+test('spreads missed days over the next days', () => {
+  const schedule = applyCatchUp(EMPTY_SCHEDULE, 'spread', [3, 5, 6, 8], 9, 30, 2);
+  expect(schedule.extraDays).toEqual({ 9: [3, 5], 10: [6, 8] });
+  expect(getMissedDays(completed, 9, readings, schedule)).toEqual([]);
+
+  const deferred = getDeferredDays(schedule, completed, 9);
+  expect(getScheduleStatus(completed, 9, readings, deferred)).toEqual({ state: 'on-track', days: 0 });
+  // Day 10 passes without the reading, so its catch-up days are missed again
+  expect(getMissedDays(completed, 11, readings, schedule)).toEqual([3, 5, 6, 8, 9, 10]);
+});
+
+test('never spreads past the end of the plan', () => {
+  const schedule = applyCatchUp(EMPTY_SCHEDULE, 'spread', [3, 5, 6], 29, 30, 7);
+  expect(schedule.extraDays).toEqual({ 29: [3, 5], 30: [6] });
+});
+
+test('pushes the schedule back to the first missed day', () => {
+  const schedule = applyCatchUp(EMPTY_SCHEDULE, 'push-back', [3, 5, 6, 8], 9, 30);
+  expect(schedule.delay).toBe(6);
+  expect(applyCatchUp(schedule, 'push-back', [4], 5, 30).delay).toBe(7);
+});
+
+test('skips to today and keeps missed days to read later', () => {
+  const spread = applyCatchUp(EMPTY_SCHEDULE, 'spread', [3], 9, 30);
+  const schedule = applyCatchUp(spread, 'skip', [5, 3, 6, 8], 9, 30);
+  expect(schedule.readLater).toEqual([3, 5, 6, 8]);
+  expect(schedule.extraDays).toEqual({});
+
+  const deferred = getDeferredDays(schedule, new Set([1, 2, 4, 5]), 12);
+  expect(Array.from(deferred)).toEqual([3, 6, 8]);
+});
+
+test('keeps only well-formed schedules from a backup', () => {
+  expect(sanitizePlanSchedules({
+    gospels30: { delay: 2, extraDays: { 9: [3], x: [4], 10: ['5'] }, readLater: [6, -1] },
+    broken: 'nope'
+  })).toEqual({ gospels30: { delay: 2, extraDays: { 9: [3] }, readLater: [] } });
+  expect(sanitizePlanSchedules([])).toEqual({});
+});
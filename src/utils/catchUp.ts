@@ -0,0 +1,112 @@
+import { CatchUpStrategy, PlanSchedule } from '../types';
+
+export const EMPTY_SCHEDULE: PlanSchedule = { delay: 0, extraDays: {}, readLater: [] };
+
+export const CATCH_UP_STRATEGIES: CatchUpStrategy[] = ['spread', 'push-back', 'skip'];
+
+export const getPlanSchedule = (schedules: Record<string, PlanSchedule> | undefined, planId: string): PlanSchedule =>
+  schedules?.[planId] || EMPTY_SCHEDULE;
+
+/**
+ * Missed days that are still set to be caught up on: ones moved to today or
+ * later, and ones set aside to read later, until they are read.
+ */
+export const getDeferredDays = (
+  schedule: PlanSchedule,
+  completedDays: Set<number>,
+  scheduledDay: number
+): Set<number> => {
+  const deferred = new Set(schedule.readLater);
+  Object.entries(schedule.extraDays).forEach(([host, days]) => {
+    if (Number(host) >= scheduledDay) days.forEach(day => deferred.add(day));
+  });
+  completedDays.forEach(day => deferred.delete(day));
+  return deferred;
+};
+
+// Reading days before today's that haven't been read or caught up on
+export const getMissedDays = (
+  completedDays: Set<number>,
+  scheduledDay: number,
+  readings: string[][],
+  schedule: PlanSchedule
+): number[] => {
+  const deferred = getDeferredDays(schedule, completedDays, scheduledDay);
+  const missed: number[] = [];
+  for (let day = 1; day < scheduledDay; day++) {
+    if (!completedDays.has(day) && readings[day - 1]?.length > 0 && !deferred.has(day)) missed.push(day);
+  }
+  return missed;
+};
+
+export const getExtraDays = (schedule: PlanSchedule, day: number): number[] => schedule.extraDays[day] || [];
+
+export const getReadLaterDays = (schedule: PlanSchedule, completedDays: Set<number>): number[] =>
+  schedule.readLater.filter(day => !completedDays.has(day));
+
+// Take days out of wherever they were moved before
+const withoutDays = (extraDays: Record<number, number[]>, days: number[]): Record<number, number[]> => {
+  const result: Record<number, number[]> = {};
+  Object.entries(extraDays).forEach(([host, hosted]) => {
+    const kept = hosted.filter(day => !days.includes(day));
+    if (kept.length > 0) result[Number(host)] = kept;
+  });
+  return result;
+};
+
+/**
+ * Rebalance a plan's schedule for missed days:
+ * - 'spread' reads them along with the next `spreadDays` days,
+ * - 'push-back' moves the whole schedule back to the first missed day,
+ * - 'skip' sets them aside in the read-later list and carries on from today.
+ */
+export const applyCatchUp = (
+  schedule: PlanSchedule,
+  strategy: CatchUpStrategy,
+  missed: number[],
+  scheduledDay: number,
+  totalDays: number,
+  spreadDays: number = 7
+): PlanSchedule => {
+  if (missed.length === 0) return schedule;
+
+  if (strategy === 'push-back') {
+    return { ...schedule, delay: schedule.delay + scheduledDay - missed[0] };
+  }
+
+  const readLater = schedule.readLater.filter(day => !missed.includes(day));
+  const extraDays = withoutDays(schedule.extraDays, missed);
+  if (strategy === 'skip') {
+    return { ...schedule, extraDays, readLater: [...readLater, ...missed].sort((a, b) => a - b) };
+  }
+
+  const hosts = Math.max(1, Math.min(spreadDays, totalDays - scheduledDay + 1));
+  missed.forEach((day, index) => {
+    const host = scheduledDay + Math.floor((index * hosts) / missed.length);
+    extraDays[host] = [...(extraDays[host] || []), day];
+  });
+  return { ...schedule, extraDays, readLater };
+};
+
+const isDayList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(day => Number.isInteger(day) && day > 0);
+
+// Keep only well-formed schedules from an imported backup
+export const sanitizePlanSchedules = (data: unknown): Record<string, PlanSchedule> => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return {};
+
+  const schedules: Record<string, PlanSchedule> = {};
+  Object.entries(data).forEach(([planId, schedule]) => {
+    if (typeof schedule !== 'object' || schedule === null) return;
+    const extraDays: Record<number, number[]> = {};
+    Object.entries(schedule.extraDays || {}).forEach(([host, days]) => {
+      if (Number(host) > 0 && isDayList(days)) extraDays[Number(host)] = days;
+    });
+    schedules[planId] = {
+      delay: Number.isInteger(schedule.delay) ? schedule.delay : 0,
+      extraDays,
+      readLater: isDayList(schedule.readLater) ? schedule.readLater : []
+    };
+  });
+  return schedules;
+};
@@ -0,0 +1,32 @@
+import { toTraditional } from './chinese';
+import { getUiText } from './uiText';
+
+describe('toTraditional', () => {
+  test('converts characters one to one', () => {
+    expect(toTraditional('神爱世人')).toBe('神愛世人');
+    expect(toTraditional('约翰福音')).toBe('約翰福音');
+  });
+
+  test('uses phrases for characters with several Traditional forms', () => {
+    expect(toTraditional('以后')).toBe('以後');
+    expect(toTraditional('皇后')).toBe('皇后');
+    expect(toTraditional('头发')).toBe('頭髮');
+    expect(toTraditional('发光')).toBe('發光');
+    expect(toTraditional('干旱')).toBe('乾旱');
+  });
+
+  test('leaves other text alone', () => {
+    expect(toTraditional('John 3:16 ，。')).toBe('John 3:16 ，。');
+  });
+});
+
+describe('getUiText', () => {
+  const uiText = { en: { title: 'Settings' }, zh: { title: '设置' } };
+
+  test('derives Traditional strings from the Simplified ones', () => {
+    expect(getUiText(uiText, 'en').title).toBe('Settings');
+    expect(getUiText(uiText, 'zh').title).toBe('设置');
+    expect(getUiText(uiText, 'zh-Hant').title).toBe('設置');
+    expect(getUiText(uiText)).toBe(uiText.en);
+  });
+});
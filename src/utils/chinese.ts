@@ -0,0 +1,48 @@
+import table from '../data/zhHant.json';
+
+// Simplified → Traditional conversion with a table bundled in the app, so
+// no conversion service is needed and it works offline. Phrases resolve
+// characters with more than one Traditional form (后 → 後 but 皇后 → 皇后,
+// 发 → 發 but 头发 → 頭髮) before falling back to single characters.
+const characters: Record<string, string> = table.characters;
+const phrases: Record<string, string> = table.phrases;
+const maxPhraseLength = Object.keys(phrases).reduce((max, phrase) => Math.max(max, phrase.length), 0);
+
+export const toTraditional = (text: string): string => {
+  let result = '';
+  let i = 0;
+  while (i < text.length) {
+    let matched = false;
+    // Longest phrase starting here wins
+    for (let length = Math.min(maxPhraseLength, text.length - i); length > 1; length--) {
+      const phrase = phrases[text.substr(i, length)];
+      if (phrase !== undefined) {
+        result += phrase;
+        i += length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      // Step over surrogate pairs as one character
+      const code = text.charCodeAt(i);
+      const char = code >= 0xd800 && code <= 0xdbff ? text.substr(i, 2) : text[i];
+      result += characters[char] ?? char;
+      i += char.length;
+    }
+  }
+  return result;
+};
+
+const convertedStrings = new Map<string, string>();
+
+// Memoized conversion for short strings that are shown over and over,
+// such as UI labels and book names; Bible text is cached per chapter instead
+export const toTraditionalCached = (text: string): string => {
+  let converted = convertedStrings.get(text);
+  if (converted === undefined) {
+    converted = toTraditional(text);
+    convertedStrings.set(text, converted);
+  }
+  return converted;
+};
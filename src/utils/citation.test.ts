@@ -0,0 +1,46 @@
+import { formatCitation, getPassageRanges } from './citation';
+
+const verse = (book: string, chapter: number, verse: number, text: string) => ({ book, chapter, verse, text });
+
+const john = [
+  verse('John', 3, 16, 'For God so loved the world.'),
+  verse('John', 3, 17, 'For God did not send his Son.')
+];
+
+test('groups verses into ranges', () => {
+  const ranges = getPassageRanges([
+    verse('Gen', 1, 31, ''),
+    verse('Gen', 2, 1, ''),
+    verse('Gen', 2, 3, ''),
+    verse('Matt', 1, 1, '')
+  ]);
+  expect(ranges).toEqual([
+    { book: 'Gen', startChapter: 1, startVerse: 31, endChapter: 2, endVerse: 1 },
+    { book: 'Gen', startChapter: 2, startVerse: 3, endChapter: 2, endVerse: 3 },
+    { book: 'Matt', startChapter: 1, startVerse: 1, endChapter: 1, endVerse: 1 }
+  ]);
+});
+
+test('formats inline citations with the translation', () => {
+  expect(formatCitation(john, 'ESV', 'en')).toEqual({
+    reference: 'John 3:16-17',
+    text: '“For God so loved the world. For God did not send his Son.” (John 3:16-17 ESV)'
+  });
+  expect(formatCitation(john, 'ESV', 'en', { style: 'inline', verseNumbers: true }).text)
+    .toBe('“16 For God so loved the world. 17 For God did not send his Son.” (John 3:16-17 ESV)');
+
+  const chinese = [verse('John', 3, 16, '神爱世人，'), verse('John', 3, 17, '因为神差他的儿子。')];
+  expect(formatCitation(chinese, 'CUVS', 'zh').text).toBe('“神爱世人，因为神差他的儿子。” (约翰福音 3:16-17 CUVS)');
+});
+
+test('formats block and Markdown quotes', () => {
+  expect(formatCitation(john, 'ESV', 'en', { style: 'block', verseNumbers: true }).text).toBe(
+    '16 For God so loved the world.\n17 For God did not send his Son.\n— John 3:16-17 (ESV)'
+  );
+  expect(formatCitation(john, 'ESV', 'en', { style: 'markdown', verseNumbers: true }).text).toBe(
+    '> **16** For God so loved the world.\n> **17** For God did not send his Son.\n>\n> — John 3:16-17 (ESV)'
+  );
+  expect(formatCitation(john.slice(0, 1), 'NIV', 'en', { style: 'markdown', verseNumbers: false }).text).toBe(
+    '> For God so loved the world.\n>\n> — John 3:16 (NIV)'
+  );
+});
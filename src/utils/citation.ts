@@ -0,0 +1,63 @@
+import { CitationSettings, PassageVerse, Translation, VerseRange } from '../types';
+import { BookLanguage } from './books';
+import { formatReference } from './reference';
+
+export const DEFAULT_CITATION: CitationSettings = { style: 'inline', verseNumbers: false };
+
+export interface Citation {
+  // e.g. "John 3:16-17"
+  reference: string;
+  // The verses formatted in the chosen style, ending with reference and translation
+  text: string;
+}
+
+// Ranges covering verses in reading order. A new range starts at a gap or a
+// new book; running on into the next chapter continues the range.
+export const getPassageRanges = (verses: PassageVerse[]): VerseRange[] => {
+  const ranges: VerseRange[] = [];
+  verses.forEach(v => {
+    const last = ranges[ranges.length - 1];
+    const follows = !!last && last.book === v.book && (
+      (v.chapter === last.endChapter && v.verse === (last.endVerse ?? 0) + 1) ||
+      (v.chapter === last.endChapter + 1 && v.verse === 1)
+    );
+    if (follows) {
+      last.endChapter = v.chapter;
+      last.endVerse = v.verse;
+    } else {
+      ranges.push({ book: v.book, startChapter: v.chapter, startVerse: v.verse, endChapter: v.chapter, endVerse: v.verse });
+    }
+  });
+  return ranges;
+};
+
+/**
+ * Format verses for copying or sharing:
+ * - inline: “For God so loved the world…” (John 3:16 ESV)
+ * - block: one verse per line, then "— John 3:16 (ESV)"
+ * - markdown: the block form as a Markdown quote
+ */
+export const formatCitation = (
+  verses: PassageVerse[],
+  translation: Translation,
+  language: BookLanguage,
+  { style, verseNumbers }: CitationSettings = DEFAULT_CITATION
+): Citation => {
+  const reference = formatReference(getPassageRanges(verses), language);
+  const numbered = (v: PassageVerse, number: string) => (verseNumbers ? `${number} ${v.text}` : v.text);
+
+  if (style === 'markdown') {
+    const lines = verses.map(v => `> ${numbered(v, `**${v.verse}**`)}`);
+    return { reference, text: [...lines, '>', `> — ${reference} (${translation})`].join('\n') };
+  }
+
+  if (style === 'block') {
+    const lines = verses.map(v => numbered(v, `${v.verse}`));
+    return { reference, text: [...lines, `— ${reference} (${translation})`].join('\n') };
+  }
+
+  // Chinese text runs on without spaces unless verse numbers separate it
+  const separator = language === 'en' || verseNumbers ? ' ' : '';
+  const text = verses.map(v => numbered(v, `${v.verse}`)).join(separator);
+  return { reference, text: `“${text}” (${reference} ${translation})` };
+};
@@ -0,0 +1,2 @@
+// A CSV field, quoted when it holds a quote, comma or line break
+export const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
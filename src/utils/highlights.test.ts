@@ -0,0 +1,45 @@
+import { applyHighlight, groupHighlights, sanitizeHighlights } from './highlights';
+
+test('applies and clears highlights by verse key', () => {
+  const first = applyHighlight({}, ['John.3.16', 'John.3.17'], 'yellow');
+  expect(Object.keys(first)).toEqual(['John.3.16', 'John.3.17']);
+
+  const recolored = applyHighlight(first, ['John.3.16'], 'blue');
+  expect(recolored['John.3.16'].color).toBe('blue');
+  expect(recolored['John.3.16'].createdAt).toBe(first['John.3.16'].createdAt);
+
+  const cleared = applyHighlight(recolored, ['John.3.17'], null);
+  expect(Object.keys(cleared)).toEqual(['John.3.16']);
+  expect(first['John.3.17']).toBeDefined();
+});
+
+test('groups highlights in canonical order', () => {
+  const createdAt = '2024-01-01T00:00:00.000Z';
+  const highlights = {
+    'Rom.8.28': { color: 'green' as const, createdAt },
+    'Gen.1.1': { color: 'yellow' as const, createdAt },
+    'John.3.16': { color: 'yellow' as const, createdAt },
+    'Gen.1.10': { color: 'green' as const, createdAt },
+    'Gen.1.2': { color: 'green' as const, createdAt }
+  };
+
+  const byBook = groupHighlights(highlights, 'book');
+  expect(byBook.map(group => group.id)).toEqual(['Gen', 'John', 'Rom']);
+  expect(byBook[0].entries.map(entry => entry.verse)).toEqual([1, 2, 10]);
+
+  const byColor = groupHighlights(highlights, 'color');
+  expect(byColor.map(group => group.id)).toEqual(['yellow', 'green']);
+  expect(byColor[1].entries.map(entry => entry.key)).toEqual(['Gen.1.2', 'Gen.1.10', 'Rom.8.28']);
+});
+
+test('sanitizes imported highlights', () => {
+  expect(sanitizeHighlights(null)).toEqual({});
+  const highlights = sanitizeHighlights({
+    'John.3.16': { color: 'pink', createdAt: '2024-01-01T00:00:00.000Z' },
+    'Nope.1.1': { color: 'pink' },
+    'John.3.17': { color: 'orange' },
+    'Ps.23.1': { color: 'purple' }
+  });
+  expect(Object.keys(highlights)).toEqual(['John.3.16', 'Ps.23.1']);
+  expect(highlights['Ps.23.1'].createdAt).toEqual(expect.any(String));
+});
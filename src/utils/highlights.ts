@@ -0,0 +1,81 @@
+import { Highlight, HighlightColor } from '../types';
+import { getBook } from './books';
+import { parseVerseKey } from './reference';
+
+export const HIGHLIGHT_COLORS: HighlightColor[] = ['yellow', 'green', 'blue', 'pink', 'purple'];
+
+export interface HighlightEntry {
+  key: string;
+  book: string;
+  chapter: number;
+  verse: number;
+  highlight: Highlight;
+}
+
+export interface HighlightGroup {
+  // Book id or color, depending on how the list is grouped
+  id: string;
+  entries: HighlightEntry[];
+}
+
+// Set or clear (color = null) the highlight on several verses at once
+export const applyHighlight = (
+  highlights: Record<string, Highlight>,
+  keys: string[],
+  color: HighlightColor | null
+): Record<string, Highlight> => {
+  const next = { ...highlights };
+  const createdAt = new Date().toISOString();
+  keys.forEach(key => {
+    if (color) {
+      next[key] = { color, createdAt: next[key]?.createdAt || createdAt };
+    } else {
+      delete next[key];
+    }
+  });
+  return next;
+};
+
+// Highlights in canonical verse order
+export const listHighlights = (highlights: Record<string, Highlight>): HighlightEntry[] => {
+  const entries: HighlightEntry[] = [];
+  Object.entries(highlights).forEach(([key, highlight]) => {
+    const verse = parseVerseKey(key);
+    if (verse) entries.push({ key, ...verse, highlight });
+  });
+  const order = (entry: HighlightEntry) => getBook(entry.book)?.order || 0;
+  return entries.sort((a, b) => order(a) - order(b) || a.chapter - b.chapter || a.verse - b.verse);
+};
+
+export const groupHighlights = (
+  highlights: Record<string, Highlight>,
+  by: 'book' | 'color'
+): HighlightGroup[] => {
+  const groups = new Map<string, HighlightEntry[]>();
+  if (by === 'color') {
+    HIGHLIGHT_COLORS.forEach(color => groups.set(color, []));
+  }
+  listHighlights(highlights).forEach(entry => {
+    const id = by === 'book' ? entry.book : entry.highlight.color;
+    groups.set(id, [...(groups.get(id) || []), entry]);
+  });
+  return Array.from(groups.entries())
+    .filter(([, entries]) => entries.length > 0)
+    .map(([id, entries]) => ({ id, entries }));
+};
+
+// Keep only well-formed highlights from an imported backup
+export const sanitizeHighlights = (data: unknown): Record<string, Highlight> => {
+  const highlights: Record<string, Highlight> = {};
+  if (typeof data !== 'object' || data === null) return highlights;
+
+  Object.entries(data as Record<string, Partial<Highlight>>).forEach(([key, value]) => {
+    if (parseVerseKey(key) && value && HIGHLIGHT_COLORS.includes(value.color as HighlightColor)) {
+      highlights[key] = {
+        color: value.color as HighlightColor,
+        createdAt: typeof value.createdAt === 'string' ? value.createdAt : new Date().toISOString()
+      };
+    }
+  });
+  return highlights;
+};
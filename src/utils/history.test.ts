@@ -0,0 +1,44 @@
+import { getCalendarWeeks, getHeatLevel, getHistoryEntries, groupEntriesByDate } from './history';
+
+test('lists readings from every plan and past run by date', () => {
+  const entries = getHistoryEntries({
+    psalms: {
+      planId: 'psalms',
+      status: 'active',
+      currentDay: 4,
+      completedDays: [1, 2, 3],
+      completionDates: { 1: '2024-03-01', 2: '2024-03-03', 3: '2024-03-03' },
+      startDate: '2024-03-01',
+      pastRuns: [{ startDate: '2024-01-01', endedAt: '2024-02-01', completedDays: [1], completionDates: { 1: '2024-01-05' } }]
+    },
+    gospels: {
+      planId: 'gospels',
+      status: 'archived',
+      currentDay: 2,
+      completedDays: [1],
+      completionDates: { 1: '2024-03-03' },
+      startDate: '2024-03-02'
+    }
+  });
+
+  expect(entries).toEqual([
+    { planId: 'psalms', day: 1, date: '2024-01-05', pastRun: true },
+    { planId: 'psalms', day: 1, date: '2024-03-01', pastRun: false },
+    { planId: 'gospels', day: 1, date: '2024-03-03', pastRun: false },
+    { planId: 'psalms', day: 2, date: '2024-03-03', pastRun: false },
+    { planId: 'psalms', day: 3, date: '2024-03-03', pastRun: false }
+  ]);
+  // A catch-up date counts every day completed on it
+  expect(groupEntriesByDate(entries)['2024-03-03']).toHaveLength(3);
+  expect(getHeatLevel(3)).toBe(3);
+  expect(getHeatLevel(9)).toBe(4);
+});
+
+test('lays out calendar weeks from Sunday', () => {
+  // March 1, 2024 was a Friday and March 31 a Sunday
+  const weeks = getCalendarWeeks(new Date(2024, 2, 1), new Date(2024, 2, 31));
+  expect(weeks).toHaveLength(6);
+  expect(weeks[0]).toEqual([null, null, null, null, null, '2024-03-01', '2024-03-02']);
+  expect(weeks[5]).toEqual(['2024-03-31', null, null, null, null, null, null]);
+  expect(getCalendarWeeks(new Date(2024, 0, 1), new Date(2024, 11, 31))).toHaveLength(53);
+});
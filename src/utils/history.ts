@@ -0,0 +1,57 @@
+import { eachDayOfInterval, endOfWeek, format, startOfWeek } from 'date-fns';
+import { UserProgress } from '../types';
+
+// One plan day and the date it was read on
+export interface HistoryEntry {
+  planId: string;
+  day: number;
+  date: string;
+  // Read in an earlier run of a restarted plan, so kept only for the record
+  pastRun: boolean;
+}
+
+// Darkest heatmap shade, reached by completing this many days on one date
+export const MAX_HEAT_LEVEL = 4;
+
+// Every dated reading in every plan, oldest first
+export const getHistoryEntries = (planProgress: Record<string, UserProgress> = {}): HistoryEntry[] => {
+  const entries: HistoryEntry[] = [];
+  Object.values(planProgress).forEach(progress => {
+    [progress, ...(progress.pastRuns || [])].forEach(run => {
+      Object.entries(run.completionDates).forEach(([day, date]) => {
+        entries.push({ planId: progress.planId, day: Number(day), date, pastRun: run !== progress });
+      });
+    });
+  });
+  return entries.sort((a, b) =>
+    a.date.localeCompare(b.date) || a.planId.localeCompare(b.planId) || a.day - b.day
+  );
+};
+
+// Entries by the date they were read on; catch-up dates hold several days
+export const groupEntriesByDate = (entries: HistoryEntry[]): Record<string, HistoryEntry[]> => {
+  const groups: Record<string, HistoryEntry[]> = {};
+  entries.forEach(entry => {
+    groups[entry.date] = [...(groups[entry.date] || []), entry];
+  });
+  return groups;
+};
+
+export const getHeatLevel = (count: number): number => Math.min(Math.max(count, 0), MAX_HEAT_LEVEL);
+
+/**
+ * Calendar weeks from `start` to `end`, Sunday first, as yyyy-MM-dd dates.
+ * Days of the first and last weeks outside the range are null, so a year
+ * lays out as heatmap columns and a month as calendar rows.
+ */
+export const getCalendarWeeks = (start: Date, end: Date): (string | null)[][] => {
+  const first = format(start, 'yyyy-MM-dd');
+  const last = format(end, 'yyyy-MM-dd');
+  const weeks: (string | null)[][] = [];
+  eachDayOfInterval({ start: startOfWeek(start), end: endOfWeek(end) }).forEach((date, index) => {
+    if (index % 7 === 0) weeks.push([]);
+    const day = format(date, 'yyyy-MM-dd');
+    weeks[weeks.length - 1].push(day < first || day > last ? null : day);
+  });
+  return weeks;
+};
@@ -0,0 +1,2 @@
+// Short unique id for user data such as notes and bookmarks
+export const createId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,96 @@
+import {
+  HIDING_STEPS,
+  addMemoryVerse,
+  findMemoryVerse,
+  getDueVerses,
+  getFirstLetterHints,
+  getHiddenWords,
+  getTypingQuality,
+  practiceHistoryToCsv,
+  recordPractice,
+  reviewMemoryVerse,
+  sanitizeMemoryVerses,
+  scoreTyping,
+  tokenizeVerse
+} from './memory';
+import { getVerseRange } from './reference';
+
+const english = 'For God so loved the world, that he gave his only Son';
+const chinese = '神爱世人，甚至将他的独生子赐给他们';
+const range = getVerseRange('John', 3, 16);
+const [verse] = addMemoryVerse([], range, 'ESV', english, '2026-01-01');
+
+test('tokenizes English by word and Chinese by character', () => {
+  expect(tokenizeVerse("Jesus wept, don't fear").map(t => t.text)).toEqual(['Jesus', ' ', 'wept', ', ', "don't", ' ', 'fear']);
+  const tokens = tokenizeVerse('神爱世人，甚至');
+  expect(tokens.map(t => t.text)).toEqual(['神', '爱', '世', '人', '，', '甚', '至']);
+  expect(tokens.filter(t => t.word)).toHaveLength(6);
+});
+
+test('gives first-letter hints', () => {
+  expect(getFirstLetterHints(tokenizeVerse(english))).toBe('F G s l t w, t h g h o S');
+  expect(getFirstLetterHints(tokenizeVerse(chinese))).toBe(`神＿＿＿，甚${'＿'.repeat(11)}`);
+});
+
+test('hides more words at each step, keeping those already hidden', () => {
+  const tokens = tokenizeVerse(english);
+  const wordCount = tokens.filter(t => t.word).length;
+  expect(getHiddenWords(tokens, 0).size).toBe(0);
+  let previous = new Set<number>();
+  for (let step = 1; step <= HIDING_STEPS; step++) {
+    const hidden = getHiddenWords(tokens, step);
+    previous.forEach(i => expect(hidden.has(i)).toBe(true));
+    hidden.forEach(i => expect(tokens[i].word).toBe(true));
+    previous = hidden;
+  }
+  expect(previous.size).toBe(wordCount);
+  expect(getHiddenWords(tokens, 2)).toEqual(getHiddenWords(tokens, 2));
+});
+
+test('scores typed verses ignoring case and punctuation', () => {
+  expect(scoreTyping(english, 'for god so loved the world that he gave his only son')).toBe(1);
+  expect(scoreTyping(english, 'For God so loved the world')).toBeCloseTo(6 / 12);
+  expect(scoreTyping(chinese, '神爱世人甚至将他的独生子赐给他们')).toBe(1);
+  expect(scoreTyping(chinese, '神爱世人')).toBeCloseTo(4 / 16);
+  expect(getTypingQuality(1)).toBe(5);
+  expect(getTypingQuality(0.8)).toBe(3);
+  expect(getTypingQuality(0)).toBe(0);
+});
+
+test('schedules reviews with SM-2 intervals', () => {
+  const first = reviewMemoryVerse(verse, 5, '2026-01-01');
+  expect(first).toMatchObject({ repetitions: 1, interval: 1, due: '2026-01-02' });
+  expect(first.ease).toBeCloseTo(2.6);
+
+  const second = reviewMemoryVerse(first, 4, '2026-01-02');
+  expect(second).toMatchObject({ repetitions: 2, interval: 6, due: '2026-01-08' });
+
+  const third = reviewMemoryVerse(second, 4, '2026-01-08');
+  expect(third).toMatchObject({ repetitions: 3, interval: 16, due: '2026-01-24' });
+
+  // Forgetting starts over but keeps the lower ease
+  const lapse = reviewMemoryVerse(third, 1, '2026-01-24');
+  expect(lapse).toMatchObject({ repetitions: 0, interval: 1, due: '2026-01-25' });
+  expect(lapse.ease).toBeLessThan(third.ease);
+  expect(reviewMemoryVerse({ ...lapse, ease: 1.3 }, 0, '2026-01-25').ease).toBe(1.3);
+});
+
+test('finds due verses, oldest first', () => {
+  const later = { ...verse, id: 'later', due: '2026-02-01' };
+  const overdue = { ...verse, id: 'overdue', due: '2025-12-01' };
+  expect(getDueVerses([verse, later, overdue], '2026-01-01').map(v => v.id)).toEqual(['overdue', verse.id]);
+  expect(findMemoryVerse([verse], range, 'ESV')).toBe(verse);
+  expect(findMemoryVerse([verse], range, 'CUVS')).toBeUndefined();
+});
+
+test('exports practice history as CSV', () => {
+  const history = recordPractice([], verse, 'typing', 4);
+  const [header, row] = practiceHistoryToCsv(history).split('\n');
+  expect(header).toBe('date,reference,translation,mode,quality');
+  expect(row).toMatch(/^[\d-]+T[\d:.]+Z,John 3:16,ESV,typing,4$/);
+});
+
+test('drops malformed memory verses on import', () => {
+  expect(sanitizeMemoryVerses([verse, { ...verse, due: 3 }, { ...verse, range: { book: 'Nope' } }, null])).toEqual([verse]);
+  expect(sanitizeMemoryVerses('nope')).toEqual([]);
+});
@@ -0,0 +1,224 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { MemoryVerse, PracticeMode, PracticeRecord, Translation, VerseRange } from '../types';
+import { getBook } from './books';
+import { csvField } from './csv';
+import { createId } from './id';
+import { formatReference } from './reference';
+import { foldText, hanCharacter } from './search';
+
+export const PRACTICE_MODES: PracticeMode[] = ['hints', 'hiding', 'typing'];
+
+// Progressive hiding covers a quarter more of the words at each step
+export const HIDING_STEPS = 4;
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Older practice records are dropped so settings stay small
+const MAX_HISTORY = 1000;
+
+export interface MemoryToken {
+  text: string;
+  // Words are practiced; spaces and punctuation are always shown
+  word: boolean;
+}
+
+const wordCharacter = /[\p{L}\p{N}'’]/u;
+const clauseEnd = /[，。、；：？！,.;:?!]/;
+
+/**
+ * Split verse text into words and the text between them. Chinese has no
+ * spaces, so every Han character is a word of its own.
+ */
+export const tokenizeVerse = (text: string): MemoryToken[] => {
+  const tokens: (MemoryToken & { han?: boolean })[] = [];
+  Array.from(text).forEach(char => {
+    const han = hanCharacter.test(char);
+    const word = han || wordCharacter.test(char);
+    const last = tokens[tokens.length - 1];
+    if (last && !han && !last.han && last.word === word) {
+      last.text += char;
+    } else {
+      tokens.push({ text: char, word, han });
+    }
+  });
+  return tokens.map(({ text, word }) => ({ text, word }));
+};
+
+/**
+ * First-letter hints: English words shrink to their first letter, Chinese
+ * clauses keep their first character and blank out the rest.
+ */
+export const getFirstLetterHints = (tokens: MemoryToken[]): string => {
+  let clauseStart = true;
+  return tokens.map(token => {
+    if (!token.word) {
+      if (clauseEnd.test(token.text)) clauseStart = true;
+      return token.text;
+    }
+    if (hanCharacter.test(token.text)) {
+      const hint = clauseStart ? token.text : '＿';
+      clauseStart = false;
+      return hint;
+    }
+    return Array.from(token.text)[0];
+  }).join('');
+};
+
+// Small seeded generator, so the same words disappear first every session
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const hashText = (text: string) => Array.from(text).reduce((hash, char) => (hash * 31 + char.codePointAt(0)!) | 0, 7);
+
+/**
+ * Indexes of the word tokens hidden at a step from 0 (none) to HIDING_STEPS
+ * (all). Each step hides the words of the step before, plus some more.
+ */
+export const getHiddenWords = (tokens: MemoryToken[], step: number): Set<number> => {
+  const words = tokens.map((token, i) => (token.word ? i : -1)).filter(i => i >= 0);
+  const random = seededRandom(hashText(tokens.map(token => token.text).join('')));
+  for (let i = words.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [words[i], words[j]] = [words[j], words[i]];
+  }
+  const count = Math.ceil((words.length * Math.min(Math.max(step, 0), HIDING_STEPS)) / HIDING_STEPS);
+  return new Set(words.slice(0, count));
+};
+
+const comparableWords = (text: string) =>
+  tokenizeVerse(foldText(text)).filter(token => token.word).map(token => token.text);
+
+/**
+ * How closely typed text matches the verse, from 0 to 1: the longest run of
+ * words they share in order, against the longer of the two. Case and
+ * punctuation don't count.
+ */
+export const scoreTyping = (expected: string, typed: string): number => {
+  const a = comparableWords(expected);
+  const b = comparableWords(typed);
+  if (a.length === 0) return b.length === 0 ? 1 : 0;
+
+  let previous = new Array(b.length + 1).fill(0);
+  a.forEach(word => {
+    const row = [0];
+    b.forEach((other, j) => {
+      row.push(word === other ? previous[j] + 1 : Math.max(previous[j + 1], row[j]));
+    });
+    previous = row;
+  });
+  return previous[b.length] / Math.max(a.length, b.length);
+};
+
+// SM-2 grade for a typing score
+export const getTypingQuality = (score: number): number => {
+  if (score >= 0.98) return 5;
+  if (score >= 0.9) return 4;
+  if (score >= 0.75) return 3;
+  if (score >= 0.5) return 2;
+  return score > 0 ? 1 : 0;
+};
+
+/**
+ * Schedule the next review with SM-2. A grade below 3 starts the verse over
+ * tomorrow; otherwise the interval grows from 1 to 6 days and then by the
+ * ease factor, which itself moves with each grade.
+ */
+export const reviewMemoryVerse = (verse: MemoryVerse, quality: number, today: string): MemoryVerse => {
+  const q = Math.min(Math.max(Math.round(quality), 0), 5);
+  const ease = Math.max(MIN_EASE, verse.ease + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+
+  let repetitions = 0;
+  let interval = 1;
+  if (q >= 3) {
+    repetitions = verse.repetitions + 1;
+    if (repetitions === 2) interval = 6;
+    else if (repetitions > 2) interval = Math.round(verse.interval * verse.ease);
+  }
+
+  return { ...verse, ease, interval, repetitions, due: format(addDays(parseISO(today), interval), 'yyyy-MM-dd') };
+};
+
+// New verses are due straight away
+export const addMemoryVerse = (
+  deck: MemoryVerse[],
+  range: VerseRange,
+  translation: Translation,
+  text: string,
+  today: string
+): MemoryVerse[] => [
+  ...deck,
+  {
+    id: createId(),
+    range,
+    translation,
+    text,
+    addedAt: new Date().toISOString(),
+    ease: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    due: today
+  }
+];
+
+export const removeMemoryVerse = (deck: MemoryVerse[], id: string): MemoryVerse[] => deck.filter(verse => verse.id !== id);
+
+const sameRange = (a: VerseRange, b: VerseRange) =>
+  a.book === b.book && a.startChapter === b.startChapter && a.startVerse === b.startVerse &&
+  a.endChapter === b.endChapter && a.endVerse === b.endVerse;
+
+export const findMemoryVerse = (deck: MemoryVerse[], range: VerseRange, translation: Translation): MemoryVerse | undefined =>
+  deck.find(verse => verse.translation === translation && sameRange(verse.range, range));
+
+// Due and overdue verses, the longest waiting first
+export const getDueVerses = (deck: MemoryVerse[], today: string): MemoryVerse[] =>
+  deck.filter(verse => verse.due <= today).sort((a, b) => a.due.localeCompare(b.due));
+
+export const recordPractice = (
+  history: PracticeRecord[],
+  verse: MemoryVerse,
+  mode: PracticeMode,
+  quality: number
+): PracticeRecord[] => [
+  ...history,
+  { verseId: verse.id, range: verse.range, translation: verse.translation, mode, quality, date: new Date().toISOString() }
+].slice(-MAX_HISTORY);
+
+export const practiceHistoryToCsv = (history: PracticeRecord[]): string => {
+  const rows = history.map(record => [
+    record.date,
+    formatReference([record.range], 'en'),
+    record.translation,
+    record.mode,
+    String(record.quality)
+  ].map(csvField).join(','));
+  return ['date,reference,translation,mode,quality', ...rows].join('\n');
+};
+
+const isRange = (range: VerseRange | undefined) =>
+  !!range && !!getBook(range.book) && typeof range.startChapter === 'number' && typeof range.endChapter === 'number';
+
+// Keep only well-formed deck entries from an imported backup
+export const sanitizeMemoryVerses = (data: unknown): MemoryVerse[] => {
+  if (!Array.isArray(data)) return [];
+
+  return data.filter((verse): verse is MemoryVerse => {
+    if (typeof verse !== 'object' || verse === null) return false;
+    if (typeof verse.id !== 'string' || typeof verse.text !== 'string' || typeof verse.translation !== 'string') return false;
+    if (typeof verse.ease !== 'number' || typeof verse.interval !== 'number' || typeof verse.repetitions !== 'number') return false;
+    return typeof verse.due === 'string' && isRange(verse.range);
+  });
+};
+
+export const sanitizePracticeHistory = (data: unknown): PracticeRecord[] => {
+  if (!Array.isArray(data)) return [];
+
+  return data.filter((record): record is PracticeRecord => {
+    if (typeof record !== 'object' || record === null) return false;
+    if (!PRACTICE_MODES.includes(record.mode) || typeof record.quality !== 'number') return false;
+    return typeof record.date === 'string' && typeof record.verseId === 'string' && isRange(record.range);
+  });
+};
@@ -0,0 +1,54 @@
+import { Note } from '../types';
+import { deleteNote, getDayNotes, getNotedVerseKeys, getVerseNotes, sanitizeNotes, saveNote, searchNotes } from './notes';
+import { getVerseKeysRange } from './reference';
+
+const range = getVerseKeysRange(['John.3.17', 'John.3.16'])!;
+
+test('builds a range from selected verse keys', () => {
+  expect(range).toEqual({ book: 'John', startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 17 });
+  expect(getVerseKeysRange(['John.3.16', 'Rom.8.28'])).toBeNull();
+});
+
+test('saves, edits and deletes notes', () => {
+  const created = saveNote([], 'God so loved', { range });
+  expect(created).toHaveLength(1);
+  const id = created[0].id;
+
+  const edited = saveNote(created, 'God so loved the world', { range }, id);
+  expect(edited).toHaveLength(1);
+  expect(edited[0]).toMatchObject({ id, text: 'God so loved the world', range });
+
+  expect(deleteNote(edited, id)).toEqual([]);
+});
+
+test('finds notes for verses and plan days', () => {
+  const notes = saveNote(saveNote([], 'On the verses', { range }), 'On the day', { planId: 'plan', day: 3 });
+
+  expect(getVerseNotes(notes, 'John', 3, 17).map(n => n.text)).toEqual(['On the verses']);
+  expect(getVerseNotes(notes, 'John', 3, 18)).toEqual([]);
+  expect(getDayNotes(notes, 'plan', 3).map(n => n.text)).toEqual(['On the day']);
+  expect(getDayNotes(notes, 'other', 3)).toEqual([]);
+
+  const verses = [15, 16, 17, 18].map(verse => ({ book: 'John', chapter: 3, verse, text: '' }));
+  expect(Array.from(getNotedVerseKeys(notes, verses))).toEqual(['John.3.16', 'John.3.17']);
+});
+
+test('searches note text', () => {
+  const note = (id: string, text: string, createdAt: string): Note => ({ id, text, createdAt, updatedAt: createdAt, day: 1 });
+  const notes = [
+    note('a', 'Prayer changes me', '2024-01-01T08:00:00.000Z'),
+    note('b', 'Praying for my family today', '2024-01-02T08:00:00.000Z'),
+    note('c', '神爱世人', '2024-01-03T08:00:00.000Z')
+  ];
+
+  expect(searchNotes(notes, '').map(n => n.id)).toEqual(['c', 'b', 'a']);
+  expect(searchNotes(notes, 'pray').map(n => n.id)).toEqual(['b', 'a']);
+  expect(searchNotes(notes, '"for my family"').map(n => n.id)).toEqual(['b']);
+  expect(searchNotes(notes, '爱世人').map(n => n.id)).toEqual(['c']);
+});
+
+test('sanitizes imported notes', () => {
+  const valid = { id: 'a', text: 'x', createdAt: '2024-01-01', updatedAt: '2024-01-01', range };
+  expect(sanitizeNotes('nope')).toEqual([]);
+  expect(sanitizeNotes([valid, { id: 'b', text: 'no target', createdAt: '', updatedAt: '' }, null])).toEqual([valid]);
+});
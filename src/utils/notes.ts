@@ -0,0 +1,71 @@
+import { Note, PassageVerse, VerseRange } from '../types';
+import { getBook } from './books';
+import { createId } from './id';
+import { getVerseKey, rangeContainsVerse } from './reference';
+import { foldText, parseSearchQuery } from './search';
+
+export interface NoteTarget {
+  range?: VerseRange;
+  planId?: string;
+  day?: number;
+}
+
+// Create the note for a target, or update its text if it already has an id
+export const saveNote = (notes: Note[], text: string, target: NoteTarget, id?: string): Note[] => {
+  const now = new Date().toISOString();
+  const existing = id ? notes.find(note => note.id === id) : undefined;
+  if (existing) {
+    return notes.map(note => (note.id === id ? { ...note, text, updatedAt: now } : note));
+  }
+  return [...notes, { id: createId(), text, createdAt: now, updatedAt: now, ...target }];
+};
+
+export const deleteNote = (notes: Note[], id: string): Note[] => notes.filter(note => note.id !== id);
+
+export const getVerseNotes = (notes: Note[], book: string, chapter: number, verse: number): Note[] =>
+  notes.filter(note => note.range && rangeContainsVerse(note.range, book, chapter, verse));
+
+export const getDayNotes = (notes: Note[], planId: string, day: number): Note[] =>
+  notes.filter(note => !note.range && note.planId === planId && note.day === day);
+
+// Keys of the given verses that have at least one note
+export const getNotedVerseKeys = (notes: Note[], verses: PassageVerse[]): Set<string> => {
+  const keys = new Set<string>();
+  verses.forEach(({ book, chapter, verse }) => {
+    if (getVerseNotes(notes, book, chapter, verse).length > 0) {
+      keys.add(getVerseKey(book, chapter, verse));
+    }
+  });
+  return keys;
+};
+
+/**
+ * Notes whose text contains every word and quoted phrase of the query,
+ * most recently written first. Unlike Bible search, words match anywhere
+ * in the text, so "pray" also finds "prayer".
+ */
+export const searchNotes = (notes: Note[], input: string): Note[] => {
+  const { words, phrases } = parseSearchQuery(input);
+  const terms = [...phrases, ...words];
+  const sorted = [...notes].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  if (terms.length === 0) return sorted;
+
+  return sorted.filter(note => {
+    const folded = foldText(note.text).replace(/\s+/g, ' ');
+    return terms.every(term => folded.includes(term));
+  });
+};
+
+// Keep only well-formed notes from an imported backup
+export const sanitizeNotes = (data: unknown): Note[] => {
+  if (!Array.isArray(data)) return [];
+
+  return data.filter((note): note is Note => {
+    if (typeof note !== 'object' || note === null) return false;
+    if (typeof note.id !== 'string' || typeof note.text !== 'string') return false;
+    if (typeof note.createdAt !== 'string' || typeof note.updatedAt !== 'string') return false;
+    const range = note.range as VerseRange | undefined;
+    if (range && (!getBook(range.book) || typeof range.startChapter !== 'number')) return false;
+    return !!range || typeof note.day === 'number';
+  });
+};
@@ -0,0 +1,64 @@
+import {
+  buildSchedule,
+  createCustomPlan,
+  expandRanges,
+  getBookRanges,
+  getReadingDayCount,
+  parseDayReadings
+} from './planBuilder';
+import { parseReference } from './reference';
+
+// Ten verses in every chapter keeps the arithmetic easy to follow
+const tenVerses = () => 10;
+
+test('expands whole books and partial ranges into verses', () => {
+  const verses = expandRanges(getBookRanges(['Jude', 'Ruth']), tenVerses);
+  expect(verses).toHaveLength(50);
+  expect(verses[0]).toMatchObject({ book: 'Ruth', chapter: 1, verse: 1 });
+  expect(verses[49]).toMatchObject({ book: 'Jude', chapter: 1, verse: 10 });
+
+  const parsed = parseReference('Romans 8:9-9:2');
+  expect(parsed.ok && expandRanges(parsed.ranges, tenVerses)).toHaveLength(4);
+});
+
+test('splits by verse count rather than chapter count', () => {
+  const verses = expandRanges(getBookRanges(['Ruth']), (_book, chapter) => (chapter === 1 ? 30 : 10));
+  expect(buildSchedule(verses, 2, 7)).toEqual([['Ruth 1:1-30'], ['Ruth 2:1-4:10']]);
+});
+
+test('writes references that parse back to the same verses', () => {
+  const verses = expandRanges(getBookRanges(['Matt', 'Mark', 'Luke', 'John', 'Acts']), tenVerses);
+  const schedule = buildSchedule(verses, 30, 7);
+  expect(schedule).toHaveLength(30);
+  const total = schedule.flat().reduce((count, reference) => {
+    const parsed = parseReference(reference);
+    expect(parsed.ok).toBe(true);
+    return count + (parsed.ok ? expandRanges(parsed.ranges, tenVerses).length : 0);
+  }, 0);
+  expect(total).toBe(verses.length);
+  expect(schedule.some(day => day.length > 1)).toBe(true);
+});
+
+test('leaves rest days empty on the calendar', () => {
+  const verses = expandRanges(getBookRanges(['Ps', 'Prov']), tenVerses);
+  expect(getReadingDayCount(verses, { mode: 'duration', amount: 14, daysPerWeek: 5 })).toBe(10);
+  expect(getReadingDayCount(verses, { mode: 'pace', amount: 5, daysPerWeek: 5 })).toBe(37);
+
+  const schedule = buildSchedule(verses, 10, 5);
+  expect(schedule).toHaveLength(12);
+  expect(schedule.map(day => day.length === 0)).toEqual([
+    false, false, false, false, false, true, true,
+    false, false, false, false, false
+  ]);
+  expect(createCustomPlan('Wisdom', schedule, 'en').info).toMatchObject({ days: 12, category: 'custom' });
+  // Fewer than one reading day a week still reads one
+  expect(buildSchedule(verses, 2, 0).map(day => day.length === 0)).toEqual([false, true, true, true, true, true, true, false]);
+});
+
+test('parses edited days', () => {
+  expect(parseDayReadings('')).toEqual({ ok: true, readings: [] });
+  expect(parseDayReadings('Rom 1; Psalm 23:1-3')).toEqual({ ok: true, readings: ['Romans 1', 'Psalms 23:1-3'] });
+  expect(parseDayReadings('Hezekiah 4').ok).toBe(false);
+  // A single-chapter book without a chapter number is the whole book, not its first verse
+  expect(parseDayReadings('Jude; Philemon')).toEqual({ ok: true, readings: ['Jude', 'Philemon'] });
+});
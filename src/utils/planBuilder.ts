@@ -0,0 +1,144 @@
+import { LoadedPlan, PassageVerse, UiLanguage, VerseRange } from '../types';
+import { BOOKS } from './books';
+import { getPassageRanges } from './citation';
+import { createId } from './id';
+import { formatReference, parseReference } from './reference';
+
+// Number of verses in a chapter of the translation the plan is built from
+export type VerseCounter = (book: string, chapter: number) => number;
+
+export interface PlanPreset {
+  id: 'bible' | 'ot' | 'nt' | 'gospels-acts' | 'psalms-proverbs';
+  books: string[];
+}
+
+export const PLAN_PRESETS: PlanPreset[] = [
+  { id: 'bible', books: BOOKS.map(book => book.id) },
+  { id: 'ot', books: BOOKS.filter(book => book.testament === 'OT').map(book => book.id) },
+  { id: 'nt', books: BOOKS.filter(book => book.testament === 'NT').map(book => book.id) },
+  { id: 'gospels-acts', books: ['Matt', 'Mark', 'Luke', 'John', 'Acts'] },
+  { id: 'psalms-proverbs', books: ['Ps', 'Prov'] }
+];
+
+export interface PlanPace {
+  // 'duration' finishes in `amount` calendar days; 'pace' reads about
+  // `amount` chapters on each reading day
+  mode: 'duration' | 'pace';
+  amount: number;
+  daysPerWeek: number;
+}
+
+// Whole books in canonical order
+export const getBookRanges = (books: string[]): VerseRange[] =>
+  BOOKS.filter(book => books.includes(book.id)).map(book => ({
+    book: book.id,
+    startChapter: 1,
+    startVerse: 1,
+    endChapter: book.chapters
+  }));
+
+// Every verse in the ranges, in order. Verse text isn't needed to build a plan.
+export const expandRanges = (ranges: VerseRange[], countVerses: VerseCounter): PassageVerse[] => {
+  const verses: PassageVerse[] = [];
+  ranges.forEach(range => {
+    for (let chapter = range.startChapter; chapter <= range.endChapter; chapter++) {
+      const first = chapter === range.startChapter ? range.startVerse : 1;
+      const last = chapter === range.endChapter && range.endVerse !== undefined
+        ? range.endVerse
+        : countVerses(range.book, chapter);
+      for (let verse = first; verse <= last; verse++) {
+        verses.push({ book: range.book, chapter, verse, text: '' });
+      }
+    }
+  });
+  return verses;
+};
+
+// The last days of each week are rest days when reading fewer than seven a week
+export const isRestDay = (dayIndex: number, daysPerWeek: number): boolean => dayIndex % 7 >= daysPerWeek;
+
+export const countChapters = (verses: PassageVerse[]): number =>
+  new Set(verses.map(v => `${v.book}.${v.chapter}`)).size;
+
+// Reading days needed for a pace, or available within a duration
+export const getReadingDayCount = (verses: PassageVerse[], { mode, amount, daysPerWeek }: PlanPace): number => {
+  if (mode === 'pace') return Math.ceil(countChapters(verses) / Math.max(amount, 0.1));
+  let count = 0;
+  for (let day = 0; day < amount; day++) {
+    if (!isRestDay(day, daysPerWeek)) count++;
+  }
+  return count;
+};
+
+// One reference per book, each written out in full, e.g. "Genesis 1:1-2:25"
+const formatByBook = (ranges: VerseRange[]): string[] => {
+  const references: string[] = [];
+  let group: VerseRange[] = [];
+  ranges.forEach(range => {
+    if (group.length > 0 && group[0].book !== range.book) {
+      references.push(formatReference(group, 'en'));
+      group = [];
+    }
+    group.push(range);
+  });
+  if (group.length > 0) references.push(formatReference(group, 'en'));
+  return references;
+};
+
+// Passage references for a day's verses, e.g. ["Mark 16:1-20", "Luke 1:1-38"]
+export const formatDayReadings = (verses: PassageVerse[]): string[] => formatByBook(getPassageRanges(verses));
+
+/**
+ * Split verses evenly by verse count across the reading days, then lay the
+ * days out on the calendar with empty rest days in between.
+ */
+export const buildSchedule = (verses: PassageVerse[], readingDays: number, daysPerWeek: number): string[][] => {
+  // At least one reading day a week, or the schedule would never end
+  const weekReadingDays = Math.min(Math.max(Math.floor(daysPerWeek) || 1, 1), 7);
+  const count = Math.max(1, Math.min(readingDays, verses.length));
+  const days: string[][] = [];
+  for (let i = 0; i < count; i++) {
+    const start = Math.round((i * verses.length) / count);
+    const end = Math.round(((i + 1) * verses.length) / count);
+    days.push(formatDayReadings(verses.slice(start, end)));
+  }
+
+  const schedule: string[][] = [];
+  let next = 0;
+  while (next < days.length) {
+    schedule.push(isRestDay(schedule.length, weekReadingDays) ? [] : days[next++]);
+  }
+  return schedule;
+};
+
+export const createCustomPlan = (name: string, readings: string[][], language: UiLanguage): LoadedPlan => ({
+  info: {
+    id: `custom-${createId()}`,
+    name: { en: name },
+    description: { en: '' },
+    days: readings.length,
+    languages: [language === 'en' ? 'en' : 'zh'],
+    category: 'custom'
+  },
+  readings
+});
+
+export type DayParseResult = { ok: true; readings: string[] } | { ok: false; message: string };
+
+/**
+ * Parse an edited day, e.g. "Romans 1; Psalm 23", into one reference per
+ * book. An empty day is a rest day.
+ */
+export const parseDayReadings = (input: string): DayParseResult => {
+  if (!input.trim()) return { ok: true, readings: [] };
+  const parsed = parseReference(input);
+  if (!parsed.ok) return { ok: false, message: parsed.error.message };
+  return { ok: true, readings: formatByBook(parsed.ranges) };
+};
+
+export const updatePlan = (plans: LoadedPlan[], plan: LoadedPlan): LoadedPlan[] =>
+  plans.some(p => p.info.id === plan.info.id)
+    ? plans.map(p => (p.info.id === plan.info.id ? plan : p))
+    : [...plans, plan];
+
+export const deletePlan = (plans: LoadedPlan[], id: string): LoadedPlan[] => plans.filter(p => p.info.id !== id);
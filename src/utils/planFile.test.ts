@@ -0,0 +1,97 @@
+import { LoadedPlan } from '../types';
+import { createBibleSource } from './bibleSource';
+import { hasBlockingIssues, parsePlanFile, planFromFile, planToCsv, planToJson, validatePlanFile } from './planFile';
+
+const esv = createBibleSource({
+  John: {
+    '1': { '1': 'In the beginning was the Word', '2': 'He was in the beginning with God.' },
+    '3': { '16': 'For God so loved the world', '17': 'For God did not send his Son' }
+  },
+  Psalms: {
+    '23': { '1': 'The LORD is my shepherd' }
+  }
+}, 'ESV');
+
+const plan: LoadedPlan = {
+  info: {
+    id: 'custom-test',
+    name: { en: 'Short plan' },
+    description: { en: 'Two days and a rest' },
+    days: 3,
+    languages: ['en'],
+    category: 'custom'
+  },
+  readings: [['John 1:1-2', 'Psalm 23:1'], ['Romans 1:1-5, 8'], []]
+};
+
+test('parses version 1 plan files', () => {
+  const file = parsePlanFile({
+    name: 'plan.json',
+    text: JSON.stringify({
+      format: 'bible-duo-plan',
+      version: 1,
+      name: { en: 'John', zh: '约翰福音' },
+      description: 'Read <b>John</b> &amp; rest',
+      category: 'gospels',
+      source: 'file:///etc/passwd',
+      days: [['John 1'], []]
+    })
+  });
+  expect(file.name).toEqual({ en: 'John', zh: '约翰福音' });
+  expect(file.description).toEqual({ en: 'Read John & rest' });
+  expect(file.category).toBe('gospels');
+  expect(file.source).toBeUndefined();
+  expect(file.days).toEqual([['John 1'], []]);
+
+  expect(() => parsePlanFile({ name: 'plan.json', text: '{"format":"bible-duo-plan","version":2,"days":[]}' }))
+    .toThrow('version 2');
+  expect(() => parsePlanFile({ name: 'plan.json', text: '{"hello":"world"}' })).toThrow('not a Bible Duo');
+});
+
+test('reads the older data2 plan files', () => {
+  const file = parsePlanFile({
+    name: 'old.json',
+    text: JSON.stringify({ data2: [['Genesis 1']], data: ['Genesis 1'], name: 'Old', info: 'Hi<br /><a href="x">site</a>' })
+  });
+  expect(file.name).toEqual({ en: 'Old' });
+  expect(file.description).toEqual({ en: 'Hi site' });
+  expect(file.days).toEqual([['Genesis 1']]);
+});
+
+test('parses CSV with quoted commas and missing days', () => {
+  const file = parsePlanFile({
+    name: 'My Plan.csv',
+    text: 'day,passages\r\n1,"Romans 1:1-5, 8; Psalm 1"\r\n3,John 3\n3,John 4\n'
+  });
+  expect(file.name).toEqual({ en: 'My Plan' });
+  expect(file.days).toEqual([['Romans 1:1-5, 8', 'Psalm 1'], [], ['John 3', 'John 4']]);
+  expect(() => parsePlanFile({ name: 'bad.csv', text: '1,John 1\nlater,John 2' })).toThrow('Row 2');
+  expect(() => parsePlanFile({ name: 'huge.csv', text: '1,John 1\n99999999,Genesis 1' })).toThrow('Row 2');
+});
+
+test('reports problems by day', () => {
+  const file = parsePlanFile({ name: 'plan.csv', text: planToCsv(plan).replace('Psalm 23:1', 'Hezekiah 2') });
+  const issues = validatePlanFile(file, [esv]);
+  expect(issues).toEqual([
+    expect.objectContaining({ day: 1, reference: 'Hezekiah 2' }),
+    expect.objectContaining({ day: 2, reference: 'Romans 1:1-5, 8', translation: 'ESV' })
+  ]);
+  expect(hasBlockingIssues(issues)).toBe(true);
+  expect(hasBlockingIssues(issues.slice(1))).toBe(false);
+
+  expect(validatePlanFile({ ...file, days: [[], []] })).toEqual([{ message: 'The plan has no readings' }]);
+  expect(validatePlanFile({ ...file, days: [['John 3:16-18']] }, [esv])).toEqual([
+    expect.objectContaining({ day: 1, translation: 'ESV' })
+  ]);
+});
+
+test('exported plans import unchanged', () => {
+  const fromJson = planFromFile(parsePlanFile({ name: 'plan.json', text: planToJson(plan) }));
+  expect(fromJson.readings).toEqual(plan.readings);
+  expect(fromJson.info).toMatchObject({ name: plan.info.name, description: plan.info.description, days: 3 });
+  expect(fromJson.info.id).not.toBe(plan.info.id);
+
+  const fromCsv = parsePlanFile({ name: 'Short plan.csv', text: planToCsv(plan) });
+  expect(fromCsv.days).toEqual(plan.readings);
+  expect(validatePlanFile(fromCsv)).toEqual([]);
+});
@@ -0,0 +1,220 @@
+import { LoadedPlan, PlanCategory, PlanFile, PlanIssue, VerseRange } from '../types';
+import { BibleSource } from './bibleSource';
+import { csvField } from './csv';
+import { createId } from './id';
+import { PLAN_CATEGORIES, getSafeUrl, sanitizeLocalizedText, sanitizePlanInfo } from './plans';
+import { parseReference } from './reference';
+
+/**
+ * Reading plan files, version 1.
+ *
+ * JSON:
+ *
+ *   {
+ *     "format": "bible-duo-plan",
+ *     "version": 1,
+ *     "name": { "en": "Psalms in 30 Days", "zh": "30天读完诗篇" },
+ *     "description": { "en": "Five psalms a day." },
+ *     "category": "wisdom",
+ *     "source": "https://example.com/psalms",
+ *     "days": [["Psalm 1-5"], ["Psalm 6-10"], []]
+ *   }
+ *
+ * `days` lists each day's passage references in order, in English or
+ * Chinese; an empty day is a rest day. `name` and `description` may also be
+ * plain strings, and are shown as plain text. `description`, `category` and
+ * `source` (an http or https link) are optional. The older files in
+ * public/data ({ data2, name, info }) are read as well.
+ *
+ * CSV: a `day,passages` header, then one row per day with its references
+ * separated by semicolons. Days without a row are rest days, and day
+ * numbers stop at MAX_PLAN_DAYS.
+ */
+export const PLAN_FILE_FORMAT = 'bible-duo-plan';
+export const PLAN_FILE_VERSION = 1;
+
+// Ten years of daily readings; a larger day number is a typo, not a plan
+export const MAX_PLAN_DAYS = 3660;
+
+const parseJsonPlan = (text: string): PlanFile => {
+  const data = JSON.parse(text);
+  if (typeof data !== 'object' || data === null) throw new Error('The file does not contain a reading plan');
+
+  if (Array.isArray(data.data2)) {
+    return {
+      format: PLAN_FILE_FORMAT,
+      version: PLAN_FILE_VERSION,
+      name: sanitizeLocalizedText(data.name),
+      description: sanitizeLocalizedText(data.info),
+      days: data.data2
+    };
+  }
+
+  if (data.format !== PLAN_FILE_FORMAT) throw new Error('The file is not a Bible Duo reading plan');
+  if (typeof data.version !== 'number' || data.version > PLAN_FILE_VERSION) {
+    throw new Error(`Plan file version ${data.version} is not supported`);
+  }
+  return {
+    format: PLAN_FILE_FORMAT,
+    version: data.version,
+    name: sanitizeLocalizedText(data.name),
+    description: sanitizeLocalizedText(data.description),
+    category: PLAN_CATEGORIES.includes(data.category) ? data.category as PlanCategory : undefined,
+    source: getSafeUrl(data.source),
+    days: data.days
+  };
+};
+
+// Rows of fields; quoted fields may hold commas, quotes and line breaks
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  rows.push([...row, field]);
+  return rows.filter(fields => fields.some(value => value.trim()));
+};
+
+const parseCsvPlan = (text: string, name: string): PlanFile => {
+  const rows = parseCsvRows(text);
+  // The header is optional
+  if (rows.length > 0 && !/^\s*\d+\s*$/.test(rows[0][0])) rows.shift();
+
+  const days: string[][] = [];
+  rows.forEach((fields, index) => {
+    const day = Number(fields[0]);
+    if (!Number.isInteger(day) || day < 1) {
+      throw new Error(`Row ${index + 1}: "${fields[0]}" is not a day number`);
+    }
+    if (day > MAX_PLAN_DAYS) {
+      throw new Error(`Row ${index + 1}: day ${day} is past the last allowed day, ${MAX_PLAN_DAYS}`);
+    }
+    // Unquoted references such as "Romans 1:1-5, 8" spill into more fields
+    const references = fields.slice(1).join(',').split(';').map(reference => reference.trim()).filter(Boolean);
+    days[day - 1] = [...(days[day - 1] || []), ...references];
+  });
+
+  return {
+    format: PLAN_FILE_FORMAT,
+    version: PLAN_FILE_VERSION,
+    name: { en: name },
+    days: Array.from(days, day => day || [])
+  };
+};
+
+// JSON or CSV, told apart by the contents
+export const parsePlanFile = ({ name, text }: { name: string; text: string }): PlanFile =>
+  text.trimStart().startsWith('{') ? parseJsonPlan(text) : parseCsvPlan(text, name.replace(/\.[^.]+$/, ''));
+
+const hasVerse = (source: BibleSource, book: string, chapter: number, verse: number): boolean =>
+  !!source.getChapter(book, chapter)?.verses.some(v => v.verse === verse);
+
+// Both ends of the range are in the translation
+const rangeResolves = (source: BibleSource, range: VerseRange): boolean =>
+  hasVerse(source, range.book, range.startChapter, range.startVerse) &&
+  (range.endVerse === undefined
+    ? !!source.getChapter(range.book, range.endChapter)
+    : hasVerse(source, range.book, range.endChapter, range.endVerse));
+
+/**
+ * Problems with a plan file, by day. References must parse, and each is
+ * looked up in the given translations; a reference missing from one of them
+ * is reported with that translation set.
+ */
+export const validatePlanFile = (file: PlanFile, sources: BibleSource[] = []): PlanIssue[] => {
+  const issues: PlanIssue[] = [];
+  if (!file.name.en.trim() && !file.name.zh) issues.push({ message: 'The plan has no name' });
+
+  const days: unknown = file.days;
+  if (!Array.isArray(days) || days.length === 0) {
+    return [...issues, { message: 'The plan has no days' }];
+  }
+
+  days.forEach((references: unknown, index) => {
+    const day = index + 1;
+    if (!Array.isArray(references)) {
+      issues.push({ day, message: 'Expected a list of passages' });
+      return;
+    }
+    references.forEach((reference: unknown) => {
+      if (typeof reference !== 'string') {
+        issues.push({ day, message: 'Expected a passage reference' });
+        return;
+      }
+      const parsed = parseReference(reference);
+      if (!parsed.ok) {
+        issues.push({ day, reference, message: parsed.error.message });
+        return;
+      }
+      sources.forEach(source => {
+        if (!parsed.ranges.every(range => rangeResolves(source, range))) {
+          issues.push({ day, reference, translation: source.translation, message: `Not found in ${source.translation}` });
+        }
+      });
+    });
+  });
+
+  if (days.every(references => Array.isArray(references) && references.length === 0)) {
+    issues.push({ message: 'The plan has no readings' });
+  }
+  return issues;
+};
+
+// Issues that stop a plan from being used at all, as opposed to passages
+// missing from one translation
+export const hasBlockingIssues = (issues: PlanIssue[]): boolean => issues.some(issue => !issue.translation);
+
+export const planFromFile = (file: PlanFile): LoadedPlan => ({
+  info: sanitizePlanInfo({
+    id: `custom-${createId()}`,
+    name: file.name.en ? file.name : { ...file.name, en: file.name.zh || '' },
+    description: file.description || { en: '' },
+    days: file.days.length,
+    languages: file.name.zh ? ['en', 'zh'] : ['en'],
+    category: file.category || 'custom',
+    source: file.source
+  }),
+  readings: file.days
+});
+
+export const planToFile = (plan: LoadedPlan): PlanFile => ({
+  format: PLAN_FILE_FORMAT,
+  version: PLAN_FILE_VERSION,
+  name: plan.info.name,
+  description: plan.info.description,
+  category: plan.info.category,
+  ...(plan.info.source ? { source: plan.info.source } : {}),
+  days: plan.readings
+});
+
+export const planToJson = (plan: LoadedPlan): string => JSON.stringify(planToFile(plan), null, 4);
+
+// Rest days get a row with no passages so trailing ones aren't lost
+export const planToCsv = (plan: LoadedPlan): string =>
+  ['day,passages', ...plan.readings.map((day, index) => `${index + 1},${csvField(day.join('; '))}`)].join('\n');
@@ -0,0 +1,106 @@
+import { PlanInfo, PlanManifest } from '../types';
+import { parsePlanFile, validatePlanFile } from './planFile';
+import {
+  DEFAULT_PLAN_ID,
+  filterPlans,
+  getLocalizedText,
+  getPlanLength,
+  getSafeUrl,
+  getSelectedPlanId,
+  sanitizeCustomPlans,
+  sanitizePlanText
+} from './plans';
+import { parseReference } from './reference';
+
+const manifest: PlanManifest = require('../../public/data/plans.json');
+
+const plan = (id: string, days: number, category: PlanInfo['category'], en: string, zh?: string): PlanInfo => ({
+  id,
+  file: `${id}_plan.json`,
+  name: { en, zh },
+  description: { en: '' },
+  days,
+  languages: zh ? ['en', 'zh'] : ['en'],
+  category
+});
+
+const plans = [
+  plan('year', 365, 'whole-bible', 'Bible in a Year', '一年读经'),
+  plan('gospels', 30, 'gospels', 'The Gospels', '四福音'),
+  plan('psalms', 30, 'wisdom', 'Psalms')
+];
+
+test('localizes plan text, falling back to English', () => {
+  expect(getLocalizedText({ en: 'Gospels', zh: '福音书' }, 'zh')).toBe('福音书');
+  expect(getLocalizedText({ en: 'Gospels', zh: '福音书' }, 'zh-Hant')).toBe('福音書');
+  expect(getLocalizedText({ en: 'Gospels' }, 'zh')).toBe('Gospels');
+  expect(getLocalizedText({ en: 'Gospels', zh: '福音书' }, 'en')).toBe('Gospels');
+});
+
+test('filters plans by category, length and text', () => {
+  expect(filterPlans(plans, { category: 'gospels' }).map(p => p.id)).toEqual(['gospels']);
+  expect(filterPlans(plans, { length: 'short' }).map(p => p.id)).toEqual(['gospels', 'psalms']);
+  expect(filterPlans(plans, { query: 'psalms' }).map(p => p.id)).toEqual(['psalms']);
+  expect(filterPlans(plans, { query: '福音' }).map(p => p.id)).toEqual(['gospels']);
+  expect(filterPlans(plans, { query: '讀經' }).map(p => p.id)).toEqual(['year']);
+  expect(filterPlans(plans, { length: 'long', category: 'wisdom' })).toEqual([]);
+  expect(getPlanLength(31)).toBe('short');
+  expect(getPlanLength(90)).toBe('medium');
+  expect(getPlanLength(260)).toBe('long');
+});
+
+test('falls back to the default plan', () => {
+  expect(getSelectedPlanId(undefined)).toBe(DEFAULT_PLAN_ID);
+  expect(getSelectedPlanId('psalms30')).toBe('psalms30');
+});
+
+test('every plan in the manifest has readings that parse', () => {
+  expect(manifest.plans.map(p => p.id)).toContain(DEFAULT_PLAN_ID);
+  manifest.plans.forEach(info => {
+    const data = require(`../../public/data/${info.file}`);
+    expect(data.data2).toHaveLength(info.days);
+    data.data2.flat().forEach((reference: string) => {
+      expect(parseReference(reference).ok).toBe(true);
+    });
+    expect(validatePlanFile(parsePlanFile({ name: info.file!, text: JSON.stringify(data) }))).toEqual([]);
+  });
+});
+
+// Verses in the books with a single chapter, where "Jude 1" would mean one verse
+const singleChapterVerses: Record<string, number> = { Obad: 21, Phlm: 25, '2John': 13, '3John': 15, Jude: 25 };
+
+test('plan readings without verse numbers cover whole chapters', () => {
+  manifest.plans.forEach(info => {
+    const data = require(`../../public/data/${info.file}`);
+    data.data2.flat().filter((reference: string) => !reference.includes(':')).forEach((reference: string) => {
+      const parsed = parseReference(reference);
+      if (!parsed.ok) throw new Error(`${info.file}: ${reference}`);
+      parsed.ranges.forEach(range => {
+        const wholeChapters = range.startVerse === 1 &&
+          (range.endVerse === undefined || range.endVerse >= singleChapterVerses[range.book]);
+        expect({ reference, wholeChapters }).toEqual({ reference, wholeChapters: true });
+      });
+    });
+  });
+});
+
+test('strips markup from plan text and links', () => {
+  expect(sanitizePlanText('One year.<br /><a target=\'_new\' href=\'http://www.esv.org\'>www.esv.org</a>'))
+    .toBe('One year. www.esv.org');
+  expect(sanitizePlanText('<img src=x onerror=alert(1)>Psalms &amp; Proverbs')).toBe('Psalms & Proverbs');
+  expect(getSafeUrl('https://www.esv.org/biblereadingplans')).toBe('https://www.esv.org/biblereadingplans');
+  expect(getSafeUrl('data:text/html,<script>alert(1)</script>')).toBeUndefined();
+});
+
+test('keeps only well-formed custom plans from a backup', () => {
+  const plans = sanitizeCustomPlans([
+    {
+      info: { id: 'custom-1', name: { en: '<b>Mine</b>' }, description: { en: '' }, days: 9, languages: ['en'], category: 'custom', source: 'data:text/html,hi' },
+      readings: [['John 1'], []]
+    },
+    { info: { id: 'custom-2', name: { en: 'Broken' } }, readings: [[1]] },
+    'nonsense'
+  ]);
+  expect(plans).toHaveLength(1);
+  expect(plans[0].info).toMatchObject({ name: { en: 'Mine' }, days: 2, source: undefined });
+});
@@ -0,0 +1,134 @@
+import { LoadedPlan, LocalizedText, PlanCategory, PlanInfo, PlanManifest, UiLanguage } from '../types';
+import { toTraditionalCached } from './chinese';
+
+// Plan used before one is chosen, and by data saved before plans were selectable
+export const DEFAULT_PLAN_ID = 'esveverydayinword';
+
+export const PLAN_CATEGORIES: PlanCategory[] = ['whole-bible', 'new-testament', 'old-testament', 'gospels', 'wisdom', 'custom'];
+
+export type PlanLength = 'short' | 'medium' | 'long';
+
+export const PLAN_LENGTHS: PlanLength[] = ['short', 'medium', 'long'];
+
+// Up to a month, up to half a year, or longer
+export const getPlanLength = (days: number): PlanLength => {
+  if (days <= 31) return 'short';
+  if (days <= 183) return 'medium';
+  return 'long';
+};
+
+export const getLocalizedText = (text: LocalizedText, language: UiLanguage = 'en'): string => {
+  if (language === 'en' || !text.zh) return text.en;
+  return language === 'zh-Hant' ? toTraditionalCached(text.zh) : text.zh;
+};
+
+export const getSelectedPlanId = (selectedPlan?: string): string => selectedPlan || DEFAULT_PLAN_ID;
+
+const htmlEntities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", nbsp: ' ' };
+
+// Plain text from plan text that may carry HTML, as older plan files did
+export const sanitizePlanText = (text: string): string =>
+  text
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, entity: string) => htmlEntities[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Plan text given as a plain string or as { en, zh }
+export const sanitizeLocalizedText = (text: unknown): LocalizedText => {
+  if (typeof text === 'string') return { en: sanitizePlanText(text) };
+  if (typeof text !== 'object' || text === null) return { en: '' };
+  const { en, zh } = text as Partial<LocalizedText>;
+  return {
+    en: typeof en === 'string' ? sanitizePlanText(en) : '',
+    ...(typeof zh === 'string' && zh.trim() ? { zh: sanitizePlanText(zh) } : {})
+  };
+};
+
+// Only web links may be rendered as a plan's source
+export const getSafeUrl = (url: unknown): string | undefined =>
+  typeof url === 'string' && /^https?:\/\/\S+$/i.test(url.trim()) ? url.trim() : undefined;
+
+export const sanitizePlanInfo = (info: PlanInfo): PlanInfo => ({
+  ...info,
+  name: sanitizeLocalizedText(info.name),
+  description: sanitizeLocalizedText(info.description),
+  category: PLAN_CATEGORIES.includes(info.category) ? info.category : 'custom',
+  source: getSafeUrl(info.source)
+});
+
+export interface PlanFilter {
+  category?: PlanCategory;
+  length?: PlanLength;
+  query?: string;
+}
+
+// Plans matching every filter given. The query matches names and descriptions
+// in any language, Traditional Chinese included.
+export const filterPlans = (plans: PlanInfo[], { category, length, query }: PlanFilter): PlanInfo[] => {
+  const terms = (query || '').toLowerCase().split(/\s+/).filter(Boolean);
+  return plans.filter(plan => {
+    if (category && plan.category !== category) return false;
+    if (length && getPlanLength(plan.days) !== length) return false;
+    const chinese = [plan.name.zh, plan.description.zh].join(' ');
+    const text = [plan.name.en, plan.description.en, chinese, toTraditionalCached(chinese)].join(' ').toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+};
+
+let manifestCache: Promise<PlanManifest> | null = null;
+const planCache = new Map<string, Promise<LoadedPlan>>();
+
+export const loadPlanManifest = (): Promise<PlanManifest> => {
+  if (!manifestCache) {
+    manifestCache = fetch('./data/plans.json').then(response => response.json());
+    // Drop failed loads so the next visit can retry
+    manifestCache.catch(() => {
+      manifestCache = null;
+    });
+  }
+  return manifestCache;
+};
+
+// Built-in plans followed by the ones made in the app
+export const loadPlanCatalog = async (customPlans: LoadedPlan[] = []): Promise<PlanInfo[]> => {
+  const manifest = await loadPlanManifest();
+  return [...manifest.plans, ...customPlans.map(plan => plan.info)].map(sanitizePlanInfo);
+};
+
+export const loadPlan = (id: string, customPlans: LoadedPlan[] = []): Promise<LoadedPlan> => {
+  const custom = customPlans.find(plan => plan.info.id === id);
+  if (custom) return Promise.resolve(custom);
+
+  const cached = planCache.get(id);
+  if (cached) return cached;
+
+  const pending = loadPlanManifest().then(async manifest => {
+    const info = manifest.plans.find(plan => plan.id === id);
+    if (!info?.file) throw new Error(`Unknown reading plan ${id}`);
+    const data = await fetch(`./data/${info.file}`).then(response => response.json());
+    // Plan files list each day's passages in data2
+    return { info, readings: data.data2 as string[][] };
+  });
+  pending.catch(() => planCache.delete(id));
+  planCache.set(id, pending);
+  return pending;
+};
+
+// Keep only well-formed plans from an imported backup
+export const sanitizeCustomPlans = (data: unknown): LoadedPlan[] => {
+  if (!Array.isArray(data)) return [];
+
+  return data
+    .filter((plan): plan is LoadedPlan => {
+      if (typeof plan !== 'object' || plan === null || typeof plan.info !== 'object' || plan.info === null) return false;
+      if (typeof plan.info.id !== 'string' || typeof plan.info.name?.en !== 'string') return false;
+      return Array.isArray(plan.readings) &&
+        plan.readings.every((day: unknown) => Array.isArray(day) && day.every(reference => typeof reference === 'string'));
+    })
+    .map(plan => ({
+      info: sanitizePlanInfo({ ...plan.info, file: undefined, days: plan.readings.length }),
+      readings: plan.readings
+    }));
+};
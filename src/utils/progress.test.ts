@@ -0,0 +1,155 @@
+import { AppSettings } from '../types';
+import {
+  archivePlan,
+  completeDays,
+  getDayState,
+  getPlanProgress,
+  getReadPassages,
+  migrateLegacyProgress,
+  pausePlan,
+  restartPlan,
+  sanitizePlanProgress,
+  setPassageRead,
+  startPlan,
+  uncompleteDays
+} from './progress';
+
+const base: AppSettings = { translation: 'ESV', uiLanguage: 'en', fontSize: 16, theme: 'light' };
+const apply = (settings: AppSettings, changes: Partial<AppSettings>): AppSettings => ({ ...settings, ...changes });
+const day = (date: string) => new Date(`${date}T12:00:00`);
+
+test('keeps each plan\'s progress when switching between plans', () => {
+  let settings = apply(base, startPlan(base, 'psalms', day('2024-03-01')));
+  const psalms = getPlanProgress(settings, 'psalms');
+  settings = apply(settings, { planProgress: { psalms: { ...psalms, currentDay: 4, ...completeDays(psalms, [1, 2, 3], '2024-03-03') } } });
+
+  settings = apply(settings, startPlan(settings, 'gospels', day('2024-03-05')));
+  expect(settings.selectedPlan).toBe('gospels');
+  expect(getPlanProgress(settings, 'gospels')).toMatchObject({ currentDay: 1, startDate: '2024-03-05' });
+
+  settings = apply(settings, startPlan(settings, 'psalms', day('2024-03-06')));
+  expect(getPlanProgress(settings)).toMatchObject({
+    planId: 'psalms',
+    currentDay: 4,
+    completedDays: [1, 2, 3],
+    startDate: '2024-03-01'
+  });
+});
+
+test('moves the schedule on by the days a plan was paused', () => {
+  let settings = apply(base, startPlan(base, 'psalms', day('2024-03-01')));
+  settings = apply(settings, pausePlan(settings, 'psalms', day('2024-03-10')));
+  expect(getPlanProgress(settings, 'psalms')).toMatchObject({ status: 'paused', pausedAt: '2024-03-10' });
+
+  settings = apply(settings, startPlan(settings, 'psalms', day('2024-03-15')));
+  const progress = getPlanProgress(settings, 'psalms');
+  expect(progress.status).toBe('active');
+  expect(progress.startDate).toBe('2024-03-06');
+  expect(progress.pausedAt).toBeUndefined();
+});
+
+test('archiving focuses another active plan and keeps the progress', () => {
+  let settings = apply(base, startPlan(base, 'gospels', day('2024-03-01')));
+  settings = apply(settings, startPlan(settings, 'psalms', day('2024-03-01')));
+  const psalms = getPlanProgress(settings, 'psalms');
+  settings = apply(settings, { planProgress: { ...settings.planProgress, psalms: { ...psalms, completedDays: [1] } } });
+
+  settings = apply(settings, archivePlan(settings, 'psalms', day('2024-03-02')));
+  expect(settings.selectedPlan).toBe('gospels');
+  expect(getPlanProgress(settings, 'psalms')).toMatchObject({ status: 'archived', completedDays: [1] });
+});
+
+test('restarting keeps past completions and drops catch-up changes', () => {
+  let settings = apply(base, startPlan(base, 'psalms', day('2024-03-01')));
+  const psalms = getPlanProgress(settings, 'psalms');
+  settings = apply(settings, {
+    planProgress: { psalms: { ...psalms, currentDay: 3, ...completeDays(psalms, [1, 2], '2024-03-02') } },
+    planSchedules: { psalms: { delay: 2, extraDays: {}, readLater: [] } }
+  });
+
+  settings = apply(settings, restartPlan(settings, 'psalms', day('2024-04-01')));
+  const progress = getPlanProgress(settings, 'psalms');
+  expect(progress).toMatchObject({ currentDay: 1, completedDays: [], startDate: '2024-04-01' });
+  expect(progress.pastRuns).toEqual([
+    { startDate: '2024-03-01', endedAt: '2024-04-01', completedDays: [1, 2], completionDates: { 1: '2024-03-02', 2: '2024-03-02' } }
+  ]);
+  expect(settings.planSchedules).toEqual({});
+});
+
+test('migrates progress saved for a single plan', () => {
+  const migrated = migrateLegacyProgress({
+    ...base,
+    selectedPlan: 'psalms',
+    currentDay: 5,
+    completedDays: [1, 2, 4],
+    completionDates: { 1: '2024-03-01', 2: '2024-03-02', 4: '2024-03-04' },
+    followCalendar: true
+  }, day('2024-03-05'));
+
+  expect(migrated).not.toHaveProperty('currentDay');
+  expect(migrated.planProgress?.psalms).toEqual({
+    planId: 'psalms',
+    status: 'active',
+    currentDay: 5,
+    completedDays: [1, 2, 4],
+    completionDates: { 1: '2024-03-01', 2: '2024-03-02', 4: '2024-03-04' },
+    startDate: '2024-03-01',
+    followCalendar: true
+  });
+  // Nothing to migrate before a plan is started
+  expect(migrateLegacyProgress({ ...base, currentDay: 1, completedDays: [] }).planProgress).toBeUndefined();
+});
+
+test('sanitizes imported plan progress', () => {
+  expect(sanitizePlanProgress({
+    psalms: {
+      status: 'finished',
+      currentDay: -1,
+      completedDays: [1, 'two', 3],
+      completionDates: { 1: '2024-03-01', 3: 'yesterday' },
+      startDate: '2024-03-01',
+      pastRuns: [{ startDate: 'soon' }]
+    },
+    broken: { currentDay: 2 }
+  })).toEqual({
+    psalms: {
+      planId: 'psalms',
+      status: 'active',
+      currentDay: 1,
+      completedDays: [1, 3],
+      completionDates: { 1: '2024-03-01' },
+      startDate: '2024-03-01'
+    }
+  });
+  expect(sanitizePlanProgress([1, 2])).toEqual({});
+});
+
+test('completes a day once every passage is read', () => {
+  let progress = getPlanProgress(base, 'psalms');
+  progress = { ...progress, ...setPassageRead(progress, 3, 0, 3, true, '2024-03-03') };
+  progress = { ...progress, ...setPassageRead(progress, 3, 2, 3, true, '2024-03-03') };
+  expect(getDayState(progress, 3)).toBe('partial');
+  expect(getReadPassages(progress, 3, 3)).toEqual([0, 2]);
+
+  progress = { ...progress, ...setPassageRead(progress, 3, 1, 3, true, '2024-03-04') };
+  expect(getDayState(progress, 3)).toBe('complete');
+  expect(progress.completionDates[3]).toBe('2024-03-04');
+  expect(progress.completedPassages).toEqual({});
+
+  // Unchecking a passage leaves the rest of the day read
+  progress = { ...progress, ...setPassageRead(progress, 3, 1, 3, false, '2024-03-05') };
+  expect(progress.completedDays).toEqual([]);
+  expect(progress.completionDates).toEqual({});
+  expect(getReadPassages(progress, 3, 3)).toEqual([0, 2]);
+});
+
+test('un-completes days and back-dates them', () => {
+  let progress = getPlanProgress(base, 'psalms');
+  progress = { ...progress, ...completeDays(progress, [1, 2], '2024-03-05') };
+  progress = { ...progress, ...completeDays(progress, [2], '2024-03-02') };
+  expect(progress.completionDates).toEqual({ 1: '2024-03-05', 2: '2024-03-02' });
+
+  progress = { ...progress, ...uncompleteDays(progress, [1]) };
+  expect(progress.completedDays).toEqual([2]);
+  expect(progress.completionDates).toEqual({ 2: '2024-03-02' });
+});
@@ -0,0 +1,283 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { AppSettings, PlanRun, PlanStatus, UserProgress } from '../types';
+import { getSelectedPlanId } from './plans';
+import { getStartDateForDay } from './schedule';
+
+export const PLAN_STATUSES: PlanStatus[] = ['active', 'paused', 'archived'];
+
+export type DayState = 'complete' | 'partial' | 'unread';
+
+const toDateString = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Progress in a plan that hasn't been started yet
+export const createProgress = (planId: string, today: Date = new Date()): UserProgress => ({
+  planId,
+  status: 'active',
+  currentDay: 1,
+  completedDays: [],
+  completionDates: {},
+  startDate: toDateString(today)
+});
+
+export const getPlanProgress = (
+  settings: AppSettings,
+  planId: string = getSelectedPlanId(settings.selectedPlan)
+): UserProgress => settings.planProgress?.[planId] || createProgress(planId);
+
+// Settings changes that apply `changes` to one plan's progress
+export const updatePlanProgress = (
+  settings: AppSettings,
+  planId: string,
+  changes: Partial<UserProgress>
+): Partial<AppSettings> => ({
+  planProgress: {
+    ...settings.planProgress,
+    [planId]: { ...getPlanProgress(settings, planId), ...changes }
+  }
+});
+
+// Mark days as read on `date`
+export const completeDays = (progress: UserProgress, days: number[], date: string): Partial<UserProgress> => {
+  const completedDays = Array.from(new Set([...progress.completedDays, ...days])).sort((a, b) => a - b);
+  const completionDates = { ...progress.completionDates };
+  const completedPassages = { ...progress.completedPassages };
+  days.forEach(day => {
+    completionDates[day] = date;
+    delete completedPassages[day];
+  });
+  return { completedDays, completionDates, completedPassages };
+};
+
+// Mark days as unread again, forgetting when they were read
+export const uncompleteDays = (progress: UserProgress, days: number[]): Partial<UserProgress> => {
+  const completionDates = { ...progress.completionDates };
+  days.forEach(day => delete completionDates[day]);
+  return { completedDays: progress.completedDays.filter(day => !days.includes(day)), completionDates };
+};
+
+export const getDayState = (progress: UserProgress, day: number): DayState => {
+  if (progress.completedDays.includes(day)) return 'complete';
+  return progress.completedPassages?.[day]?.length ? 'partial' : 'unread';
+};
+
+// Passages read on a day, by their place in the day's readings
+export const getReadPassages = (progress: UserProgress, day: number, passageCount: number): number[] =>
+  progress.completedDays.includes(day)
+    ? Array.from({ length: passageCount }, (_, index) => index)
+    : progress.completedPassages?.[day] || [];
+
+/**
+ * Check off one passage of a day, or uncheck it. The day is complete, on
+ * `date`, once all `passageCount` passages are read, and incomplete again if
+ * one is unchecked.
+ */
+export const setPassageRead = (
+  progress: UserProgress,
+  day: number,
+  passage: number,
+  passageCount: number,
+  read: boolean,
+  date: string
+): Partial<UserProgress> => {
+  const current = getReadPassages(progress, day, passageCount);
+  const passages = read
+    ? Array.from(new Set([...current, passage])).sort((a, b) => a - b)
+    : current.filter(index => index !== passage);
+  if (passages.length >= passageCount) return completeDays(progress, [day], date);
+
+  const { [day]: _passages, ...completedPassages } = progress.completedPassages || {};
+  const { [day]: _date, ...completionDates } = progress.completionDates;
+  return {
+    completedDays: progress.completedDays.filter(completed => completed !== day),
+    completionDates,
+    completedPassages: passages.length > 0 ? { ...completedPassages, [day]: passages } : completedPassages
+  };
+};
+
+// Plans started and not archived, in the order they were started
+export const getPlansInProgress = (settings: AppSettings): UserProgress[] =>
+  Object.values(settings.planProgress || {}).filter(progress => progress.status !== 'archived');
+
+export const getArchivedPlans = (settings: AppSettings): UserProgress[] =>
+  Object.values(settings.planProgress || {}).filter(progress => progress.status === 'archived');
+
+/**
+ * Carry on with a paused or archived plan. The schedule moves on by the days
+ * it was paused, so the reader picks up where they stopped.
+ */
+export const resumeProgress = (progress: UserProgress, today: Date = new Date()): UserProgress => {
+  const { pausedAt, ...rest } = progress;
+  const pausedDays = pausedAt ? Math.max(differenceInCalendarDays(today, parseISO(pausedAt)), 0) : 0;
+  return {
+    ...rest,
+    status: 'active',
+    startDate: toDateString(addDays(parseISO(progress.startDate), pausedDays))
+  };
+};
+
+// Read a plan, starting it if it's new and resuming it if it was put aside
+export const startPlan = (settings: AppSettings, planId: string, today: Date = new Date()): Partial<AppSettings> => {
+  const progress = settings.planProgress?.[planId];
+  return {
+    selectedPlan: planId,
+    planProgress: {
+      ...settings.planProgress,
+      [planId]: !progress
+        ? createProgress(planId, today)
+        : progress.status === 'active'
+          ? progress
+          : resumeProgress(progress, today)
+    }
+  };
+};
+
+// The next plan to read once `planId` is put aside
+const nextSelectedPlan = (settings: AppSettings, planId: string): string | undefined => {
+  if (settings.selectedPlan !== planId) return settings.selectedPlan;
+  return getPlansInProgress(settings).find(progress => progress.planId !== planId && progress.status === 'active')?.planId;
+};
+
+export const pausePlan = (settings: AppSettings, planId: string, today: Date = new Date()): Partial<AppSettings> =>
+  updatePlanProgress(settings, planId, { status: 'paused', pausedAt: toDateString(today) });
+
+// Put a plan away, keeping its progress so it can be resumed later
+export const archivePlan = (settings: AppSettings, planId: string, today: Date = new Date()): Partial<AppSettings> => {
+  const progress = getPlanProgress(settings, planId);
+  return {
+    selectedPlan: nextSelectedPlan(settings, planId),
+    ...updatePlanProgress(settings, planId, {
+      status: 'archived',
+      pausedAt: progress.pausedAt || toDateString(today)
+    })
+  };
+};
+
+/**
+ * Start a plan over from day 1. The readings done so far are kept as a past
+ * run, and any catch-up rebalancing is dropped along with the old schedule.
+ */
+export const restartPlan = (settings: AppSettings, planId: string, today: Date = new Date()): Partial<AppSettings> => {
+  const progress = getPlanProgress(settings, planId);
+  const pastRuns: PlanRun[] = [...(progress.pastRuns || [])];
+  if (progress.completedDays.length > 0) {
+    pastRuns.push({
+      startDate: progress.startDate,
+      endedAt: toDateString(today),
+      completedDays: progress.completedDays,
+      completionDates: progress.completionDates
+    });
+  }
+  const { [planId]: _previous, ...planSchedules } = settings.planSchedules || {};
+  return {
+    selectedPlan: planId,
+    planSchedules,
+    planProgress: {
+      ...settings.planProgress,
+      [planId]: {
+        ...createProgress(planId, today),
+        ...(progress.followCalendar ? { followCalendar: true } : {}),
+        ...(pastRuns.length > 0 ? { pastRuns } : {})
+      }
+    }
+  };
+};
+
+// Forget a plan that no longer exists, along with its schedule
+export const removePlanProgress = (settings: AppSettings, planId: string): Partial<AppSettings> => {
+  const { [planId]: _progress, ...planProgress } = settings.planProgress || {};
+  const { [planId]: _schedule, ...planSchedules } = settings.planSchedules || {};
+  return { selectedPlan: nextSelectedPlan(settings, planId), planProgress, planSchedules };
+};
+
+/**
+ * Move progress saved before plans were tracked separately (a single
+ * current day, completed days and start date for the selected plan) into
+ * that plan's progress.
+ */
+export const migrateLegacyProgress = (data: unknown, today: Date = new Date()): AppSettings => {
+  const record = typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : {};
+  const { currentDay, completedDays, completionDates, planStartDate, followCalendar, ...rest } = record;
+  // Everything else is saved settings, checked by whoever loads them
+  const settings = rest as unknown as AppSettings;
+  const days = sanitizeDays(completedDays);
+  const day = typeof currentDay === 'number' && Number.isInteger(currentDay) && currentDay > 0 ? currentDay : 1;
+  const hasLegacyProgress = Boolean(settings.selectedPlan) || days.length > 0 || day > 1;
+  const planId = getSelectedPlanId(typeof settings.selectedPlan === 'string' ? settings.selectedPlan : undefined);
+  if (!hasLegacyProgress || settings.planProgress?.[planId]) return settings;
+
+  const progress: UserProgress = {
+    planId,
+    status: 'active',
+    currentDay: day,
+    completedDays: days.sort((a, b) => a - b),
+    completionDates: sanitizeDates(completionDates),
+    // Plans started before start dates were saved are on schedule where they are
+    startDate: isDate(planStartDate) ? planStartDate : getStartDateForDay(day, today),
+    ...(followCalendar ? { followCalendar: true } : {})
+  };
+  return { ...settings, selectedPlan: planId, planProgress: { ...settings.planProgress, [planId]: progress } };
+};
+
+const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const sanitizeDays = (value: unknown): number[] =>
+  Array.isArray(value) ? value.filter(day => Number.isInteger(day) && day > 0) : [];
+
+const sanitizePassages = (value: unknown): Record<number, number[]> => {
+  const passages: Record<number, number[]> = {};
+  if (typeof value !== 'object' || value === null) return passages;
+  Object.entries(value).forEach(([day, indexes]) => {
+    if (Number(day) > 0 && Array.isArray(indexes) && indexes.every(index => Number.isInteger(index) && index >= 0)) {
+      passages[Number(day)] = indexes;
+    }
+  });
+  return passages;
+};
+
+const sanitizeDates = (value: unknown): Record<number, string> => {
+  const dates: Record<number, string> = {};
+  if (typeof value !== 'object' || value === null) return dates;
+  Object.entries(value).forEach(([day, date]) => {
+    if (Number(day) > 0 && isDate(date)) dates[Number(day)] = date;
+  });
+  return dates;
+};
+
+// A past run with its dates, whatever else it holds
+const isPastRun = (value: unknown): value is PlanRun => {
+  if (typeof value !== 'object' || value === null) return false;
+  const run = value as Partial<PlanRun>;
+  return isDate(run.startDate) && isDate(run.endedAt);
+};
+
+// Keep only well-formed plan progress from an imported backup
+export const sanitizePlanProgress = (data: unknown): Record<string, UserProgress> => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return {};
+
+  const planProgress: Record<string, UserProgress> = {};
+  Object.entries(data).forEach(([planId, progress]) => {
+    if (typeof progress !== 'object' || progress === null || !isDate(progress.startDate)) return;
+    const runs: unknown[] = Array.isArray(progress.pastRuns) ? progress.pastRuns : [];
+    const pastRuns: PlanRun[] = runs
+      .filter(isPastRun)
+      .map(run => ({
+        startDate: run.startDate,
+        endedAt: run.endedAt,
+        completedDays: sanitizeDays(run.completedDays),
+        completionDates: sanitizeDates(run.completionDates)
+      }));
+    planProgress[planId] = {
+      planId,
+      status: PLAN_STATUSES.includes(progress.status) ? progress.status : 'active',
+      currentDay: Number.isInteger(progress.currentDay) && progress.currentDay > 0 ? progress.currentDay : 1,
+      completedDays: sanitizeDays(progress.completedDays),
+      completionDates: sanitizeDates(progress.completionDates),
+      ...(progress.completedPassages ? { completedPassages: sanitizePassages(progress.completedPassages) } : {}),
+      startDate: progress.startDate,
+      ...(progress.followCalendar === true ? { followCalendar: true } : {}),
+      ...(isDate(progress.pausedAt) ? { pausedAt: progress.pausedAt } : {}),
+      ...(pastRuns.length > 0 ? { pastRuns } : {})
+    };
+  });
+  return planProgress;
+};
@@ -0,0 +1,131 @@
+import { formatReference, parseReference } from './reference';
+
+const parse = (input: string) => {
+  const result = parseReference(input);
+  if (!result.ok) throw new Error(`${input}: ${result.error.message}`);
+  return result.ranges;
+};
+
+const errorCode = (input: string) => {
+  const result = parseReference(input);
+  return result.ok ? null : result.error.code;
+};
+
+describe('parseReference', () => {
+  test('parses the reference shapes used by reading plans', () => {
+    expect(parse('Genesis 1:1-2:25')).toEqual([
+      { book: 'Gen', startChapter: 1, startVerse: 1, endChapter: 2, endVerse: 25 }
+    ]);
+    expect(parse('Psalm 1:1-6')).toEqual([
+      { book: 'Ps', startChapter: 1, startVerse: 1, endChapter: 1, endVerse: 6 }
+    ]);
+    expect(parse('Proverbs 10:5')).toEqual([
+      { book: 'Prov', startChapter: 10, startVerse: 5, endChapter: 10, endVerse: 5 }
+    ]);
+    expect(parse('1Samuel 3:1-4:22')[0].book).toBe('1Sam');
+    expect(parse('SongOfSongs 1:1-4')[0].book).toBe('Song');
+  });
+
+  test('parses whole chapters and chapter ranges', () => {
+    expect(parse('Genesis 1')).toEqual([
+      { book: 'Gen', startChapter: 1, startVerse: 1, endChapter: 1 }
+    ]);
+    expect(parse('Genesis 1-3')).toEqual([
+      { book: 'Gen', startChapter: 1, startVerse: 1, endChapter: 3 }
+    ]);
+    expect(parse('Ruth')).toEqual([
+      { book: 'Ruth', startChapter: 1, startVerse: 1, endChapter: 4 }
+    ]);
+  });
+
+  test('parses comma and semicolon lists with the book carried over', () => {
+    expect(parse('John 3:16,18; 4:1-5')).toEqual([
+      { book: 'John', startChapter: 3, startVerse: 16, endChapter: 3, endVerse: 16 },
+      { book: 'John', startChapter: 3, startVerse: 18, endChapter: 3, endVerse: 18 },
+      { book: 'John', startChapter: 4, startVerse: 1, endChapter: 4, endVerse: 5 }
+    ]);
+    expect(parse('Gen 1, 3; Exod 2:1').map(r => [r.book, r.startChapter])).toEqual([
+      ['Gen', 1], ['Gen', 3], ['Exod', 2]
+    ]);
+  });
+
+  test('parses abbreviations', () => {
+    expect(parse('Gen 1:1')[0].book).toBe('Gen');
+    expect(parse('1 Cor 13')[0].book).toBe('1Cor');
+    expect(parse('Ps 23')[0].book).toBe('Ps');
+    expect(parse('1 Jn 1:9')[0].book).toBe('1John');
+    expect(parse('Rom. 8:28')[0].book).toBe('Rom');
+    expect(parse('John 3.16')[0]).toMatchObject({ startChapter: 3, startVerse: 16 });
+  });
+
+  test('parses Chinese references and full-width punctuation', () => {
+    expect(parse('创 1:1-5')).toEqual([
+      { book: 'Gen', startChapter: 1, startVerse: 1, endChapter: 1, endVerse: 5 }
+    ]);
+    expect(parse('约翰福音3：16')[0]).toMatchObject({ book: 'John', startChapter: 3, startVerse: 16 });
+    expect(parse('林前 13；14：1')).toHaveLength(2);
+    expect(parse('撒上 17:1–58')[0]).toMatchObject({ book: '1Sam', endVerse: 58 });
+    expect(parse('約翰福音 3:16')[0]).toMatchObject({ book: 'John', startChapter: 3 });
+    expect(parse('啟 21:1')[0].book).toBe('Rev');
+  });
+
+  test('treats numbers in single-chapter books as verses', () => {
+    expect(parse('Jude 3-5')).toEqual([
+      { book: 'Jude', startChapter: 1, startVerse: 3, endChapter: 1, endVerse: 5 }
+    ]);
+  });
+
+  test('parses open-ended ranges', () => {
+    expect(parse('John 3:16ff')).toEqual([
+      { book: 'John', startChapter: 3, startVerse: 16, endChapter: 3 }
+    ]);
+  });
+
+  test('returns structured errors', () => {
+    expect(errorCode('')).toBe('empty');
+    expect(errorCode('Hezekiah 1:1')).toBe('unknown-book');
+    expect(errorCode('3:16')).toBe('missing-book');
+    expect(errorCode('John 3:x')).toBe('invalid-syntax');
+    expect(errorCode('John 3:16-10')).toBe('invalid-range');
+    expect(errorCode('Genesis 51')).toBe('chapter-out-of-range');
+
+    expect(parseReference('Hezekiah 1:1')).toEqual({
+      ok: false,
+      error: { code: 'unknown-book', message: 'Unknown book "Hezekiah"', segment: 'Hezekiah 1:1' }
+    });
+  });
+});
+
+describe('formatReference', () => {
+  test('formats ranges in each language', () => {
+    expect(formatReference(parse('Genesis 1:1-2:25'))).toBe('Genesis 1:1-2:25');
+    expect(formatReference(parse('Gen 1-3'))).toBe('Genesis 1-3');
+    expect(formatReference(parse('John 3:16'), 'zh')).toBe('约翰福音 3:16');
+    expect(formatReference(parse('2 Cor 5:17'), 'zh-Hant')).toBe('哥林多後書 5:17');
+    expect(formatReference(parse('1 Cor 13:4-7'), 'en', { abbreviate: true })).toBe('1Cor 13:4-7');
+    expect(formatReference(parse('1 Cor 13:4-7'), 'zh', { abbreviate: true })).toBe('林前 13:4-7');
+  });
+
+  test('collapses lists within a book', () => {
+    expect(formatReference(parse('John 3:16,18; 4:1-5'))).toBe('John 3:16, 18; 4:1-5');
+    expect(formatReference(parse('John 3:16; Rom 8:28'))).toBe('John 3:16; Romans 8:28');
+  });
+
+  test('round-trips through the parser', () => {
+    ['Genesis 1:1-2:25', 'Psalms 23', 'John 3:16, 18; 4:1-5', 'John 3:16ff', 'Jude 1:3-5'].forEach(reference => {
+      expect(formatReference(parse(reference))).toBe(reference);
+    });
+  });
+
+  test('round-trips whole single-chapter books', () => {
+    ['Obadiah', 'Philemon', '2 John', '3 John', 'Jude'].forEach(name => {
+      const ranges = parse(name);
+      expect(formatReference(ranges)).toBe(name);
+      expect(parse(formatReference(ranges))).toEqual(ranges);
+    });
+    // A whole book after another range of the same book
+    const ranges = parse('Jude 3; Jude');
+    expect(formatReference(ranges)).toBe('Jude 1:3; 1:1ff');
+    expect(parse(formatReference(ranges))).toEqual(ranges);
+  });
+});
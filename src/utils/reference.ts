@@ -0,0 +1,272 @@
+import { VerseRange } from '../types';
+import { BookInfo, BookLanguage, findBook, getBook, getBookAbbreviation, getBookName } from './books';
+
+export type ReferenceErrorCode =
+  | 'empty'
+  | 'unknown-book'
+  | 'missing-book'
+  | 'invalid-syntax'
+  | 'invalid-range'
+  | 'chapter-out-of-range';
+
+export interface ReferenceParseError {
+  code: ReferenceErrorCode;
+  message: string;
+  // The part of the input the error refers to
+  segment: string;
+}
+
+export type ParseReferenceResult =
+  | { ok: true; ranges: VerseRange[] }
+  | { ok: false; error: ReferenceParseError };
+
+// Fold full-width and typographic punctuation so Chinese input and
+// copy-pasted references share one grammar
+const normalizeInput = (input: string): string =>
+  input
+    .replace(/[：]/g, ':')
+    .replace(/[，、]/g, ',')
+    .replace(/[；]/g, ';')
+    .replace(/[–—－~～]/g, '-')
+    .replace(/(\d)\s*\.\s*(\d)/g, '$1:$2')
+    .trim();
+
+// Optional leading 1-3 for numbered books, then words that contain no
+// digits or reference punctuation. Chinese names need no trailing space.
+const bookPattern = /^((?:[1-3]\s*)?[^\d\s:,;-]+(?:\s+[^\d\s:,;-]+)*)\s*(.*)$/;
+// "ff" marks a range that runs to the end of its last chapter
+const itemPattern = /^(\d+)(?::(\d+))?(?:-(\d+)(?::(\d+))?)?(ff)?$/i;
+
+const fail = (code: ReferenceErrorCode, message: string, segment: string): ParseReferenceResult => ({
+  ok: false,
+  error: { code, message, segment }
+});
+
+const checkRange = (range: VerseRange, book: BookInfo, item: string): ParseReferenceResult | null => {
+  if (range.startChapter < 1 || range.startVerse < 1 || (range.endVerse !== undefined && range.endVerse < 1)) {
+    return fail('invalid-range', `Chapter and verse numbers start at 1: "${item}"`, item);
+  }
+  if (range.endChapter > book.chapters) {
+    return fail('chapter-out-of-range', `${book.names.en} has ${book.chapters} chapters: "${item}"`, item);
+  }
+  const endsBeforeStart = range.endChapter < range.startChapter ||
+    (range.endChapter === range.startChapter && range.endVerse !== undefined && range.endVerse < range.startVerse);
+  if (endsBeforeStart) {
+    return fail('invalid-range', `Range ends before it starts: "${item}"`, item);
+  }
+  return null;
+};
+
+/**
+ * Parse a scripture reference into normalized verse ranges.
+ *
+ * Accepts whole books and chapters ("Genesis 1", "Gen 1-3"), verses and
+ * verse ranges, cross-chapter ranges ("Genesis 1:1-2:25"), comma and
+ * semicolon lists where the book carries over ("John 3:16,18; 4:1-5"),
+ * abbreviations ("1 Cor 13") and Chinese names ("创 1:1-5").
+ */
+export const parseReference = (input: string): ParseReferenceResult => {
+  const text = normalizeInput(input);
+  if (!text) {
+    return fail('empty', 'Reference is empty', input);
+  }
+
+  const ranges: VerseRange[] = [];
+  let book: BookInfo | undefined;
+
+  for (const rawSegment of text.split(';')) {
+    const segment = rawSegment.trim();
+    if (!segment) continue;
+
+    let body = segment;
+    const bookMatch = segment.match(bookPattern);
+    if (bookMatch) {
+      book = findBook(bookMatch[1]);
+      if (!book) {
+        return fail('unknown-book', `Unknown book "${bookMatch[1]}"`, segment);
+      }
+      body = bookMatch[2];
+    } else if (!book) {
+      return fail('missing-book', `No book given for "${segment}"`, segment);
+    }
+
+    if (!body.trim()) {
+      ranges.push({ book: book.id, startChapter: 1, startVerse: 1, endChapter: book.chapters });
+      continue;
+    }
+
+    // Inside a list, bare numbers after a verse are more verses of the same
+    // chapter ("3:16,18"); a semicolon resets this back to chapters
+    let chapter: number | undefined;
+    let verseContext = book.chapters === 1;
+    if (verseContext) chapter = 1;
+
+    for (const rawItem of body.split(',')) {
+      const item = rawItem.replace(/\s+/g, '');
+      const match = item.match(itemPattern);
+      if (!match) {
+        return fail('invalid-syntax', `Cannot read "${rawItem.trim()}"`, segment);
+      }
+
+      const [a, b, c, d] = match.slice(1, 5).map(n => (n === undefined ? undefined : parseInt(n)));
+      const toEnd = match[5] !== undefined;
+      let range: VerseRange;
+
+      if (b !== undefined && toEnd && d === undefined) {
+        // C:Vff or C:V-Cff
+        range = { book: book.id, startChapter: a!, startVerse: b, endChapter: c ?? a! };
+        verseContext = true;
+      } else if (b !== undefined) {
+        // C:V, C:V-V or C:V-C:V
+        range = d !== undefined
+          ? { book: book.id, startChapter: a!, startVerse: b, endChapter: c!, endVerse: d }
+          : { book: book.id, startChapter: a!, startVerse: b, endChapter: a!, endVerse: c ?? b };
+        verseContext = true;
+      } else if (d !== undefined) {
+        // C-C:V
+        range = { book: book.id, startChapter: a!, startVerse: 1, endChapter: c!, endVerse: d };
+        verseContext = true;
+      } else if (verseContext && chapter !== undefined) {
+        // V or V-V in the current chapter
+        range = { book: book.id, startChapter: chapter, startVerse: a!, endChapter: chapter, endVerse: c ?? a };
+      } else {
+        // C or C-C
+        range = { book: book.id, startChapter: a!, startVerse: 1, endChapter: c ?? a! };
+      }
+
+      const error = checkRange(range, book, rawItem.trim());
+      if (error) return error;
+
+      ranges.push(range);
+      chapter = range.endChapter;
+    }
+  }
+
+  if (ranges.length === 0) {
+    return fail('empty', 'Reference is empty', input);
+  }
+  return { ok: true, ranges };
+};
+
+export interface FormatReferenceOptions {
+  abbreviate?: boolean;
+}
+
+const formatRangeBody = (range: VerseRange): string => {
+  const wholeChapters = range.startVerse === 1 && range.endVerse === undefined;
+  if (wholeChapters) {
+    return range.startChapter === range.endChapter
+      ? `${range.startChapter}`
+      : `${range.startChapter}-${range.endChapter}`;
+  }
+
+  const start = `${range.startChapter}:${range.startVerse}`;
+  if (range.endVerse === undefined) {
+    return range.endChapter === range.startChapter ? `${start}ff` : `${start}-${range.endChapter}ff`;
+  }
+  if (range.endChapter !== range.startChapter) {
+    return `${start}-${range.endChapter}:${range.endVerse}`;
+  }
+  return range.endVerse === range.startVerse ? start : `${start}-${range.endVerse}`;
+};
+
+const isVerseLevel = (range: VerseRange) => !(range.startVerse === 1 && range.endVerse === undefined);
+
+// Numbers after a single-chapter book are read as verses, so "Jude 1" would
+// parse back as Jude 1:1; the whole book is written as its name alone
+const isWholeSingleChapterBook = (range: VerseRange) =>
+  !isVerseLevel(range) && range.endChapter === 1 && getBook(range.book)?.chapters === 1;
+
+/**
+ * Format verse ranges back into a reference string, e.g.
+ * "John 3:16, 18; 4:1-5" or "约翰福音 3:16".
+ */
+export const formatReference = (
+  ranges: VerseRange[],
+  language: BookLanguage = 'en',
+  options: FormatReferenceOptions = {}
+): string => {
+  let result = '';
+  ranges.forEach((range, index) => {
+    const previous = ranges[index - 1];
+    const body = formatRangeBody(range);
+
+    if (!previous || previous.book !== range.book) {
+      const name = options.abbreviate
+        ? getBookAbbreviation(range.book, language)
+        : getBookName(range.book, language);
+      result += `${previous ? '; ' : ''}${name}${isWholeSingleChapterBook(range) ? '' : ` ${body}`}`;
+      return;
+    }
+    if (isWholeSingleChapterBook(range)) {
+      result += '; 1:1ff';
+      return;
+    }
+
+    const sameChapter = previous.endChapter === range.startChapter && range.startChapter === range.endChapter;
+    if (sameChapter && isVerseLevel(previous) && isVerseLevel(range)) {
+      result += `, ${body.slice(body.indexOf(':') + 1)}`;
+    } else {
+      result += `; ${body}`;
+    }
+  });
+  return result;
+};
+
+/**
+ * Deep link into the Bible browser for the start of a range. Accepts the
+ * same references as parseReference via /bible?ref=..., which redirects here.
+ */
+export const getBiblePath = (range: VerseRange): string => {
+  const path = `/bible/${range.book}/${range.startChapter}`;
+  const wholeChapter = range.startVerse === 1 && range.endVerse === undefined;
+  return wholeChapter ? path : `${path}?verse=${range.startVerse}`;
+};
+
+/**
+ * Canonical key for a single verse, e.g. "John.3.16". Highlights and other
+ * per-verse data are stored under this key so they show up in every
+ * translation.
+ */
+export const getVerseKey = (book: string, chapter: number, verse: number): string =>
+  `${book}.${chapter}.${verse}`;
+
+export const parseVerseKey = (key: string): { book: string; chapter: number; verse: number } | null => {
+  const match = key.match(/^(\w+)\.(\d+)\.(\d+)$/);
+  if (!match || !getBook(match[1])) return null;
+  return { book: match[1], chapter: parseInt(match[2]), verse: parseInt(match[3]) };
+};
+
+// A single verse as a range, for formatting and linking
+export const getVerseRange = (book: string, chapter: number, verse: number): VerseRange => ({
+  book,
+  startChapter: chapter,
+  startVerse: verse,
+  endChapter: chapter,
+  endVerse: verse
+});
+
+// The range spanning a set of verse keys, or null when they cross books
+export const getVerseKeysRange = (keys: string[]): VerseRange | null => {
+  const verses = keys.map(parseVerseKey);
+  if (verses.length === 0 || verses.some(v => !v || v.book !== verses[0]!.book)) return null;
+
+  const sorted = (verses as { book: string; chapter: number; verse: number }[])
+    .sort((a, b) => a.chapter - b.chapter || a.verse - b.verse);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  return {
+    book: first.book,
+    startChapter: first.chapter,
+    startVerse: first.verse,
+    endChapter: last.chapter,
+    endVerse: last.verse
+  };
+};
+
+export const rangeContainsVerse = (range: VerseRange, book: string, chapter: number, verse: number): boolean => {
+  if (range.book !== book || chapter < range.startChapter || chapter > range.endChapter) return false;
+  if (chapter === range.startChapter && verse < range.startVerse) return false;
+  if (chapter === range.endChapter && range.endVerse !== undefined && verse > range.endVerse) return false;
+  return true;
+};
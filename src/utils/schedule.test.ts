@@ -0,0 +1,33 @@
+import { parseISO } from 'date-fns';
+import { getPlanStartDate, getScheduleStatus, getScheduledDay, getStartDateForDay } from './schedule';
+
+const today = parseISO('2024-03-10');
+
+test('finds the day scheduled for today', () => {
+  const start = getPlanStartDate('2024-03-01', false, 0, today);
+  expect(getScheduledDay(start, 365, today)).toBe(10);
+  expect(getScheduledDay(start, 7, today)).toBe(7);
+  expect(getScheduledDay(parseISO('2024-04-01'), 365, today)).toBe(1);
+  expect(getStartDateForDay(10, today)).toBe('2024-03-01');
+});
+
+test('follows the calendar from January 1', () => {
+  const start = getPlanStartDate('2024-03-01', true, 0, today);
+  // 2024 is a leap year: 31 + 29 + 10
+  expect(getScheduledDay(start, 366, today)).toBe(70);
+});
+
+test('counts reading days behind and ahead', () => {
+  expect(getScheduleStatus(new Set([1, 2]), 3)).toEqual({ state: 'on-track', days: 0 });
+  expect(getScheduleStatus(new Set([1, 2, 3]), 3)).toEqual({ state: 'on-track', days: 0 });
+  expect(getScheduleStatus(new Set([1]), 4)).toEqual({ state: 'behind', days: 2 });
+  expect(getScheduleStatus(new Set([1, 2, 3, 4, 5]), 3)).toEqual({ state: 'ahead', days: 2 });
+  // Skipped a day but read ahead to make up for it
+  expect(getScheduleStatus(new Set([1, 3, 4]), 3)).toEqual({ state: 'on-track', days: 0 });
+});
+
+test('rest days never count against the schedule', () => {
+  const readings = [['John 1'], ['John 2'], [], [], ['John 3']];
+  expect(getScheduleStatus(new Set([1, 2]), 5, readings)).toEqual({ state: 'on-track', days: 0 });
+  expect(getScheduleStatus(new Set([1]), 5, readings)).toEqual({ state: 'behind', days: 1 });
+});
@@ -0,0 +1,59 @@
+import { addDays, differenceInCalendarDays, format, parseISO, startOfYear } from 'date-fns';
+
+export type ScheduleState = 'on-track' | 'behind' | 'ahead';
+
+export interface ScheduleStatus {
+  state: ScheduleState;
+  // Reading days behind or ahead of the schedule
+  days: number;
+}
+
+// yyyy-MM-dd start date that puts `day` on `today`
+export const getStartDateForDay = (day: number, today: Date = new Date()): string =>
+  format(addDays(today, 1 - day), 'yyyy-MM-dd');
+
+/**
+ * Day 1 of the schedule: January 1 when following the calendar, so day N is
+ * day N of the year, otherwise the day the plan was started. A schedule
+ * pushed back to catch up starts `delay` days later.
+ */
+export const getPlanStartDate = (
+  planStartDate: string | undefined,
+  followCalendar: boolean | undefined,
+  delay: number = 0,
+  today: Date = new Date()
+): Date => {
+  const start = followCalendar ? startOfYear(today) : planStartDate ? parseISO(planStartDate) : today;
+  return addDays(start, delay);
+};
+
+// The plan day scheduled for today, kept within the plan
+export const getScheduledDay = (startDate: Date, totalDays: number, today: Date = new Date()): number =>
+  Math.min(Math.max(differenceInCalendarDays(today, startDate) + 1, 1), Math.max(totalDays, 1));
+
+export const getScheduledDate = (startDate: Date, day: number): Date => addDays(startDate, day - 1);
+
+/**
+ * Compare the reading days completed with the ones scheduled so far. Today's
+ * reading only counts against the schedule once it is done. Rest days (days
+ * without passages) never do, nor do missed days deferred to catch up later.
+ */
+export const getScheduleStatus = (
+  completedDays: Set<number>,
+  scheduledDay: number,
+  readings: string[][] = [],
+  deferred: Set<number> = new Set()
+): ScheduleStatus => {
+  const isRest = (day: number) => readings[day - 1]?.length === 0;
+  let expected = 0;
+  for (let day = 1; day < scheduledDay; day++) {
+    if (!isRest(day) && !deferred.has(day)) expected++;
+  }
+  if (completedDays.has(scheduledDay) && !isRest(scheduledDay)) expected++;
+
+  const done = Array.from(completedDays).filter(day => !isRest(day)).length;
+  const difference = done - expected;
+  if (difference < 0) return { state: 'behind', days: -difference };
+  if (difference > 0) return { state: 'ahead', days: difference };
+  return { state: 'on-track', days: 0 };
+};
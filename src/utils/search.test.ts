@@ -0,0 +1,75 @@
+import { createBibleSource } from './bibleSource';
+import { parseSearchQuery, searchBible } from './search';
+
+const esv = createBibleSource({
+  Genesis: {
+    '1': {
+      '1': 'In the beginning, God created the heavens and the earth.',
+      '3': 'And God said, “Let there be light,” and there was light.'
+    }
+  },
+  John: {
+    '3': {
+      '16': 'For God so loved the world, that he gave his only Son.',
+      '17': 'For God did not send his Son into the world to condemn the world.'
+    }
+  },
+  '1 John': {
+    '4': { '8': 'Anyone who does not love does not know God, because God is love.' }
+  }
+}, 'ESV');
+
+const cuvs = createBibleSource({
+  verses: [
+    { book_name: '创世记', book: 1, chapter: 1, verse: 1, text: '起初，神创造天地。' },
+    { book_name: '约翰福音', book: 43, chapter: 3, verse: 16, text: '神爱世人，甚至将他的独生子赐给他们。' },
+    { book_name: '约翰一书', book: 62, chapter: 4, verse: 8, text: '没有爱心的，就不认识神，因为神就是爱。' }
+  ]
+}, 'CUVS');
+
+const references = (results: ReturnType<typeof searchBible>) =>
+  results.map(r => `${r.book} ${r.chapter}:${r.verse}`);
+
+describe('parseSearchQuery', () => {
+  test('separates quoted phrases from words and folds case and punctuation', () => {
+    expect(parseSearchQuery('"Let there be LIGHT," God god')).toEqual({
+      phrases: ['let there be light'],
+      words: ['god']
+    });
+  });
+});
+
+describe('searchBible', () => {
+  test('requires every word and ignores case', () => {
+    expect(references(searchBible(esv, 'WORLD son')).sort()).toEqual(['John 3:16', 'John 3:17']);
+    expect(searchBible(esv, 'world serpent')).toEqual([]);
+  });
+
+  test('matches whole words only', () => {
+    expect(references(searchBible(esv, 'love'))).toEqual(['1John 4:8']);
+  });
+
+  test('matches exact phrases across punctuation', () => {
+    const [result] = searchBible(esv, '"god said let"');
+    expect(`${result.book} ${result.chapter}:${result.verse}`).toBe('Gen 1:3');
+    expect(result.text.slice(...result.highlights[0])).toBe('God said, “Let');
+  });
+
+  test('ranks repeated and complete matches first', () => {
+    expect(references(searchBible(esv, 'world'))).toEqual(['John 3:17', 'John 3:16']);
+  });
+
+  test('filters by book, testament and range', () => {
+    expect(references(searchBible(esv, 'god', { testament: 'OT' }))).toEqual(['Gen 1:1', 'Gen 1:3']);
+    expect(references(searchBible(esv, 'god', { book: '1John' }))).toEqual(['1John 4:8']);
+    expect(references(searchBible(esv, 'god', { range: { from: 'Matt', to: 'John' } })))
+      .toEqual(['John 3:16', 'John 3:17']);
+  });
+
+  test('finds Chinese text without word spaces', () => {
+    expect(references(searchBible(cuvs, '神爱'))).toEqual(['John 3:16']);
+    expect(references(searchBible(cuvs, '爱'))).toEqual(['1John 4:8', 'John 3:16']);
+    const [result] = searchBible(cuvs, '创造天地');
+    expect(result.text.slice(...result.highlights[0])).toBe('创造天地');
+  });
+});
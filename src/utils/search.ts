@@ -0,0 +1,269 @@
+import { BibleSource } from './bibleSource';
+import { BookInfo, getBook } from './books';
+
+export interface SearchScope {
+  testament?: 'OT' | 'NT';
+  book?: string;
+  // Inclusive run of books in canonical order, e.g. Matt to John
+  range?: { from: string; to: string };
+}
+
+export interface SearchQuery {
+  // Quoted text that must appear as written
+  phrases: string[];
+  // Everything else; every word must appear somewhere in the verse
+  words: string[];
+}
+
+export interface SearchResult {
+  book: string;
+  chapter: number;
+  verse: number;
+  text: string;
+  score: number;
+  // [start, end) offsets of matched text, sorted and non-overlapping
+  highlights: [number, number][];
+}
+
+interface IndexedVerse {
+  book: BookInfo;
+  chapter: number;
+  verse: number;
+  text: string;
+  folded: string;
+}
+
+interface SearchIndex {
+  verses: IndexedVerse[];
+  // Token -> ids of the verses containing it, in canonical order
+  postings: Map<string, number[]>;
+}
+
+// Chinese characters, which are words of their own
+export const hanCharacter = /[\u3400-\u9fff\uf900-\ufaff]/;
+// Han runs may be spaced out character by character in some data files
+const tokenPattern = /[\u3400-\u9fff\uf900-\ufaff](?: *[\u3400-\u9fff\uf900-\ufaff])*|[^\s\u3400-\u9fff\uf900-\ufaff]+/g;
+
+/**
+ * Fold text for matching: lowercase, strip accents and turn punctuation into
+ * spaces. Every character stays at its offset, so matches found in the folded
+ * text can be highlighted in the original.
+ */
+export const foldText = (text: string): string => {
+  let lower = text.toLowerCase();
+  if (lower.length !== text.length) {
+    // A few characters lowercase to more than one; leave those as they are
+    lower = text.split('').map(char => (char.toLowerCase().length === 1 ? char.toLowerCase() : char)).join('');
+  }
+  return lower
+    .replace(/[\u00c0-\u024f]/g, char => char.normalize('NFD')[0])
+    .replace(/[^\p{L}\p{N}]+/gu, match => ' '.repeat(match.length));
+};
+
+// English is indexed by word. Chinese has no spaces between words, so runs of
+// Han characters are indexed as overlapping character pairs (bigrams).
+const tokenize = (folded: string): string[] => {
+  const tokens: string[] = [];
+  (folded.match(tokenPattern) || []).forEach(run => {
+    if (!hanCharacter.test(run[0])) {
+      tokens.push(run);
+      return;
+    }
+    const characters = run.replace(/ /g, '');
+    for (let i = 0; i < characters.length - 1; i++) {
+      tokens.push(characters.substr(i, 2));
+    }
+  });
+  return tokens;
+};
+
+const indexCache = new WeakMap<BibleSource, SearchIndex>();
+
+// Built on the first search in a translation and kept with its source
+const getSearchIndex = (source: BibleSource): SearchIndex => {
+  const cached = indexCache.get(source);
+  if (cached) return cached;
+
+  const verses: IndexedVerse[] = [];
+  const postings = new Map<string, number[]>();
+  source.listBooks().forEach(book => {
+    for (let chapter = 1; chapter <= source.getChapterCount(book.id); chapter++) {
+      source.getChapter(book.id, chapter)?.verses.forEach(v => {
+        const id = verses.length;
+        const folded = foldText(v.text);
+        verses.push({ book, chapter, verse: v.verse, text: v.text, folded });
+        new Set(tokenize(folded)).forEach(token => {
+          const list = postings.get(token);
+          if (list) {
+            list.push(id);
+          } else {
+            postings.set(token, [id]);
+          }
+        });
+      });
+    }
+  });
+
+  const index = { verses, postings };
+  indexCache.set(source, index);
+  return index;
+};
+
+const quotePattern = /["“”「」『』]([^"“”「」『』]*)["“”「」『』]?/g;
+
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const phrases: string[] = [];
+  const rest = input.replace(quotePattern, (_, phrase: string) => {
+    const folded = foldText(phrase).trim().replace(/\s+/g, ' ');
+    if (folded && !phrases.includes(folded)) phrases.push(folded);
+    return ' ';
+  });
+  const words = foldText(rest).split(/\s+/).filter(Boolean);
+  return { phrases, words: words.filter((word, i) => words.indexOf(word) === i) };
+};
+
+const isWordCharacter = (char: string | undefined) => !!char && char !== ' ' && !hanCharacter.test(char);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// English terms only match whole words. Spaces in a phrase match any run of
+// spaces or punctuation, and Han characters may have spaces between them.
+const termPattern = (term: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < term.length; i++) {
+    const char = term[i];
+    const afterHan = i > 0 && hanCharacter.test(term[i - 1]);
+    if (char === ' ') {
+      source += afterHan && hanCharacter.test(term[i + 1] || '') ? '' : ' +';
+    } else {
+      source += (afterHan && hanCharacter.test(char) ? ' *' : '') + escapeRegExp(char);
+    }
+  }
+  return new RegExp(source, 'g');
+};
+
+const findTerm = (folded: string, term: string, pattern: RegExp): [number, number][] => {
+  const needsStart = isWordCharacter(term[0]);
+  const needsEnd = isWordCharacter(term[term.length - 1]);
+  const found: [number, number][] = [];
+
+  pattern.lastIndex = 0;
+  let match = pattern.exec(folded);
+  while (match) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if ((!needsStart || !isWordCharacter(folded[start - 1])) && (!needsEnd || !isWordCharacter(folded[end]))) {
+      found.push([start, end]);
+    }
+    pattern.lastIndex = start + 1;
+    match = pattern.exec(folded);
+  }
+  return found;
+};
+
+const intersect = (a: number[], b: number[]): number[] => {
+  const result: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push(a[i]);
+      i++;
+      j++;
+    } else if (a[i] < b[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+};
+
+const inScope = (book: BookInfo, scope: SearchScope) => {
+  if (scope.testament && book.testament !== scope.testament) return false;
+  if (scope.book && book.id !== scope.book) return false;
+  if (scope.range) {
+    const from = getBook(scope.range.from)?.order ?? 1;
+    const to = getBook(scope.range.to)?.order ?? Infinity;
+    if (book.order < Math.min(from, to) || book.order > Math.max(from, to)) return false;
+  }
+  return true;
+};
+
+const mergeRanges = (ranges: [number, number][]): [number, number][] => {
+  const merged: [number, number][] = [];
+  ranges
+    .slice()
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([start, end]) => {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        merged.push([start, end]);
+      }
+    });
+  return merged;
+};
+
+/**
+ * Search a translation. Every phrase and word must match; results are ranked
+ * so verses containing the whole query as written, repeated matches and
+ * short verses where the match is most of the text come first.
+ */
+export const searchBible = (source: BibleSource, input: string, scope: SearchScope = {}): SearchResult[] => {
+  const query = parseSearchQuery(input);
+  const terms = [...query.phrases, ...query.words];
+  if (terms.length === 0) return [];
+
+  const index = getSearchIndex(source);
+
+  // Narrow down with the token index; a lone Chinese character has no
+  // bigram, so it is checked against the text of the remaining verses
+  let candidates: number[] | null = null;
+  for (const term of terms) {
+    for (const token of tokenize(term)) {
+      const list: number[] = index.postings.get(token) || [];
+      candidates = candidates ? intersect(candidates, list) : list;
+    }
+  }
+  const ids = candidates || index.verses.map((_, id) => id);
+  const patterns = terms.map(termPattern);
+  const wholeQuery = query.words.length > 1 ? query.words.join(' ') : null;
+  const wholeQueryPattern = wholeQuery ? termPattern(wholeQuery) : null;
+
+  const results: SearchResult[] = [];
+  ids.forEach(id => {
+    const verse = index.verses[id];
+    if (!inScope(verse.book, scope)) return;
+
+    let score = 0;
+    const highlights: [number, number][] = [];
+    for (let i = 0; i < terms.length; i++) {
+      const found = findTerm(verse.folded, terms[i], patterns[i]);
+      if (found.length === 0) return;
+      const weight = i < query.phrases.length ? 3 : 1;
+      score += weight * (1 + Math.log(found.length));
+      highlights.push(...found);
+    }
+
+    if (wholeQuery && wholeQueryPattern && findTerm(verse.folded, wholeQuery, wholeQueryPattern).length > 0) {
+      score += 2;
+    }
+    const merged = mergeRanges(highlights);
+    const matched = merged.reduce((sum, [start, end]) => sum + end - start, 0);
+    score += matched / verse.text.length;
+
+    results.push({
+      book: verse.book.id,
+      chapter: verse.chapter,
+      verse: verse.verse,
+      text: verse.text,
+      score,
+      highlights: merged
+    });
+  });
+
+  // Ties keep canonical order
+  return results.sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,22 @@
+import { getSelectedVerses, updateSelection } from './selection';
+
+const verses = [15, 16, 17, 18].map(verse => ({ book: 'John', chapter: 3, verse, text: `v${verse}` }));
+
+test('clicks toggle a single verse and shift-clicks extend it', () => {
+  const one = updateSelection(null, 'John.3.16', 'toggle');
+  expect(one).toEqual({ anchor: 'John.3.16', focus: 'John.3.16' });
+  expect(updateSelection(one, 'John.3.16', 'toggle')).toBeNull();
+  expect(updateSelection(one, 'John.3.18', 'toggle')).toEqual({ anchor: 'John.3.18', focus: 'John.3.18' });
+
+  const run = updateSelection(one, 'John.3.18', 'extend');
+  expect(run).toEqual({ anchor: 'John.3.16', focus: 'John.3.18' });
+  expect(updateSelection(run, 'John.3.16', 'start')).toEqual({ anchor: 'John.3.16', focus: 'John.3.16' });
+  expect(updateSelection(null, 'John.3.17', 'extend')).toEqual({ anchor: 'John.3.17', focus: 'John.3.17' });
+});
+
+test('selected verses are in reading order whichever way the run goes', () => {
+  expect(getSelectedVerses(verses, { anchor: 'John.3.17', focus: 'John.3.15' }).map(v => v.verse)).toEqual([15, 16, 17]);
+  expect(getSelectedVerses(verses, { anchor: 'John.3.16', focus: 'John.3.16' }).map(v => v.verse)).toEqual([16]);
+  expect(getSelectedVerses(verses, { anchor: 'John.4.1', focus: 'John.3.16' })).toEqual([]);
+  expect(getSelectedVerses(verses, null)).toEqual([]);
+});
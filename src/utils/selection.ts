@@ -0,0 +1,39 @@
+import { PassageVerse } from '../types';
+import { getVerseKey } from './reference';
+
+// A run of verses from the first one picked (anchor) to the last (focus)
+export interface VerseSelection {
+  anchor: string;
+  focus: string;
+}
+
+/**
+ * 'toggle' is a plain click: select one verse, or clear it if it is the only
+ * one selected. 'extend' (shift-click or dragging) moves the end of the run.
+ * 'start' begins a new run, as a long press does on touch screens.
+ */
+export type SelectionAction = 'toggle' | 'extend' | 'start';
+
+export const updateSelection = (
+  selection: VerseSelection | null,
+  key: string,
+  action: SelectionAction
+): VerseSelection | null => {
+  if (action === 'extend' && selection) {
+    return { anchor: selection.anchor, focus: key };
+  }
+  if (action === 'toggle' && selection && selection.anchor === key && selection.focus === key) {
+    return null;
+  }
+  return { anchor: key, focus: key };
+};
+
+// The selected verses in reading order; the selection may run either way
+export const getSelectedVerses = (verses: PassageVerse[], selection: VerseSelection | null): PassageVerse[] => {
+  if (!selection) return [];
+  const keys = verses.map(v => getVerseKey(v.book, v.chapter, v.verse));
+  const anchor = keys.indexOf(selection.anchor);
+  const focus = keys.indexOf(selection.focus);
+  if (anchor === -1 || focus === -1) return [];
+  return verses.slice(Math.min(anchor, focus), Math.max(anchor, focus) + 1);
+};
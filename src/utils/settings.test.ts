@@ -0,0 +1,25 @@
+import { AppSettings } from '../types';
+import { createDefaultSettings, resetAllData } from './settings';
+
+test('deletes imported translations and every setting when starting over', async () => {
+  const settings: AppSettings = {
+    ...createDefaultSettings(),
+    translation: 'NIV',
+    customTranslations: [
+      { id: 'NIV', name: 'New International Version', language: 'en', format: 'osis', importedAt: '2024-03-01T00:00:00Z' }
+    ],
+    parallel: { enabled: true, translation: 'NIV', layout: 'columns' },
+    speechRate: 1.5,
+    autoCompletePassages: true
+  };
+  const deleted: string[] = [];
+
+  const reset = await resetAllData(settings, async id => {
+    deleted.push(id);
+  });
+
+  expect(deleted).toEqual(['NIV']);
+  expect(reset).toEqual(createDefaultSettings());
+  expect(reset).not.toHaveProperty('customTranslations');
+  expect(reset).not.toHaveProperty('parallel');
+});
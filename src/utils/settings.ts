@@ -0,0 +1,51 @@
+import { AppSettings } from '../types';
+import { clearBibleSource } from './bibleSource';
+import { DEFAULT_CITATION } from './citation';
+import { DEFAULT_STREAK_RULES } from './streak';
+import { deleteTranslation } from './translationStore';
+
+// Settings of a new reader, with nothing read or saved yet
+export const createDefaultSettings = (): AppSettings => ({
+  translation: 'ESV',
+  uiLanguage: 'en',
+  fontSize: 16,
+  theme: 'light',
+  selectedPlan: undefined,
+  planProgress: {},
+  planSchedules: {},
+  streakRules: DEFAULT_STREAK_RULES,
+  streakFreezes: [],
+  highlights: {},
+  notes: [],
+  bookmarks: [],
+  lastRead: {},
+  planScroll: {},
+  citation: DEFAULT_CITATION,
+  memoryVerses: [],
+  practiceHistory: [],
+  customPlans: [],
+  notifications: {
+    enabled: false,
+    time: '08:00'
+  }
+});
+
+/**
+ * Delete all of the reader's data, including the text of imported
+ * translations kept outside the settings, and return the settings to start
+ * over with. They replace the old settings rather than merge into them.
+ */
+export const resetAllData = async (
+  settings: AppSettings,
+  removeTranslation: (id: string) => Promise<void> = deleteTranslation
+): Promise<AppSettings> => {
+  await Promise.all((settings.customTranslations || []).map(async ({ id }) => {
+    try {
+      await removeTranslation(id);
+    } catch (e) {
+      console.error('Error removing translation:', e);
+    }
+    clearBibleSource(id);
+  }));
+  return createDefaultSettings();
+};
@@ -0,0 +1,34 @@
+import { getSpeechLang, pickVoice } from './speech';
+
+const voice = (name: string, lang: string, isDefault = false) =>
+  ({ name, lang, default: isDefault, localService: true, voiceURI: name }) as SpeechSynthesisVoice;
+
+const voices = [
+  voice('Alex', 'en-GB'),
+  voice('Samantha', 'en-US'),
+  voice('Ting-Ting', 'zh_CN'),
+  voice('Sin-ji', 'zh-HK'),
+  voice('Thomas', 'fr-FR', true)
+];
+
+test('reads each translation language with its own tag', () => {
+  expect(getSpeechLang('en')).toBe('en-US');
+  expect(getSpeechLang('zh')).toBe('zh-CN');
+  expect(getSpeechLang('zh-Hant')).toBe('zh-TW');
+});
+
+test('prefers an exact voice match', () => {
+  expect(pickVoice(voices, 'en-US')?.name).toBe('Samantha');
+  expect(pickVoice(voices, 'zh-CN')?.name).toBe('Ting-Ting');
+});
+
+test('falls back to a close voice, then to the same language', () => {
+  expect(pickVoice(voices, 'zh-TW')?.name).toBe('Sin-ji');
+  expect(pickVoice([voices[0], voices[2]], 'zh-TW')?.name).toBe('Ting-Ting');
+  expect(pickVoice([voices[0], voices[4]], 'en-US')?.name).toBe('Alex');
+});
+
+test('prefers the default voice among equals and never picks another language', () => {
+  expect(pickVoice([voice('A', 'en-US'), voice('B', 'en-US', true)], 'en-US')?.name).toBe('B');
+  expect(pickVoice([voices[4]], 'zh-CN')).toBeUndefined();
+});
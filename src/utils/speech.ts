@@ -0,0 +1,47 @@
+import { BookLanguage } from './books';
+
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+export const isSpeechSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+
+// BCP 47 tag to read a translation in
+export const getSpeechLang = (language: BookLanguage): string => {
+  if (language === 'zh') return 'zh-CN';
+  if (language === 'zh-Hant') return 'zh-TW';
+  return 'en-US';
+};
+
+// Some platforms report tags as "zh_CN"
+const normalizeLang = (lang: string) => lang.replace('_', '-').toLowerCase();
+
+/**
+ * Best voice for a language tag: an exact match first, then a close one
+ * (Hong Kong for Taiwan, any English for en-US), then any voice of the same
+ * language. Among equals the system default wins. Returns undefined when no
+ * voice speaks the language, leaving the choice to the browser.
+ */
+export const pickVoice = (voices: SpeechSynthesisVoice[], lang: string): SpeechSynthesisVoice | undefined => {
+  const target = normalizeLang(lang);
+  const base = target.split('-')[0];
+  const close = target === 'zh-tw' ? ['zh-hk', 'zh-hant'] : [];
+
+  const score = (voice: SpeechSynthesisVoice) => {
+    const voiceLang = normalizeLang(voice.lang);
+    if (voiceLang === target) return 3;
+    if (close.some(c => voiceLang.startsWith(c))) return 2;
+    if (voiceLang.split('-')[0] === base) return 1;
+    return 0;
+  };
+
+  let best: SpeechSynthesisVoice | undefined;
+  let bestScore = 0;
+  voices.forEach(voice => {
+    const s = score(voice);
+    if (s > bestScore || (s === bestScore && s > 0 && voice.default && !best?.default)) {
+      best = voice;
+      bestScore = s;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,252 @@
+import { AppSettings } from '../types';
+import {
+  calculateStreaks,
+  DEFAULT_STREAK_RULES,
+  getReadDates,
+  getReadingDate,
+  getStreakStats,
+  sanitizeStreakRules,
+  toLocalDateString,
+  updateStreakRules
+} from './streak';
+// The Scriptable widgets' copy of the module, which must count the same way
+import scriptableStreak from '../../bibleduo-streak';
+
+// A moment as read on a clock `offsetHours` from UTC, whatever timezone the tests run in
+const atOffset = (utc: string, offsetHours: number): Date => {
+  const moment = new Date(utc);
+  const clock = new Date(moment.getTime() + offsetHours * 60 * 60 * 1000);
+  return Object.assign(moment, {
+    getFullYear: () => clock.getUTCFullYear(),
+    getMonth: () => clock.getUTCMonth(),
+    getDate: () => clock.getUTCDate()
+  });
+};
+
+const engines = [
+  ['app', { calculateStreaks, getReadingDate, toLocalDateString }],
+  ['Scriptable', scriptableStreak]
+] as const;
+
+describe.each(engines)('%s streak engine', (_, engine) => {
+  test('counts current and longest streaks', () => {
+    const dates = ['2024-03-01', '2024-03-02', '2024-03-03', '2024-03-05', '2024-03-06'];
+    expect(engine.calculateStreaks(dates, new Date(2024, 2, 6, 20))).toEqual({
+      currentStreak: 2,
+      longestStreak: 3,
+      lastReadDate: '2024-03-06',
+      status: 'active',
+      frozenDates: [],
+      currentFreezes: [],
+      freezesLeft: 0
+    });
+  });
+
+  test('keeps the streak at risk until a whole day is missed', () => {
+    const dates = ['2024-03-04', '2024-03-05', '2024-03-05', 'not a date'];
+    expect(engine.calculateStreaks(dates, new Date(2024, 2, 6, 9))).toMatchObject({ currentStreak: 2, status: 'at-risk' });
+    expect(engine.calculateStreaks(dates, new Date(2024, 2, 7, 9))).toMatchObject({
+      currentStreak: 0,
+      longestStreak: 2,
+      status: 'broken'
+    });
+    expect(engine.calculateStreaks([], new Date(2024, 2, 7))).toMatchObject({ currentStreak: 0, longestStreak: 0, status: 'none' });
+  });
+
+  test('uses the local date just after midnight east of UTC', () => {
+    // 00:30 on March 6 in Shanghai is still March 5 in UTC
+    const justAfterMidnight = atOffset('2024-03-05T16:30:00Z', 8);
+    expect(engine.toLocalDateString(justAfterMidnight)).toBe('2024-03-06');
+    expect(engine.calculateStreaks(['2024-03-05', '2024-03-06'], justAfterMidnight)).toMatchObject({
+      currentStreak: 2,
+      status: 'active'
+    });
+  });
+
+  test('uses the local date late in the evening west of UTC', () => {
+    // 23:30 on March 5 in Los Angeles is already March 6 in UTC
+    const lateEvening = atOffset('2024-03-06T07:30:00Z', -8);
+    expect(engine.toLocalDateString(lateEvening)).toBe('2024-03-05');
+    expect(engine.calculateStreaks(['2024-03-04'], lateEvening)).toMatchObject({ currentStreak: 1, status: 'at-risk' });
+  });
+
+  test('counts days across daylight saving changes', () => {
+    // New York clocks went forward on March 10, 2024 and back on November 3, 2024
+    const spring = ['2024-03-09', '2024-03-10', '2024-03-11'];
+    expect(engine.calculateStreaks(spring, atOffset('2024-03-12T03:59:00Z', -4))).toMatchObject({
+      currentStreak: 3,
+      longestStreak: 3,
+      status: 'active'
+    });
+    const autumn = ['2024-11-02', '2024-11-03', '2024-11-04'];
+    expect(engine.calculateStreaks(autumn, atOffset('2024-11-05T05:01:00Z', -5))).toMatchObject({
+      currentStreak: 3,
+      status: 'at-risk'
+    });
+  });
+
+  test('never breaks a streak on a rest day', () => {
+    // March 3, 2024 was a Sunday
+    const rules = { restDays: [0], freezes: 0, freezeMode: 'monthly' as const, graceHours: 0 };
+    const dates = ['2024-03-01', '2024-03-02', '2024-03-04'];
+    expect(engine.calculateStreaks(dates, new Date(2024, 2, 4, 20), rules)).toMatchObject({ currentStreak: 3, status: 'active' });
+    // Resting on Sunday keeps Saturday's streak going
+    expect(engine.calculateStreaks(dates.slice(0, 2), new Date(2024, 2, 3, 20), rules)).toMatchObject({
+      currentStreak: 2,
+      status: 'active'
+    });
+  });
+
+  test('uses up monthly freezes on missed days', () => {
+    const rules = { restDays: [], freezes: 1, freezeMode: 'monthly' as const, graceHours: 0 };
+    const dates = ['2024-03-28', '2024-03-30', '2024-04-01', '2024-04-03', '2024-04-05'];
+    // March's freeze covers March 29 and none is left for March 31; April's covers April 2 but not April 4
+    expect(engine.calculateStreaks(dates, new Date(2024, 3, 5, 20), rules)).toMatchObject({
+      currentStreak: 1,
+      longestStreak: 2,
+      frozenDates: ['2024-03-29', '2024-04-02'],
+      currentFreezes: [],
+      freezesLeft: 0
+    });
+    // A freeze recorded earlier still holds
+    expect(engine.calculateStreaks(dates, new Date(2024, 3, 5, 20), rules, ['2024-04-04'])).toMatchObject({
+      currentStreak: 3,
+      currentFreezes: ['2024-04-02', '2024-04-04']
+    });
+  });
+
+  test('earns freezes with every week of readings', () => {
+    const rules = { restDays: [], freezes: 2, freezeMode: 'earned' as const, graceHours: 0 };
+    const week = ['2024-03-01', '2024-03-02', '2024-03-03', '2024-03-04', '2024-03-05', '2024-03-06', '2024-03-07'];
+    expect(engine.calculateStreaks(week, new Date(2024, 2, 7, 20), rules)).toMatchObject({ freezesLeft: 1 });
+    expect(engine.calculateStreaks([...week, '2024-03-09'], new Date(2024, 2, 9, 20), rules)).toMatchObject({
+      currentStreak: 8,
+      frozenDates: ['2024-03-08'],
+      freezesLeft: 0
+    });
+    // Without a freeze earned, a missed day breaks the streak
+    expect(engine.calculateStreaks(['2024-03-01', '2024-03-03'], new Date(2024, 2, 3, 20), rules)).toMatchObject({
+      currentStreak: 1,
+      frozenDates: []
+    });
+  });
+
+  test('leaves days missed before freezes were turned on', () => {
+    const dates = ['2024-03-01', '2024-03-02', '2024-03-04', '2024-03-05'];
+    const before = engine.calculateStreaks(dates, new Date(2024, 2, 5, 20));
+    const rules = { restDays: [], freezes: 2, freezeMode: 'monthly' as const, freezesSince: '2024-03-05', graceHours: 0 };
+    expect(engine.calculateStreaks(dates, new Date(2024, 2, 5, 20), rules)).toMatchObject({
+      longestStreak: before.longestStreak,
+      frozenDates: []
+    });
+    // Days missed after that still use them up
+    expect(engine.calculateStreaks([...dates, '2024-03-07'], new Date(2024, 2, 7, 20), rules)).toMatchObject({
+      currentStreak: 3,
+      frozenDates: ['2024-03-06']
+    });
+    // Nor do readings before then earn any
+    const earned = { ...rules, freezeMode: 'earned' as const, freezesSince: '2024-03-08' };
+    const week = ['2024-03-01', '2024-03-02', '2024-03-03', '2024-03-04', '2024-03-05', '2024-03-06', '2024-03-07'];
+    expect(engine.calculateStreaks(week, new Date(2024, 2, 8, 20), earned)).toMatchObject({ freezesLeft: 0 });
+  });
+
+  test('counts readings in the grace hours after midnight for the day before', () => {
+    const rules = { restDays: [], freezes: 0, freezeMode: 'monthly' as const, graceHours: 2 };
+    const earlyMorning = new Date(2024, 2, 6, 1, 30);
+    expect(engine.getReadingDate(earlyMorning, 2)).toBe('2024-03-05');
+    expect(engine.getReadingDate(earlyMorning, 0)).toBe('2024-03-06');
+    // March 5 hasn't ended yet, so the streak is at risk rather than broken
+    expect(engine.calculateStreaks(['2024-03-03', '2024-03-04'], earlyMorning, rules)).toMatchObject({
+      currentStreak: 2,
+      status: 'at-risk'
+    });
+  });
+});
+
+test('collects read dates from every plan and past run', () => {
+  expect(getReadDates({
+    psalms: {
+      planId: 'psalms',
+      status: 'active',
+      currentDay: 3,
+      completedDays: [1, 2],
+      completionDates: { 1: '2024-03-01', 2: '2024-03-02' },
+      startDate: '2024-03-01',
+      pastRuns: [{ startDate: '2024-01-01', endedAt: '2024-02-01', completedDays: [1], completionDates: { 1: '2024-01-01' } }]
+    },
+    gospels: {
+      planId: 'gospels',
+      status: 'paused',
+      currentDay: 2,
+      completedDays: [1],
+      completionDates: { 1: '2024-03-02' },
+      startDate: '2024-03-02'
+    }
+  }).sort()).toEqual(['2024-01-01', '2024-03-01', '2024-03-02', '2024-03-02']);
+});
+
+test('reads the streak rules and freezes from settings', () => {
+  const stats = getStreakStats({
+    translation: 'ESV',
+    uiLanguage: 'en',
+    fontSize: 16,
+    theme: 'light',
+    planProgress: {
+      psalms: {
+        planId: 'psalms',
+        status: 'active',
+        currentDay: 3,
+        completedDays: [1, 2],
+        completionDates: { 1: '2024-03-01', 2: '2024-03-03' },
+        startDate: '2024-03-01'
+      }
+    },
+    streakFreezes: ['2024-03-02']
+  }, new Date(2024, 2, 3, 20));
+  expect(stats).toMatchObject({ currentStreak: 2, currentFreezes: ['2024-03-02'] });
+});
+
+test('turns freezes on without covering days already missed', () => {
+  const settings: AppSettings = {
+    translation: 'ESV',
+    uiLanguage: 'en',
+    fontSize: 16,
+    theme: 'light',
+    planProgress: {
+      psalms: {
+        planId: 'psalms',
+        status: 'active',
+        currentDay: 5,
+        completedDays: [1, 2, 3, 4],
+        completionDates: { 1: '2024-03-01', 2: '2024-03-02', 3: '2024-03-04', 4: '2024-03-05' },
+        startDate: '2024-03-01'
+      }
+    },
+    streakFreezes: []
+  };
+  const today = new Date(2024, 2, 5, 20);
+  const before = getStreakStats(settings, today);
+  const streakRules = updateStreakRules(DEFAULT_STREAK_RULES, { freezes: 3 }, today);
+  expect(streakRules.freezesSince).toBe('2024-03-05');
+  const after = getStreakStats({ ...settings, streakRules }, today);
+  expect(after.longestStreak).toBe(before.longestStreak);
+  // So there's nothing new for the app to record
+  expect(after.frozenDates).toEqual(settings.streakFreezes);
+  // Changing other rules later keeps the date
+  expect(updateStreakRules(streakRules, { freezeMode: 'earned' }, new Date(2024, 3, 1))).toMatchObject({
+    freezesSince: '2024-03-05'
+  });
+});
+
+test('sanitizes imported streak rules', () => {
+  expect(sanitizeStreakRules({ restDays: [0, 7, 'Sunday'], freezes: -2, freezeMode: 'weekly', graceHours: 12 })).toEqual({
+    restDays: [0],
+    freezes: 0,
+    freezeMode: 'monthly',
+    graceHours: 6
+  });
+  expect(sanitizeStreakRules({ restDays: [], freezes: 1, freezeMode: 'earned', freezesSince: '2024-03-05', graceHours: 0 }))
+    .toMatchObject({ freezesSince: '2024-03-05' });
+  expect(sanitizeStreakRules({ restDays: [], freezes: 1, freezeMode: 'earned', freezesSince: 'March', graceHours: 0 }))
+    .not.toHaveProperty('freezesSince');
+});
@@ -0,0 +1,175 @@
+import { AppSettings, FreezeMode, StreakRules, UserProgress } from '../types';
+
+/**
+ * Reading streaks from the local-calendar dates days were read on.
+ *
+ * Kept free of dependencies so the Scriptable widgets can share it: the
+ * module in bibleduo-streak.js at the repository root mirrors this one, and
+ * streak.test.ts runs the same cases against both.
+ */
+
+// 'at-risk' streaks are still alive but need today's reading
+export type StreakStatus = 'active' | 'at-risk' | 'broken' | 'none';
+
+export interface StreakStats {
+  currentStreak: number;
+  longestStreak: number;
+  // yyyy-MM-dd of the latest reading
+  lastReadDate?: string;
+  status: StreakStatus;
+  // Every missed day a freeze covered, and those within the current streak
+  frozenDates: string[];
+  currentFreezes: string[];
+  // Freezes left this month, or saved up
+  freezesLeft: number;
+}
+
+export const DEFAULT_STREAK_RULES: StreakRules = { restDays: [], freezes: 0, freezeMode: 'monthly', graceHours: 0 };
+
+export const FREEZE_MODES: FreezeMode[] = ['monthly', 'earned'];
+
+// Days read for each freeze earned
+export const EARN_FREEZE_EVERY = 7;
+
+export const MAX_GRACE_HOURS = 6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number): string => (value < 10 ? `0${value}` : String(value));
+
+// yyyy-MM-dd of a moment in the reader's own timezone, not UTC
+export const toLocalDateString = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// The day a reading at `date` counts for, allowing the grace hours after midnight
+export const getReadingDate = (date: Date = new Date(), graceHours: number = 0): string =>
+  toLocalDateString(graceHours > 0 ? new Date(date.getTime() - graceHours * 60 * 60 * 1000) : date);
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Days since the epoch of a calendar date, so daylight saving never shortens a day
+const toDayNumber = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+};
+
+const fromDayNumber = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Current and longest runs of days read. Rest days never break a run, and
+ * other missed days from `rules.freezesSince` on use up a freeze while there
+ * is one; freezes used before (`recordedFreezes`) always hold. The current streak survives until a day
+ * is missed for good: it is 'active' once today is read or today is a rest
+ * day, and 'at-risk' until then.
+ */
+export const calculateStreaks = (
+  dates: string[],
+  today: Date = new Date(),
+  rules: StreakRules = DEFAULT_STREAK_RULES,
+  recordedFreezes: string[] = []
+): StreakStats => {
+  const readDates = Array.from(new Set(dates.filter(isDateString))).sort();
+  const todayNumber = toDayNumber(getReadingDate(today, rules.graceHours));
+  const isRestDay = (day: number) => rules.restDays.includes(new Date(day * DAY_MS).getUTCDay());
+  const monthOf = (day: number) => fromDayNumber(day).slice(0, 7);
+  if (readDates.length === 0) {
+    return { currentStreak: 0, longestStreak: 0, status: 'none', frozenDates: [], currentFreezes: [], freezesLeft: rules.freezes };
+  }
+
+  const read = new Set(readDates.map(toDayNumber));
+  const recorded = new Set(recordedFreezes.filter(isDateString).map(toDayNumber));
+  // Turning freezes on doesn't reach back over the days already missed
+  const freezesFrom = isDateString(rules.freezesSince) ? toDayNumber(rules.freezesSince) : -Infinity;
+  const usedByMonth: Record<string, number> = {};
+  let earned = 0;
+  let readCount = 0;
+  let run = 0;
+  let longestStreak = 0;
+  const frozenDates: string[] = [];
+  let currentFreezes: string[] = [];
+
+  for (let day = toDayNumber(readDates[0]); day <= todayNumber; day++) {
+    if (read.has(day)) {
+      run++;
+      longestStreak = Math.max(longestStreak, run);
+      if (rules.freezeMode === 'earned' && day >= freezesFrom && ++readCount % EARN_FREEZE_EVERY === 0) {
+        earned = Math.min(earned + 1, rules.freezes);
+      }
+      continue;
+    }
+    // Today can still be read, and there's nothing left to save once a streak is broken
+    if (day === todayNumber || isRestDay(day) || run === 0) continue;
+
+    const month = monthOf(day);
+    const available = rules.freezeMode === 'earned' ? earned : rules.freezes - (usedByMonth[month] || 0);
+    if (recorded.has(day) || (day >= freezesFrom && available > 0)) {
+      if (rules.freezeMode === 'earned') earned = Math.max(earned - 1, 0);
+      else usedByMonth[month] = (usedByMonth[month] || 0) + 1;
+      frozenDates.push(fromDayNumber(day));
+      currentFreezes.push(fromDayNumber(day));
+      continue;
+    }
+    run = 0;
+    currentFreezes = [];
+  }
+
+  const status: StreakStatus = read.has(todayNumber) || (run > 0 && isRestDay(todayNumber))
+    ? 'active'
+    : run > 0 ? 'at-risk' : 'broken';
+  return {
+    currentStreak: run,
+    longestStreak,
+    lastReadDate: readDates[readDates.length - 1],
+    status,
+    frozenDates,
+    currentFreezes,
+    freezesLeft: rules.freezeMode === 'earned'
+      ? earned
+      : Math.max(rules.freezes - (usedByMonth[monthOf(todayNumber)] || 0), 0)
+  };
+};
+
+// Every date a reading was completed on, in any plan and any earlier run of it
+export const getReadDates = (planProgress: Record<string, UserProgress> = {}): string[] =>
+  Object.values(planProgress).flatMap(progress =>
+    [progress, ...(progress.pastRuns || [])].flatMap(run => Object.values(run.completionDates))
+  );
+
+export const getStreakRules = (settings: AppSettings): StreakRules => ({ ...DEFAULT_STREAK_RULES, ...settings.streakRules });
+
+// Streak rules with `changes` made; turning freezes on starts them from today
+export const updateStreakRules = (
+  rules: StreakRules,
+  changes: Partial<StreakRules>,
+  today: Date = new Date()
+): StreakRules => {
+  const updated = { ...rules, ...changes };
+  return updated.freezes > 0 && (rules.freezes === 0 || !rules.freezesSince)
+    ? { ...updated, freezesSince: getReadingDate(today, updated.graceHours) }
+    : updated;
+};
+
+// The reader's streak across all plans, by their streak rules
+export const getStreakStats = (settings: AppSettings, today: Date = new Date()): StreakStats =>
+  calculateStreaks(getReadDates(settings.planProgress), today, getStreakRules(settings), settings.streakFreezes);
+
+// Keep only well-formed streak rules from an imported backup
+export const sanitizeStreakRules = (data: unknown): StreakRules => {
+  if (typeof data !== 'object' || data === null) return DEFAULT_STREAK_RULES;
+  const rules = data as Partial<StreakRules>;
+  return {
+    restDays: Array.isArray(rules.restDays)
+      ? rules.restDays.filter(day => Number.isInteger(day) && day >= 0 && day <= 6)
+      : [],
+    freezes: Number.isInteger(rules.freezes) && (rules.freezes as number) > 0 ? (rules.freezes as number) : 0,
+    freezeMode: rules.freezeMode && FREEZE_MODES.includes(rules.freezeMode) ? rules.freezeMode : 'monthly',
+    ...(isDateString(rules.freezesSince) && { freezesSince: rules.freezesSince }),
+    graceHours: Number.isInteger(rules.graceHours)
+      ? Math.min(Math.max(rules.graceHours as number, 0), MAX_GRACE_HOURS)
+      : 0
+  };
+};
+
+export const sanitizeStreakFreezes = (data: unknown): string[] =>
+  Array.isArray(data) ? data.filter(isDateString) : [];
@@ -0,0 +1,73 @@
+import { parseTranslationFiles, validateTranslation } from './translationImport';
+
+describe('parseTranslationFiles', () => {
+  test('reads OSIS container and milestone verses', () => {
+    const osis = `<?xml version="1.0"?>
+      <osis><osisText><header><work><title>Test Bible</title></work></header>
+        <div type="book" osisID="Gen"><chapter osisID="Gen.1">
+          <verse osisID="Gen.1.1">In the beginning<note>a note</note> God</verse>
+          <verse sID="Gen.1.2" osisID="Gen.1.2"/>The earth <w>was</w> without form<verse eID="Gen.1.2"/>
+        </chapter></div>
+      </osisText></osis>`;
+
+    const result = parseTranslationFiles([{ name: 'test.xml', text: osis }]);
+
+    expect(result.format).toBe('osis');
+    expect(result.title).toBe('Test Bible');
+    expect(result.bible.books[0].chapters[0].verses).toEqual([
+      { verse: 1, text: 'In the beginning God' },
+      { verse: 2, text: 'The earth was without form' }
+    ]);
+  });
+
+  test('reads Zefania books by number', () => {
+    const zefania = `<XMLBIBLE><BIBLEBOOK bnumber="43"><CHAPTER cnumber="3">
+      <VERS vnumber="16">For God so loved<NOTE>x</NOTE> the world</VERS>
+    </CHAPTER></BIBLEBOOK></XMLBIBLE>`;
+
+    const { format, bible } = parseTranslationFiles([{ name: 'z.xml', text: zefania }]);
+
+    expect(format).toBe('zefania');
+    expect(bible.books[0].name).toBe('John');
+    expect(bible.books[0].chapters[0].verses).toEqual([{ verse: 16, text: 'For God so loved the world' }]);
+  });
+
+  test('combines USFM files and drops headings, notes and word attributes', () => {
+    const matthew = '\\id MAT\n\\c 1\n\\s1 The Genealogy\n\\p\n\\v 1 The book \\f + \\fr 1:1 \\ft note\\f* of the \\w genealogy|strong="G1078"\\w*.\n\\v 2 Abraham';
+    const genesis = '\\id GEN\n\\c 1\n\\v 1 In the beginning';
+
+    const { bible } = parseTranslationFiles([
+      { name: '41MAT.usfm', text: matthew },
+      { name: '01GEN.usfm', text: genesis }
+    ]);
+
+    expect(bible.books.map(b => b.name)).toEqual(['Gen', 'Matt']);
+    expect(bible.books[1].chapters[0].verses).toEqual([
+      { verse: 1, text: 'The book of the genealogy.' },
+      { verse: 2, text: 'Abraham' }
+    ]);
+  });
+
+  test('rejects unknown formats', () => {
+    expect(() => parseTranslationFiles([{ name: 'a.txt', text: 'hello' }])).toThrow('Unsupported file format');
+  });
+
+  test('rejects files without verses', () => {
+    expect(() => parseTranslationFiles([{ name: 'gen.usfm', text: '\\id GEN\n\\c 1\n\\p' }])).toThrow('No verses found');
+    expect(() => parseTranslationFiles([{ name: 'empty.json', text: '{"verses": []}' }])).toThrow('No verses found');
+  });
+});
+
+describe('validateTranslation', () => {
+  test('lists missing books and chapters', () => {
+    const { bible } = parseTranslationFiles([{ name: 'jude.usfm', text: '\\id JUD\n\\c 1\n\\v 1 Jude' }]);
+    const { bible: ruth } = parseTranslationFiles([{ name: 'ruth.usfm', text: '\\id RUT\n\\c 2\n\\v 1 Naomi' }]);
+
+    const result = validateTranslation({ translation: 'T', books: [...ruth.books, ...bible.books] });
+
+    expect(result.bookCount).toBe(2);
+    expect(result.verseCount).toBe(2);
+    expect(result.missingBooks).toHaveLength(64);
+    expect(result.missingChapters).toEqual([{ book: 'Ruth', chapters: [1, 3, 4] }]);
+  });
+});
@@ -0,0 +1,261 @@
+import { Bible, Book } from '../types';
+import { BOOKS, findBook } from './books';
+import { createBibleSource } from './bibleSource';
+
+export type TranslationFormat = 'osis' | 'usfm' | 'zefania' | 'json';
+
+export interface ImportedTranslation {
+  format: TranslationFormat;
+  // Title found in the file, if any
+  title?: string;
+  bible: Bible;
+}
+
+export interface TranslationValidation {
+  bookCount: number;
+  verseCount: number;
+  missingBooks: string[];
+  missingChapters: { book: string; chapters: number[] }[];
+}
+
+// USFM book codes in canonical order
+const usfmBookCodes = [
+  'GEN', 'EXO', 'LEV', 'NUM', 'DEU', 'JOS', 'JDG', 'RUT', '1SA', '2SA', '1KI', '2KI', '1CH', '2CH',
+  'EZR', 'NEH', 'EST', 'JOB', 'PSA', 'PRO', 'ECC', 'SNG', 'ISA', 'JER', 'LAM', 'EZK', 'DAN', 'HOS',
+  'JOL', 'AMO', 'OBA', 'JON', 'MIC', 'NAM', 'HAB', 'ZEP', 'HAG', 'ZEC', 'MAL',
+  'MAT', 'MRK', 'LUK', 'JHN', 'ACT', 'ROM', '1CO', '2CO', 'GAL', 'EPH', 'PHP', 'COL', '1TH', '2TH',
+  '1TI', '2TI', 'TIT', 'PHM', 'HEB', 'JAS', '1PE', '2PE', '1JN', '2JN', '3JN', 'JUD', 'REV'
+];
+
+// Collects verses in any order and builds a canonical-order Bible
+class BibleBuilder {
+  private books = new Map<string, Map<number, Map<number, string>>>();
+
+  // Text is appended as-is; markup splits words, so spacing is tidied on build
+  add(book: string, chapter: number, verse: number, text: string) {
+    if (!chapter || !verse) return;
+
+    let chapters = this.books.get(book);
+    if (!chapters) {
+      chapters = new Map();
+      this.books.set(book, chapters);
+    }
+    let verses = chapters.get(chapter);
+    if (!verses) {
+      verses = new Map();
+      chapters.set(chapter, verses);
+    }
+    verses.set(verse, (verses.get(verse) || '') + text);
+  }
+
+  build(translation: string): Bible {
+    const books: Book[] = BOOKS.filter(book => this.books.has(book.id)).map(book => ({
+      name: book.id,
+      chapters: Array.from(this.books.get(book.id)!.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([chapter, verses]) => ({
+          chapter,
+          verses: Array.from(verses.entries())
+            .sort((a, b) => a[0] - b[0])
+            .map(([verse, text]) => ({ verse, text: text.replace(/\s+/g, ' ').trim() }))
+            .filter(verse => verse.text)
+        }))
+    }));
+    return { translation, books };
+  }
+}
+
+const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not well-formed XML');
+  }
+  return doc;
+};
+
+// OSIS references look like "Gen.1.1"; ranges are space separated
+const parseOsisId = (osisId: string | null) => {
+  const [book, chapter, verse] = (osisId || '').split(' ')[0].split('.');
+  const info = book ? findBook(book) : undefined;
+  return info ? { book: info.id, chapter: parseInt(chapter), verse: parseInt(verse) } : null;
+};
+
+export const parseOsis = (text: string): ImportedTranslation => {
+  const doc = parseXml(text);
+  const builder = new BibleBuilder();
+  const skipped = new Set(['note', 'title', 'reference', 'header']);
+
+  const walker = doc.createTreeWalker(doc.documentElement, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+    acceptNode: node => (skipped.has(node.nodeName) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT)
+  });
+
+  // Verses are either containers (<verse osisID>text</verse>) or
+  // milestones (<verse sID/> text <verse eID/>)
+  let milestone: ReturnType<typeof parseOsisId> = null;
+  let node = walker.nextNode();
+  while (node) {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const element = node as Element;
+      if (element.nodeName === 'verse') {
+        if (element.hasAttribute('eID')) {
+          milestone = null;
+        } else if (element.hasAttribute('sID') || !element.hasChildNodes()) {
+          milestone = parseOsisId(element.getAttribute('osisID'));
+        }
+      }
+    } else {
+      const container = node.parentElement?.closest('verse');
+      const target = container && !container.hasAttribute('sID') && !container.hasAttribute('eID')
+        ? parseOsisId(container.getAttribute('osisID'))
+        : milestone;
+      if (target) builder.add(target.book, target.chapter, target.verse, node.textContent || '');
+    }
+    node = walker.nextNode();
+  }
+
+  const title = doc.querySelector('work title')?.textContent?.trim();
+  return { format: 'osis', title, bible: builder.build(title || 'OSIS') };
+};
+
+export const parseZefania = (text: string): ImportedTranslation => {
+  const doc = parseXml(text);
+  const builder = new BibleBuilder();
+
+  Array.from(doc.getElementsByTagName('BIBLEBOOK')).forEach(bookElement => {
+    const number = parseInt(bookElement.getAttribute('bnumber') || '');
+    const book = BOOKS[number - 1] || findBook(bookElement.getAttribute('bname') || '');
+    if (!book) return;
+
+    Array.from(bookElement.getElementsByTagName('CHAPTER')).forEach(chapterElement => {
+      const chapter = parseInt(chapterElement.getAttribute('cnumber') || '');
+      Array.from(chapterElement.getElementsByTagName('VERS')).forEach(verseElement => {
+        const copy = verseElement.cloneNode(true) as Element;
+        Array.from(copy.getElementsByTagName('NOTE')).forEach(note => note.remove());
+        builder.add(book.id, chapter, parseInt(verseElement.getAttribute('vnumber') || ''), copy.textContent || '');
+      });
+    });
+  });
+
+  const title = doc.querySelector('INFORMATION > title')?.textContent?.trim();
+  return { format: 'zefania', title, bible: builder.build(title || 'Zefania') };
+};
+
+// Paragraph-level markers whose text is not part of any verse
+const usfmSkippedMarkers = /^(h|toc\d?|toca\d?|mt\d?|mte\d?|ms\d?|mr|s\d?|sr|r|d|sp|cl|cd|rem|ide|sts|restore|periph)$/;
+
+export const parseUsfm = (texts: string[]): ImportedTranslation => {
+  const builder = new BibleBuilder();
+
+  texts.forEach(text => {
+    const content = text
+      // Footnotes, cross references and their contents
+      .replace(/\\(f|fe|x)\s[\s\S]*?\\\1\*/g, ' ')
+      // Word-level attributes such as \w grace|strong="G5485"\w*
+      .replace(/\|[^\\]*?(\\\+?\w+\*)/g, '$1');
+
+    let book: string | undefined;
+    let chapter = 0;
+    let verse = 0;
+
+    content.split(/(\\\+?[a-z]+\d*\*?)/i).forEach((token, index, tokens) => {
+      if (index % 2 === 1) return;
+      const marker = index > 0 ? tokens[index - 1].replace(/^\\\+?/, '') : '';
+
+      if (marker === 'id') {
+        const code = token.trim().split(/\s+/)[0].toUpperCase();
+        const bookIndex = usfmBookCodes.indexOf(code);
+        book = bookIndex >= 0 ? BOOKS[bookIndex].id : findBook(code)?.id;
+        chapter = 0;
+        verse = 0;
+      } else if (marker === 'c') {
+        chapter = parseInt(token);
+        verse = 0;
+      } else if (marker === 'v') {
+        const match = token.match(/^\s*(\d+)\S*\s?([\s\S]*)$/);
+        verse = match ? parseInt(match[1]) : 0;
+        if (book && match) builder.add(book, chapter, verse, ` ${match[2]}`);
+      } else if (usfmSkippedMarkers.test(marker)) {
+        // Headings and titles end at the next marker
+      } else if (book && verse) {
+        builder.add(book, chapter, verse, token);
+      }
+    });
+  });
+
+  return { format: 'usfm', bible: builder.build('USFM') };
+};
+
+export const parseJsonTranslation = (text: string): ImportedTranslation => {
+  const data = JSON.parse(text);
+  const source = createBibleSource(data, 'JSON');
+  const bible: Bible = {
+    translation: 'JSON',
+    books: source.listBooks().map(book => {
+      const chapters = [];
+      for (let chapter = 1; chapter <= source.getChapterCount(book.id); chapter++) {
+        const chapterData = source.getChapter(book.id, chapter);
+        if (chapterData) chapters.push(chapterData);
+      }
+      return { name: book.id, chapters };
+    })
+  };
+  const title = typeof data.translation === 'string' ? data.translation : undefined;
+  return { format: 'json', title, bible };
+};
+
+const detectAndParse = (files: { name: string; text: string }[]): ImportedTranslation => {
+  if (files.length === 0) throw new Error('No file selected');
+
+  const first = files[0].text.trimStart();
+  if (first.startsWith('{')) {
+    return parseJsonTranslation(first);
+  }
+  if (first.startsWith('<')) {
+    if (/<osis[\s>]/.test(first)) return parseOsis(first);
+    if (/<XMLBIBLE[\s>]/i.test(first)) return parseZefania(first);
+    throw new Error('Unsupported XML format; expected OSIS or Zefania');
+  }
+  if (files.some(file => /\\id\s/.test(file.text))) {
+    return parseUsfm(files.map(file => file.text));
+  }
+  throw new Error('Unsupported file format');
+};
+
+/**
+ * Detect the format of one or more selected files and parse them into a
+ * normalized Bible. USFM is usually distributed as one file per book, so
+ * several USFM files are combined; other formats expect a single file.
+ * Files without a single verse are rejected rather than saved empty.
+ */
+export const parseTranslationFiles = (files: { name: string; text: string }[]): ImportedTranslation => {
+  const result = detectAndParse(files);
+  if (!result.bible.books.some(book => book.chapters.some(chapter => chapter.verses.length > 0))) {
+    throw new Error('No verses found');
+  }
+  return result;
+};
+
+// Compare an imported Bible against the canonical book and chapter list
+export const validateTranslation = (bible: Bible): TranslationValidation => {
+  const books = new Map(bible.books.map(book => [book.name, book]));
+  const missingChapters: TranslationValidation['missingChapters'] = [];
+  let verseCount = 0;
+
+  BOOKS.forEach(info => {
+    const book = books.get(info.id);
+    if (!book) return;
+    const present = new Set(book.chapters.map(c => c.chapter));
+    const missing = Array.from({ length: info.chapters }, (_, i) => i + 1).filter(c => !present.has(c));
+    if (missing.length > 0) missingChapters.push({ book: info.id, chapters: missing });
+    book.chapters.forEach(c => {
+      verseCount += c.verses.length;
+    });
+  });
+
+  return {
+    bookCount: bible.books.length,
+    verseCount,
+    missingBooks: BOOKS.filter(info => !books.has(info.id)).map(info => info.id),
+    missingChapters
+  };
+};
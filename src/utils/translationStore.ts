@@ -0,0 +1,43 @@
+import { Bible } from '../types';
+
+// Imported translations are several megabytes each, more than localStorage
+// can hold, so their text lives in IndexedDB keyed by translation id
+const DB_NAME = 'bibleduo';
+const STORE_NAME = 'translations';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveTranslation = async (id: string, bible: Bible): Promise<void> => {
+  await runRequest('readwrite', store => store.put(bible, id));
+};
+
+export const loadTranslation = (id: string): Promise<Bible | undefined> =>
+  runRequest<Bible | undefined>('readonly', store => store.get(id));
+
+export const deleteTranslation = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,29 @@
+import { Locale } from 'date-fns';
+import { zhCN, zhTW } from 'date-fns/locale';
+import { UiLanguage } from '../types';
+import { toTraditionalCached } from './chinese';
+
+/**
+ * Pick a component's UI strings for the current language. Components only
+ * keep English and Simplified Chinese strings; the Traditional interface is
+ * converted from the Simplified ones.
+ */
+export const getUiText = <T extends Record<string, string>>(
+  uiText: { en: T; zh: T },
+  language: UiLanguage = 'en'
+): T => {
+  if (language !== 'zh-Hant') return uiText[language];
+
+  const converted = {} as Record<string, string>;
+  Object.keys(uiText.zh).forEach(key => {
+    converted[key] = toTraditionalCached(uiText.zh[key]);
+  });
+  return converted as T;
+};
+
+// date-fns locale for month and weekday names in the interface language
+export const getDateLocale = (language: UiLanguage = 'en'): Locale | undefined => {
+  if (language === 'zh') return zhCN;
+  if (language === 'zh-Hant') return zhTW;
+  return undefined;
+};
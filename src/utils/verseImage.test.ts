@@ -0,0 +1,27 @@
+import { wrapText } from './verseImage';
+
+// Every character is 10 units wide
+const measure = (text: string) => text.length * 10;
+
+test('wraps Latin text at spaces', () => {
+  expect(wrapText('For God so loved the world', 100, measure)).toEqual(['For God so', 'loved the', 'world']);
+});
+
+test('splits words longer than a line', () => {
+  expect(wrapText('a extraordinarily b', 60, measure)).toEqual(['a', 'extrao', 'rdinar', 'ily b']);
+});
+
+test('wraps CJK text between characters without orphaned punctuation', () => {
+  expect(wrapText('神爱世人，甚至将他的独生子赐给他们', 50, measure)).toEqual([
+    '神爱世人，',
+    '甚至将他的',
+    '独生子赐给',
+    '他们'
+  ]);
+  // The closing mark stays with the character before it
+  expect(wrapText('耶稣说：“我就是道路”', 40, measure)).toEqual(['耶稣说：', '“我就是', '道路”']);
+});
+
+test('wraps mixed scripts', () => {
+  expect(wrapText('BibleDuo 圣经', 90, measure)).toEqual(['BibleDuo', '圣经']);
+});
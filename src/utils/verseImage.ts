@@ -0,0 +1,184 @@
+export type CardTemplate = 'classic' | 'modern' | 'minimal';
+export type CardBackground = 'plain' | 'paper' | 'sunrise' | 'ocean' | 'forest';
+
+export const CARD_TEMPLATES: CardTemplate[] = ['classic', 'modern', 'minimal'];
+export const CARD_BACKGROUNDS: CardBackground[] = ['plain', 'paper', 'sunrise', 'ocean', 'forest'];
+
+interface Palette {
+  from: string;
+  to: string;
+  text: string;
+  accent: string;
+}
+
+// Every background has a light and a dark version to match the app theme
+export const CARD_PALETTES: Record<CardBackground, { light: Palette; dark: Palette }> = {
+  plain: {
+    light: { from: '#ffffff', to: '#f1f3f4', text: '#1a1a1a', accent: '#007bff' },
+    dark: { from: '#1a1a1a', to: '#2d2d2d', text: '#ffffff', accent: '#4dabf7' }
+  },
+  paper: {
+    light: { from: '#f8f1e3', to: '#efe3c8', text: '#3b3024', accent: '#a0522d' },
+    dark: { from: '#2b2418', to: '#3a3022', text: '#f3e9d2', accent: '#d9a066' }
+  },
+  sunrise: {
+    light: { from: '#ffb88c', to: '#de6262', text: '#ffffff', accent: '#fff3b0' },
+    dark: { from: '#4a1942', to: '#c74b50', text: '#ffffff', accent: '#ffd3a5' }
+  },
+  ocean: {
+    light: { from: '#4fb3d9', to: '#1e6f9f', text: '#ffffff', accent: '#e0f7fa' },
+    dark: { from: '#0f2027', to: '#2c5364', text: '#ffffff', accent: '#6dd5ed' }
+  },
+  forest: {
+    light: { from: '#6fb36b', to: '#2f7a3d', text: '#ffffff', accent: '#f0ffe0' },
+    dark: { from: '#0b3d2e', to: '#1e6f50', text: '#ffffff', accent: '#a8e063' }
+  }
+};
+
+// System font stacks only, so cards render the same offline. The CJK
+// families follow the Latin ones so each script picks its own face.
+const SERIF = 'Georgia, "Times New Roman", "Songti SC", "Noto Serif CJK SC", "Source Han Serif SC", SimSun, serif';
+const SANS = '-apple-system, "Segoe UI", Roboto, "PingFang SC", "Hiragino Sans GB", "Noto Sans CJK SC", "Microsoft YaHei", sans-serif';
+
+// CJK characters and punctuation are one token each. Lines never start with
+// closing punctuation or end with opening punctuation.
+const tokenPattern = /\s+|[\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]|[^\s\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]+/g;
+const closingPunctuation = /^[，。、；：？！）」』》〉】”’,.;:?!)\]]+$/;
+const openingPunctuation = /^[（「『《〈【“‘([]+$/;
+
+/**
+ * Break text into lines no wider than maxWidth. Latin text breaks at spaces;
+ * CJK text may break between any two characters. Words too long for a line
+ * are split wherever they must be.
+ */
+export const wrapText = (text: string, maxWidth: number, measure: (text: string) => number): string[] => {
+  const tokens: string[] = [];
+  let pendingOpening = '';
+  (text.match(tokenPattern) || []).forEach(token => {
+    const previous = tokens[tokens.length - 1];
+    if (closingPunctuation.test(token) && previous && !/^\s+$/.test(previous)) {
+      tokens[tokens.length - 1] = previous + token;
+    } else if (openingPunctuation.test(token)) {
+      pendingOpening += token;
+    } else {
+      tokens.push(pendingOpening + token);
+      pendingOpening = '';
+    }
+  });
+  if (pendingOpening) tokens.push(pendingOpening);
+
+  const lines: string[] = [];
+  let line = '';
+  const pushLine = () => {
+    if (line.trim()) lines.push(line.trim());
+    line = '';
+  };
+
+  tokens.forEach(token => {
+    if (/^\s+$/.test(token)) {
+      if (line) line += ' ';
+      return;
+    }
+    if (measure(line + token) <= maxWidth) {
+      line += token;
+      return;
+    }
+    pushLine();
+    if (measure(token) <= maxWidth) {
+      line = token;
+      return;
+    }
+    for (const char of Array.from(token)) {
+      if (line && measure(line + char) > maxWidth) pushLine();
+      line += char;
+    }
+  });
+  pushLine();
+  return lines;
+};
+
+export interface VerseCard {
+  text: string;
+  // e.g. "John 3:16-17 (ESV)"
+  reference: string;
+  template: CardTemplate;
+  background: CardBackground;
+  theme: 'light' | 'dark';
+}
+
+export const CARD_WIDTH = 1080;
+const PADDING = 120;
+const MAX_FONT_SIZE = 64;
+const MIN_FONT_SIZE = 34;
+const LINE_HEIGHT = 1.5;
+
+const templateFonts: Record<CardTemplate, { family: string; weight: string; align: CanvasTextAlign }> = {
+  classic: { family: SERIF, weight: '400', align: 'center' },
+  modern: { family: SANS, weight: '600', align: 'left' },
+  minimal: { family: SANS, weight: '300', align: 'center' }
+};
+
+/**
+ * Draw a card onto a canvas. Cards are square unless the passage is too long
+ * to fit at the smallest font size, in which case the card grows taller.
+ */
+export const drawVerseCard = (canvas: HTMLCanvasElement, card: VerseCard): void => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const palette = CARD_PALETTES[card.background][card.theme];
+  const { family, weight, align } = templateFonts[card.template];
+  const textWidth = CARD_WIDTH - PADDING * 2 - (card.template === 'modern' ? 40 : 0);
+  const referenceSize = card.template === 'minimal' ? 28 : 34;
+  const footer = referenceSize * 2 + 140;
+
+  // Shrink the text until it fits the square, then let the card grow
+  let fontSize = MAX_FONT_SIZE;
+  let lines: string[] = [];
+  for (; fontSize >= MIN_FONT_SIZE; fontSize -= 2) {
+    ctx.font = `${weight} ${fontSize}px ${family}`;
+    lines = wrapText(card.text, textWidth, text => ctx.measureText(text).width);
+    if (lines.length * fontSize * LINE_HEIGHT <= CARD_WIDTH - PADDING * 2 - footer) break;
+  }
+  fontSize = Math.max(fontSize, MIN_FONT_SIZE);
+  const textHeight = lines.length * fontSize * LINE_HEIGHT;
+  const height = Math.max(CARD_WIDTH, Math.ceil(textHeight + footer + PADDING * 2));
+
+  canvas.width = CARD_WIDTH;
+  canvas.height = height;
+
+  const gradient = ctx.createLinearGradient(0, 0, CARD_WIDTH, height);
+  gradient.addColorStop(0, palette.from);
+  gradient.addColorStop(1, palette.to);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, CARD_WIDTH, height);
+
+  const top = (height - textHeight - footer) / 2;
+  const x = align === 'center' ? CARD_WIDTH / 2 : PADDING + (card.template === 'modern' ? 40 : 0);
+
+  if (card.template === 'modern') {
+    ctx.fillStyle = palette.accent;
+    ctx.fillRect(PADDING, top, 8, textHeight);
+  }
+
+  ctx.fillStyle = palette.text;
+  ctx.textAlign = align;
+  ctx.textBaseline = 'middle';
+  ctx.font = `${weight} ${fontSize}px ${family}`;
+  lines.forEach((line, i) => {
+    ctx.fillText(line, x, top + (i + 0.5) * fontSize * LINE_HEIGHT);
+  });
+
+  // Reference under the text, the BibleDuo mark in the bottom corner
+  const referenceTop = top + textHeight + referenceSize * 2;
+  ctx.fillStyle = card.template === 'classic' ? palette.text : palette.accent;
+  ctx.font = `${card.template === 'minimal' ? '400' : '700'} ${referenceSize}px ${family}`;
+  ctx.fillText(card.template === 'classic' ? `— ${card.reference}` : card.reference, x, referenceTop);
+
+  ctx.globalAlpha = 0.7;
+  ctx.fillStyle = palette.text;
+  ctx.textAlign = 'right';
+  ctx.font = `700 26px ${SANS}`;
+  ctx.fillText('BibleDuo', CARD_WIDTH - 60, height - 60);
+  ctx.globalAlpha = 1;
+};
@@ -0,0 +1,96 @@
+// Passage lookup benchmark for the CUVS verse list.
+// Run with `npm run bench`; it is not part of the regular test run.
+import { BOOKS } from './books';
+import { createBibleSource } from './bibleSource';
+import { parseReference } from './reference';
+
+const plan = require('../../public/data/esveverydayinword_plan.json');
+
+interface CUVSVerse {
+  book_name: string;
+  book: number;
+  chapter: number;
+  verse: number;
+  text: string;
+}
+
+// A synthetic CUVS file with the real book and chapter layout (~31k verses)
+const createCuvsData = (): { verses: CUVSVerse[] } => {
+  const verses: CUVSVerse[] = [];
+  BOOKS.forEach(book => {
+    for (let chapter = 1; chapter <= book.chapters; chapter++) {
+      for (let verse = 1; verse <= 26; verse++) {
+        verses.push({ book_name: book.names.zh, book: book.order, chapter, verse, text: '起初神创造天地。' });
+      }
+    }
+  });
+  return { verses };
+};
+
+// The lookup ReadingView used before indexing: rebuild the book list and
+// filter the entire verse array for every passage
+const linearLookup = (data: { verses: CUVSVerse[] }, bookName: string, startChapter: number,
+  startVerse: number, endChapter: number, endVerse: number) => {
+  const availableBooks = Array.from(new Set(data.verses.map(v => v.book_name)));
+  if (!availableBooks.includes(bookName)) return [];
+
+  const bookVerses = data.verses.filter(v => v.book_name === bookName);
+  const verses: { verse: number; text: string }[] = [];
+  for (let chapter = startChapter; chapter <= endChapter; chapter++) {
+    const chapterVerses = bookVerses.filter(v => v.chapter === chapter);
+    if (chapterVerses.length === 0) continue;
+    const start = chapter === startChapter ? startVerse : 1;
+    const end = chapter === endChapter ? endVerse : Math.max(...chapterVerses.map(v => v.verse));
+    verses.push(...chapterVerses
+      .filter(v => v.verse >= start && v.verse <= end)
+      .map(v => ({ verse: v.verse, text: v.text }))
+      .sort((a, b) => a.verse - b.verse));
+  }
+  return verses;
+};
+
+const time = (run: () => void): number => {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+};
+
+test('passage lookup: linear filtering vs indexed source', () => {
+  const data = createCuvsData();
+  const ranges = (plan.data2 as string[][]).flat().flatMap(reference => {
+    const parsed = parseReference(reference);
+    return parsed.ok ? parsed.ranges : [];
+  });
+  const sample = ranges.slice(0, 200);
+
+  let source = createBibleSource(data, 'CUVS');
+  const indexMs = time(() => {
+    source = createBibleSource(data, 'CUVS');
+  });
+
+  let linearCount = 0;
+  const linearMs = time(() => {
+    sample.forEach(r => {
+      const bookName = BOOKS.find(b => b.id === r.book)!.names.zh;
+      linearCount += linearLookup(data, bookName, r.startChapter, r.startVerse, r.endChapter, r.endVerse ?? Infinity).length;
+    });
+  });
+
+  let indexedCount = 0;
+  const indexedMs = time(() => {
+    sample.forEach(r => {
+      indexedCount += source.getVerses(r).length;
+    });
+  });
+
+  expect(indexedCount).toBe(linearCount);
+  console.table({
+    'verses in file': { value: data.verses.length },
+    'passages looked up': { value: sample.length },
+    'build index (ms, once per load)': { value: +indexMs.toFixed(2) },
+    'linear lookup total (ms)': { value: +linearMs.toFixed(2) },
+    'linear lookup per passage (ms)': { value: +(linearMs / sample.length).toFixed(3) },
+    'indexed lookup total (ms)': { value: +indexedMs.toFixed(2) },
+    'indexed lookup per passage (ms)': { value: +(indexedMs / sample.length).toFixed(4) }
+  });
+});
@@ -0,0 +1,44 @@
+import { buildVerseIndex, getIndexedChapterCount, IndexedVerse } from './verseIndex';
+
+const verse = (book: string, chapter: number, number: number): IndexedVerse =>
+  ({ book, chapter, verse: number, text: `${book} ${chapter}:${number}` });
+
+test('groups verses by book and chapter in order', () => {
+  const index = buildVerseIndex([
+    verse('Gen', 1, 1),
+    verse('Gen', 1, 3),
+    verse('Gen', 1, 2),
+    verse('Gen', 2, 1),
+    verse('Exod', 1, 1),
+    verse('Gen', 3, 1)
+  ]);
+
+  expect(Array.from(index.keys())).toEqual(['Gen', 'Exod']);
+  expect(Array.from(index.get('Gen')?.keys() || [])).toEqual([1, 2, 3]);
+  // Verses listed out of order are sorted within their chapter
+  expect(index.get('Gen')?.get(1)).toEqual({
+    chapter: 1,
+    verses: [
+      { verse: 1, text: 'Gen 1:1' },
+      { verse: 2, text: 'Gen 1:2' },
+      { verse: 3, text: 'Gen 1:3' }
+    ]
+  });
+});
+
+test('counts chapters up to the last one indexed', () => {
+  const index = buildVerseIndex([verse('Ruth', 1, 1), verse('Ruth', 4, 1), verse('Jude', 1, 1)]);
+
+  // Missing chapters in between still count
+  expect(getIndexedChapterCount(index, 'Ruth')).toBe(4);
+  expect(getIndexedChapterCount(index, 'Jude')).toBe(1);
+});
+
+test('finds nothing for a missing book or chapter', () => {
+  const index = buildVerseIndex([verse('Gen', 1, 1)]);
+
+  expect(index.get('Rev')).toBeUndefined();
+  expect(index.get('Gen')?.get(2)).toBeUndefined();
+  expect(getIndexedChapterCount(index, 'Rev')).toBe(0);
+  expect(buildVerseIndex([]).size).toBe(0);
+});
@@ -0,0 +1,46 @@
+import { Chapter, Verse } from '../types';
+
+export interface IndexedVerse {
+  book: string;
+  chapter: number;
+  verse: number;
+  text: string;
+}
+
+// book id -> chapter number -> verses in order
+export type VerseIndex = Map<string, Map<number, Chapter>>;
+
+/**
+ * Group a flat verse list by book and chapter once, so later lookups are
+ * map reads instead of scans over the whole Bible (~31k verses).
+ */
+export const buildVerseIndex = (verses: IndexedVerse[]): VerseIndex => {
+  const index: VerseIndex = new Map();
+  let needsSort = false;
+
+  verses.forEach(({ book, chapter, verse, text }) => {
+    let chapters = index.get(book);
+    if (!chapters) {
+      chapters = new Map();
+      index.set(book, chapters);
+    }
+    let chapterData = chapters.get(chapter);
+    if (!chapterData) {
+      chapterData = { chapter, verses: [] };
+      chapters.set(chapter, chapterData);
+    }
+    const previous: Verse | undefined = chapterData.verses[chapterData.verses.length - 1];
+    if (previous && previous.verse > verse) needsSort = true;
+    chapterData.verses.push({ verse, text });
+  });
+
+  if (needsSort) {
+    index.forEach(chapters => chapters.forEach(c => c.verses.sort((a, b) => a.verse - b.verse)));
+  }
+  return index;
+};
+
+export const getIndexedChapterCount = (index: VerseIndex, book: string): number => {
+  const chapters = index.get(book);
+  return chapters ? Math.max(0, ...Array.from(chapters.keys())) : 0;
+};
@@ -24,8 +24,9 @@ try {
   };
 }
 
-// Get today's date
-const today = new Date().toISOString().split('T')[0];
+// Get today's date in the local timezone, allowing the streak grace period after midnight
+const { getReadingDate } = importModule("bibleduo-streak");
+const today = getReadingDate(new Date(), (currentData.streakRules || {}).graceHours);
 
 // Ask user which day they completed
 const alert = new Alert();